@@ -14,26 +14,76 @@ export function dateToJulianDate(date: Date): number {
 }
 
 /** Julian Centuries from the J2000.0 epoch. */
-function calcTimeJulianCent(jd: number): number {
+export function calcTimeJulianCent(jd: number): number {
     return (jd - 2451545.0) / 36525.0;
 }
 
-function degToRad(d: number): number { return d * (Math.PI / 180.0); }
-function radToDeg(r: number): number { return r * (180.0 / Math.PI); }
+export function degToRad(d: number): number { return d * (Math.PI / 180.0); }
+export function radToDeg(r: number): number { return r * (180.0 / Math.PI); }
+
+/** Normalizes an angle to the range [0, 360). */
+export function normalizeDegrees(d: number): number {
+    const r = d % 360;
+    return r < 0 ? r + 360 : r;
+}
+
+/**
+ * Builds a `Date` representing 12:00 PM **local** time in UTC.
+ * E.g. if the local timezone is UTC+3 (180 min), local noon = 09:00 UTC.
+ */
+export function localNoonToUTC(year: number, month: number, day: number, tzOffset: number): Date {
+    const noon = new Date(Date.UTC(year, month, day, 12, 0, 0, 0));
+    noon.setUTCMinutes(noon.getUTCMinutes() - tzOffset);
+    return noon;
+}
+
+/** Greenwich mean sidereal time in degrees for a Julian Date. */
+export function getGreenwichSiderealTime(jd: number): number {
+    const t = calcTimeJulianCent(jd);
+    return normalizeDegrees(280.46061837 + 360.98564736629 * (jd - 2451545.0) + t * t * (0.000387933 - t / 38710000));
+}
 
 // ── Solar Coordinates ────────────────────────────────────────────────────────
 
-interface SolarCoordinates {
+export interface SolarCoordinates {
     /** Sun declination in degrees. */
     declination: number;
     /** Equation of Time in minutes. */
     equationOfTime: number;
+    /** Sun right ascension in degrees. */
+    rightAscension: number;
+    /** Sun apparent ecliptic longitude in degrees. */
+    apparentLongitude: number;
+    /** True obliquity of the ecliptic in degrees. */
+    obliquity: number;
+}
+
+/**
+ * A source of solar coordinates. The built-in NOAA model is the default; see
+ * `ephemeris.ts` for the higher-accuracy VSOP87 model.
+ */
+export interface SolarEphemeris {
+    /** Short identifier, e.g. `'noaa'`. */
+    name: string;
+    /** Solar coordinates for a Julian Date (UT). */
+    getSolarCoordinates(jd: number): SolarCoordinates;
+}
+
+/**
+ * Options shared by the event calculators.
+ */
+export interface SolverOptions {
+    /** Re-evaluate the solar position at each event time until convergence. Default: false. */
+    precise?: boolean;
+    /** Ephemeris supplying solar coordinates. Default: `NOAA_EPHEMERIS`. */
+    ephemeris?: SolarEphemeris;
 }
 
 /**
- * Calculates the sun's declination and Equation of Time for a given Julian Date.
+ * Calculates the sun's position and Equation of Time for a given Julian Date
+ * (NOAA approximation).
  */
-function getSolarCoordinates(jd: number): SolarCoordinates {
+export function getSolarCoordinates(jd: number): SolarCoordinates {
     const t = calcTimeJulianCent(jd);
 
     // Geometric Mean Longitude of the Sun (degrees)
@@ -71,8 +121,9 @@ function getSolarCoordinates(jd: number): SolarCoordinates {
     const oblCorr = e0 + 0.00256 * Math.cos(omegaRad);
     const oblCorrRad = degToRad(oblCorr);
 
-    // Declination
+    // Declination & Right Ascension
     const declination = radToDeg(Math.asin(Math.sin(oblCorrRad) * Math.sin(lambdaRad)));
+    const rightAscension = normalizeDegrees(radToDeg(Math.atan2(Math.cos(oblCorrRad) * Math.sin(lambdaRad), Math.cos(lambdaRad))));
 
     // Equation of Time
     const y = Math.tan(oblCorrRad / 2.0) ** 2;
@@ -84,9 +135,15 @@ function getSolarCoordinates(jd: number): SolarCoordinates {
         - 1.25 * e * e * Math.sin(2 * degToRad(m));
     const equationOfTime = radToDeg(eqTimeRad) * 4.0; // minutes
 
-    return { declination, equationOfTime };
+    return { declination, equationOfTime, rightAscension, apparentLongitude: normalizeDegrees(lambda), obliquity: oblCorr };
 }
 
+/** The default NOAA solar model. */
+export const NOAA_EPHEMERIS: SolarEphemeris = {
+    name: 'noaa',
+    getSolarCoordinates,
+};
+
 // ── Hour Angle ───────────────────────────────────────────────────────────────
 
 /**
@@ -104,6 +161,43 @@ function getHourAngle(altitudeDeg: number, declinationDeg: number, latitudeDeg:
 
 // ── Core time-for-angle resolver ─────────────────────────────────────────────
 
+/** Iteration limit and convergence threshold for high-precision solving. */
+const MAX_ITERATIONS = 6;
+const CONVERGENCE_MS = 500;
+
+/**
+ * Solves for an event on the local day whose noon is `localNoonUTC`.
+ *
+ * `offsetForCoordinates` returns the event's offset in minutes from local noon for
+ * the given solar coordinates, or `null` if the event does not occur.
+ *
+ * By default the coordinates are evaluated once at local noon. With `precise`,
+ * they are re-evaluated at each new estimate of the event time until it moves by
+ * less than half a second, and the result is rounded to the nearest second.
+ */
+function solveEvent(
+    localNoonUTC: Date,
+    options: SolverOptions,
+    offsetForCoordinates: (coords: SolarCoordinates) => number | null,
+): Date | null {
+    const { precise = false, ephemeris = NOAA_EPHEMERIS } = options;
+    let estimate = localNoonUTC.getTime();
+    let result: number | null = null;
+
+    for (let i = 0; i < (precise ? MAX_ITERATIONS : 1); i++) {
+        const offsetMinutes = offsetForCoordinates(ephemeris.getSolarCoordinates(dateToJulianDate(new Date(estimate))));
+        if (offsetMinutes == null) return null;
+
+        const next = localNoonUTC.getTime() + offsetMinutes * 60000;
+        const converged = result != null && Math.abs(next - result) < CONVERGENCE_MS;
+        result = next;
+        estimate = next;
+        if (converged) break;
+    }
+
+    return new Date(precise ? Math.round(result! / 1000) * 1000 : result!);
+}
+
 /**
  * Computes the UTC time for a solar event on the local day whose noon (12:00 local)
  * corresponds to `localNoonUTC`.
@@ -115,18 +209,16 @@ function calculateTimeForAngle(
     timezoneOffsetMinutes: number,
     angleDeg: number,
     isSunset: boolean,
+    options: SolverOptions = {},
 ): Date | null {
-    const jd = dateToJulianDate(localNoonUTC);
-    const { declination, equationOfTime } = getSolarCoordinates(jd);
-    const hourAngle = getHourAngle(angleDeg, declination, latitude);
-
-    if (isNaN(hourAngle)) return null;
-
-    const hDeg = isSunset ? hourAngle : -hourAngle;
-    const longitudeCorrection = longitude * 4.0 - timezoneOffsetMinutes;
-    const offsetMinutes = hDeg * 4.0 - longitudeCorrection - equationOfTime;
-
-    return new Date(localNoonUTC.getTime() + offsetMinutes * 60000);
+    return solveEvent(localNoonUTC, options, ({ declination, equationOfTime }) => {
+        const hourAngle = getHourAngle(angleDeg, declination, latitude);
+        if (isNaN(hourAngle)) return null;
+
+        const hDeg = isSunset ? hourAngle : -hourAngle;
+        const longitudeCorrection = longitude * 4.0 - timezoneOffsetMinutes;
+        return hDeg * 4.0 - longitudeCorrection - equationOfTime;
+    });
 }
 
 // ── Public event calculators ─────────────────────────────────────────────────
@@ -136,42 +228,59 @@ function calculateTimeForAngle(
  * Default angle: 18°.
  */
 export function getFajr(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, twilightAngle = 18,
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, twilightAngle = 18, options: SolverOptions = {},
+): Date | null {
+    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -twilightAngle, false, options);
+}
+
+/**
+ * Dip of the visible horizon (degrees) for an observer `heightMeters` above it.
+ * Standard approximation: 0.0347° × √h.
+ */
+export function getHorizonDip(heightMeters: number): number {
+    return heightMeters > 0 ? 0.0347 * Math.sqrt(heightMeters) : 0;
+}
+
+/**
+ * Time at which the sun's centre reaches `altitudeDeg` (negative below the horizon),
+ * in the morning or, with `afternoon`, in the afternoon.
+ */
+export function getTimeForAltitude(
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, altitudeDeg: number, afternoon: boolean, options: SolverOptions = {},
 ): Date | null {
-    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -twilightAngle, false);
+    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, altitudeDeg, afternoon, options);
 }
 
 /**
  * Sunrise — upper limb of the sun appears above the horizon.
- * Standard correction: -0.833° (refraction + solar semidiameter).
+ * Standard correction: -0.833° (refraction + solar semidiameter), shifted by the
+ * altitude of the visible horizon (`horizonAltitude`, degrees; negative for a dip).
  */
 export function getSunrise(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number,
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, horizonAltitude = 0, options: SolverOptions = {},
 ): Date | null {
-    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -0.833, false);
+    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -0.833 + horizonAltitude, false, options);
 }
 
 /**
  * Solar Noon (Dhuhr) — sun transits the local meridian.
  */
 export function getSolarNoon(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number,
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, options: SolverOptions = {},
 ): Date {
-    const jd = dateToJulianDate(localNoonUTC);
-    const { equationOfTime } = getSolarCoordinates(jd);
     const longitudeCorrection = lon * 4.0 - tzOffset;
-    const offsetMinutes = -longitudeCorrection - equationOfTime;
-    return new Date(localNoonUTC.getTime() + offsetMinutes * 60000);
+    return solveEvent(localNoonUTC, options, ({ equationOfTime }) => -longitudeCorrection - equationOfTime)!;
 }
 
 /**
  * Maghrib (sunset) — upper limb of the sun disappears below the horizon.
- * Standard correction: -0.833° (refraction + solar semidiameter).
+ * Standard correction: -0.833° (refraction + solar semidiameter), shifted by the
+ * altitude of the visible horizon (`horizonAltitude`, degrees; negative for a dip).
  */
 export function getMaghrib(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number,
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, horizonAltitude = 0, options: SolverOptions = {},
 ): Date | null {
-    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -0.833, true);
+    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -0.833 + horizonAltitude, true, options);
 }
 
 /**
@@ -179,9 +288,9 @@ export function getMaghrib(
  * Default angle: 18°.
  */
 export function getIsha(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, twilightAngle = 18,
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, twilightAngle = 18, options: SolverOptions = {},
 ): Date | null {
-    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -twilightAngle, true);
+    return calculateTimeForAngle(localNoonUTC, lat, lon, tzOffset, -twilightAngle, true, options);
 }
 
 /**
@@ -189,27 +298,25 @@ export function getIsha(
  * scale = 1 for Standard (Shafi'i, Maliki, Hanbali), scale = 2 for Hanafi.
  */
 export function getAsr(
-    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, asrMethod: 'standard' | 'hanafi' = 'standard',
+    localNoonUTC: Date, lat: number, lon: number, tzOffset: number, asrMethod: 'standard' | 'hanafi' = 'standard', options: SolverOptions = {},
 ): Date | null {
-    const jd = dateToJulianDate(localNoonUTC);
-    const { declination, equationOfTime } = getSolarCoordinates(jd);
-
     const shadowFactor = asrMethod === 'hanafi' ? 2 : 1;
-    const decRad = degToRad(declination);
     const latRad = degToRad(lat);
-    const absLatDec = Math.abs(latRad - decRad);
+    const longitudeCorrection = lon * 4.0 - tzOffset;
 
-    // Altitude of sun at Asr matching the shadow criteria
-    // a = atan(1 / (shadowFactor + tan(|Lat - Dec|)))
-    const altitudeRad = Math.atan(1.0 / (shadowFactor + Math.tan(absLatDec)));
-    const altitudeDeg = radToDeg(altitudeRad);
+    return solveEvent(localNoonUTC, options, ({ declination, equationOfTime }) => {
+        const decRad = degToRad(declination);
+        const absLatDec = Math.abs(latRad - decRad);
 
-    const hourAngle = getHourAngle(altitudeDeg, declination, lat);
-    if (isNaN(hourAngle)) return null;
+        // Altitude of sun at Asr matching the shadow criteria
+        // a = atan(1 / (shadowFactor + tan(|Lat - Dec|)))
+        const altitudeRad = Math.atan(1.0 / (shadowFactor + Math.tan(absLatDec)));
+        const altitudeDeg = radToDeg(altitudeRad);
 
-    // Asr is always afternoon (sunset side)
-    const longitudeCorrection = lon * 4.0 - tzOffset;
-    const offsetMinutes = hourAngle * 4.0 - longitudeCorrection - equationOfTime;
+        const hourAngle = getHourAngle(altitudeDeg, declination, lat);
+        if (isNaN(hourAngle)) return null;
 
-    return new Date(localNoonUTC.getTime() + offsetMinutes * 60000);
+        // Asr is always afternoon (sunset side)
+        return hourAngle * 4.0 - longitudeCorrection - equationOfTime;
+    });
 }
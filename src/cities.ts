@@ -0,0 +1,210 @@
+import { rankCities } from './gazetteer';
+import type { GazetteerCity, CitySearchOptions, CitySearchMatch } from './gazetteer';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bundled offline city gazetteer.
+//
+// Major cities worldwide, weighted towards the Muslim world, with coordinates
+// and IANA zones after GeoNames. Populations are rounded and serve only to rank
+// otherwise equal matches (Hyderabad, India before Hyderabad, Pakistan). The
+// list is a plain constant: bundlers drop it unless `CITY_GAZETTEER` or
+// `searchCities`, which defaults to it, is used.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CITY_GAZETTEER: readonly GazetteerCity[] = [
+    { name: 'Mecca', alternateNames: ['Makkah', 'Makkah al-Mukarramah'], arabicName: 'مكة المكرمة', country: 'Saudi Arabia', countryCode: 'SA', admin1: 'Makkah Region', latitude: 21.42664, longitude: 39.82563, timeZone: 'Asia/Riyadh', population: 2_000_000 },
+    { name: 'Medina', alternateNames: ['Madinah', 'Al Madinah al Munawwarah'], arabicName: 'المدينة المنورة', country: 'Saudi Arabia', countryCode: 'SA', admin1: 'Medina Region', latitude: 24.46861, longitude: 39.61417, timeZone: 'Asia/Riyadh', population: 1_300_000 },
+    { name: 'Riyadh', alternateNames: ['Ar Riyad'], arabicName: 'الرياض', country: 'Saudi Arabia', countryCode: 'SA', admin1: 'Riyadh Region', latitude: 24.68773, longitude: 46.72185, timeZone: 'Asia/Riyadh', population: 7_000_000 },
+    { name: 'Jeddah', alternateNames: ['Jiddah', 'Jedda'], arabicName: 'جدة', country: 'Saudi Arabia', countryCode: 'SA', admin1: 'Makkah Region', latitude: 21.54238, longitude: 39.19797, timeZone: 'Asia/Riyadh', population: 3_976_000 },
+    { name: 'Dammam', alternateNames: ['Ad Dammam'], arabicName: 'الدمام', country: 'Saudi Arabia', countryCode: 'SA', admin1: 'Eastern Province', latitude: 26.43442, longitude: 50.10326, timeZone: 'Asia/Riyadh', population: 1_250_000 },
+    { name: 'Dubai', alternateNames: ['Dubayy'], arabicName: 'دبي', country: 'United Arab Emirates', countryCode: 'AE', admin1: 'Dubai', latitude: 25.2048, longitude: 55.2708, timeZone: 'Asia/Dubai', population: 3_500_000 },
+    { name: 'Abu Dhabi', alternateNames: ['Abu Zabi'], arabicName: 'أبو ظبي', country: 'United Arab Emirates', countryCode: 'AE', admin1: 'Abu Dhabi', latitude: 24.45118, longitude: 54.39696, timeZone: 'Asia/Dubai', population: 1_500_000 },
+    { name: 'Sharjah', alternateNames: ['Ash Shariqah'], arabicName: 'الشارقة', country: 'United Arab Emirates', countryCode: 'AE', admin1: 'Sharjah', latitude: 25.33737, longitude: 55.41206, timeZone: 'Asia/Dubai', population: 1_400_000 },
+    { name: 'Doha', alternateNames: ['Ad Dawhah'], arabicName: 'الدوحة', country: 'Qatar', countryCode: 'QA', admin1: 'Baladiyat ad Dawhah', latitude: 25.28545, longitude: 51.53096, timeZone: 'Asia/Qatar', population: 1_200_000 },
+    { name: 'Manama', alternateNames: ['Al Manamah'], arabicName: 'المنامة', country: 'Bahrain', countryCode: 'BH', admin1: 'Capital Governorate', latitude: 26.22787, longitude: 50.58565, timeZone: 'Asia/Bahrain', population: 600_000 },
+    { name: 'Kuwait City', alternateNames: ['Kuwait', 'Al Kuwayt'], arabicName: 'مدينة الكويت', country: 'Kuwait', countryCode: 'KW', admin1: 'Al Asimah', latitude: 29.36972, longitude: 47.97833, timeZone: 'Asia/Kuwait', population: 3_000_000 },
+    { name: 'Muscat', alternateNames: ['Masqat'], arabicName: 'مسقط', country: 'Oman', countryCode: 'OM', admin1: 'Muscat', latitude: 23.58413, longitude: 58.40778, timeZone: 'Asia/Muscat', population: 1_500_000 },
+    { name: 'Sanaa', alternateNames: ['Sana\'a', 'San\'a'], arabicName: 'صنعاء', country: 'Yemen', countryCode: 'YE', admin1: 'Amanat al Asimah', latitude: 15.35472, longitude: 44.20667, timeZone: 'Asia/Aden', population: 2_500_000 },
+    { name: 'Aden', alternateNames: [], arabicName: 'عدن', country: 'Yemen', countryCode: 'YE', admin1: 'Aden', latitude: 12.77944, longitude: 45.03667, timeZone: 'Asia/Aden', population: 1_000_000 },
+    { name: 'Amman', alternateNames: ['Ammann'], arabicName: 'عمان', country: 'Jordan', countryCode: 'JO', admin1: 'Amman', latitude: 31.95522, longitude: 35.94503, timeZone: 'Asia/Amman', population: 4_000_000 },
+    { name: 'Gaza', alternateNames: ['Gaza City', 'Ghazzah'], arabicName: 'غزة', country: 'Palestine', countryCode: 'PS', admin1: 'Gaza Strip', latitude: 31.50161, longitude: 34.46672, timeZone: 'Asia/Gaza', population: 600_000 },
+    { name: 'Beirut', alternateNames: ['Beyrouth'], arabicName: 'بيروت', country: 'Lebanon', countryCode: 'LB', admin1: 'Beirut', latitude: 33.89332, longitude: 35.50157, timeZone: 'Asia/Beirut', population: 2_400_000 },
+    { name: 'Damascus', alternateNames: ['Dimashq', 'Sham'], arabicName: 'دمشق', country: 'Syria', countryCode: 'SY', admin1: 'Damascus', latitude: 33.5102, longitude: 36.29128, timeZone: 'Asia/Damascus', population: 2_500_000 },
+    { name: 'Aleppo', alternateNames: ['Halab'], arabicName: 'حلب', country: 'Syria', countryCode: 'SY', admin1: 'Aleppo', latitude: 36.20124, longitude: 37.16117, timeZone: 'Asia/Damascus', population: 2_000_000 },
+    { name: 'Baghdad', alternateNames: [], arabicName: 'بغداد', country: 'Iraq', countryCode: 'IQ', admin1: 'Baghdad', latitude: 33.34058, longitude: 44.40088, timeZone: 'Asia/Baghdad', population: 7_600_000 },
+    { name: 'Basra', alternateNames: ['Al Basrah'], arabicName: 'البصرة', country: 'Iraq', countryCode: 'IQ', admin1: 'Basra', latitude: 30.50852, longitude: 47.7804, timeZone: 'Asia/Baghdad', population: 1_400_000 },
+    { name: 'Mosul', alternateNames: ['Al Mawsil'], arabicName: 'الموصل', country: 'Iraq', countryCode: 'IQ', admin1: 'Nineveh', latitude: 36.335, longitude: 43.11889, timeZone: 'Asia/Baghdad', population: 1_700_000 },
+    { name: 'Erbil', alternateNames: ['Arbil', 'Hawler'], arabicName: 'أربيل', country: 'Iraq', countryCode: 'IQ', admin1: 'Erbil', latitude: 36.19257, longitude: 44.01062, timeZone: 'Asia/Baghdad', population: 1_000_000 },
+    { name: 'Tehran', alternateNames: ['Teheran'], arabicName: 'طهران', country: 'Iran', countryCode: 'IR', admin1: 'Tehran', latitude: 35.69439, longitude: 51.42151, timeZone: 'Asia/Tehran', population: 9_000_000 },
+    { name: 'Mashhad', alternateNames: ['Meshed'], arabicName: 'مشهد', country: 'Iran', countryCode: 'IR', admin1: 'Razavi Khorasan', latitude: 36.29807, longitude: 59.60567, timeZone: 'Asia/Tehran', population: 3_000_000 },
+    { name: 'Isfahan', alternateNames: ['Esfahan'], arabicName: 'أصفهان', country: 'Iran', countryCode: 'IR', admin1: 'Isfahan', latitude: 32.65246, longitude: 51.67462, timeZone: 'Asia/Tehran', population: 2_000_000 },
+    { name: 'Istanbul', alternateNames: ['Constantinople', 'Stamboul'], arabicName: 'إسطنبول', country: 'Turkey', countryCode: 'TR', admin1: 'Istanbul', latitude: 41.01384, longitude: 28.94966, timeZone: 'Europe/Istanbul', population: 15_500_000 },
+    { name: 'Ankara', alternateNames: ['Angora'], arabicName: 'أنقرة', country: 'Turkey', countryCode: 'TR', admin1: 'Ankara', latitude: 39.91987, longitude: 32.85427, timeZone: 'Europe/Istanbul', population: 5_600_000 },
+    { name: 'Izmir', alternateNames: ['Smyrna'], arabicName: 'إزمير', country: 'Turkey', countryCode: 'TR', admin1: 'Izmir', latitude: 38.41273, longitude: 27.13838, timeZone: 'Europe/Istanbul', population: 3_000_000 },
+    { name: 'Bursa', alternateNames: ['Brusa'], arabicName: 'بورصة', country: 'Turkey', countryCode: 'TR', admin1: 'Bursa', latitude: 40.19559, longitude: 29.06013, timeZone: 'Europe/Istanbul', population: 2_000_000 },
+    { name: 'Konya', alternateNames: ['Iconium'], arabicName: 'قونية', country: 'Turkey', countryCode: 'TR', admin1: 'Konya', latitude: 37.87135, longitude: 32.48464, timeZone: 'Europe/Istanbul', population: 1_300_000 },
+    { name: 'Cairo', alternateNames: ['Al Qahirah'], arabicName: 'القاهرة', country: 'Egypt', countryCode: 'EG', admin1: 'Cairo', latitude: 30.06263, longitude: 31.24967, timeZone: 'Africa/Cairo', population: 20_000_000 },
+    { name: 'Alexandria', alternateNames: ['Al Iskandariyah'], arabicName: 'الإسكندرية', country: 'Egypt', countryCode: 'EG', admin1: 'Alexandria', latitude: 31.20176, longitude: 29.91582, timeZone: 'Africa/Cairo', population: 5_200_000 },
+    { name: 'Giza', alternateNames: ['Al Jizah'], arabicName: 'الجيزة', country: 'Egypt', countryCode: 'EG', admin1: 'Giza', latitude: 30.00808, longitude: 31.21093, timeZone: 'Africa/Cairo', population: 4_000_000 },
+    { name: 'Tripoli', alternateNames: ['Tarabulus'], arabicName: 'طرابلس', country: 'Libya', countryCode: 'LY', admin1: 'Tripoli', latitude: 32.88743, longitude: 13.18733, timeZone: 'Africa/Tripoli', population: 1_100_000 },
+    { name: 'Benghazi', alternateNames: ['Banghazi'], arabicName: 'بنغازي', country: 'Libya', countryCode: 'LY', admin1: 'Benghazi', latitude: 32.11486, longitude: 20.06859, timeZone: 'Africa/Tripoli', population: 800_000 },
+    { name: 'Tunis', alternateNames: [], arabicName: 'تونس', country: 'Tunisia', countryCode: 'TN', admin1: 'Tunis', latitude: 36.81897, longitude: 10.16579, timeZone: 'Africa/Tunis', population: 2_300_000 },
+    { name: 'Algiers', alternateNames: ['Alger', 'El Djazair'], arabicName: 'الجزائر', country: 'Algeria', countryCode: 'DZ', admin1: 'Algiers', latitude: 36.73225, longitude: 3.08746, timeZone: 'Africa/Algiers', population: 3_400_000 },
+    { name: 'Oran', alternateNames: ['Wahran'], arabicName: 'وهران', country: 'Algeria', countryCode: 'DZ', admin1: 'Oran', latitude: 35.69906, longitude: -0.63588, timeZone: 'Africa/Algiers', population: 1_500_000 },
+    { name: 'Constantine', alternateNames: ['Qacentina'], arabicName: 'قسنطينة', country: 'Algeria', countryCode: 'DZ', admin1: 'Constantine', latitude: 36.365, longitude: 6.61472, timeZone: 'Africa/Algiers', population: 450_000 },
+    { name: 'Casablanca', alternateNames: ['Dar el Beida'], arabicName: 'الدار البيضاء', country: 'Morocco', countryCode: 'MA', admin1: 'Casablanca-Settat', latitude: 33.58831, longitude: -7.61138, timeZone: 'Africa/Casablanca', population: 3_700_000 },
+    { name: 'Rabat', alternateNames: [], arabicName: 'الرباط', country: 'Morocco', countryCode: 'MA', admin1: 'Rabat-Salé-Kénitra', latitude: 34.01325, longitude: -6.83255, timeZone: 'Africa/Casablanca', population: 1_900_000 },
+    { name: 'Marrakesh', alternateNames: ['Marrakech'], arabicName: 'مراكش', country: 'Morocco', countryCode: 'MA', admin1: 'Marrakesh-Safi', latitude: 31.63416, longitude: -7.99994, timeZone: 'Africa/Casablanca', population: 1_000_000 },
+    { name: 'Fez', alternateNames: ['Fes', 'Fès'], arabicName: 'فاس', country: 'Morocco', countryCode: 'MA', admin1: 'Fès-Meknès', latitude: 34.03313, longitude: -5.00028, timeZone: 'Africa/Casablanca', population: 1_200_000 },
+    { name: 'Tangier', alternateNames: ['Tanger', 'Tangiers'], arabicName: 'طنجة', country: 'Morocco', countryCode: 'MA', admin1: 'Tanger-Tetouan-Al Hoceima', latitude: 35.76727, longitude: -5.79975, timeZone: 'Africa/Casablanca', population: 1_000_000 },
+    { name: 'Khartoum', alternateNames: ['Al Khartum'], arabicName: 'الخرطوم', country: 'Sudan', countryCode: 'SD', admin1: 'Khartoum', latitude: 15.55177, longitude: 32.53241, timeZone: 'Africa/Khartoum', population: 5_800_000 },
+    { name: 'Mogadishu', alternateNames: ['Muqdisho', 'Xamar'], arabicName: 'مقديشو', country: 'Somalia', countryCode: 'SO', admin1: 'Banaadir', latitude: 2.03711, longitude: 45.34375, timeZone: 'Africa/Mogadishu', population: 2_400_000 },
+    { name: 'Djibouti', alternateNames: ['Djibouti City'], arabicName: 'جيبوتي', country: 'Djibouti', countryCode: 'DJ', admin1: 'Djibouti', latitude: 11.58901, longitude: 43.14503, timeZone: 'Africa/Djibouti', population: 600_000 },
+    { name: 'Nouakchott', alternateNames: [], arabicName: 'نواكشوط', country: 'Mauritania', countryCode: 'MR', admin1: 'Nouakchott', latitude: 18.08581, longitude: -15.9785, timeZone: 'Africa/Nouakchott', population: 1_300_000 },
+    { name: 'Dakar', alternateNames: [], arabicName: 'داكار', country: 'Senegal', countryCode: 'SN', admin1: 'Dakar', latitude: 14.6937, longitude: -17.44406, timeZone: 'Africa/Dakar', population: 3_100_000 },
+    { name: 'Bamako', alternateNames: [], arabicName: 'باماكو', country: 'Mali', countryCode: 'ML', admin1: 'Bamako', latitude: 12.65, longitude: -8, timeZone: 'Africa/Bamako', population: 2_800_000 },
+    { name: 'Niamey', alternateNames: [], arabicName: 'نيامي', country: 'Niger', countryCode: 'NE', admin1: 'Niamey', latitude: 13.51366, longitude: 2.1098, timeZone: 'Africa/Niamey', population: 1_300_000 },
+    { name: 'N\'Djamena', alternateNames: ['Ndjamena', 'Fort-Lamy'], arabicName: 'نجامينا', country: 'Chad', countryCode: 'TD', admin1: 'N\'Djamena', latitude: 12.10672, longitude: 15.0444, timeZone: 'Africa/Ndjamena', population: 1_500_000 },
+    { name: 'Conakry', alternateNames: [], arabicName: 'كوناكري', country: 'Guinea', countryCode: 'GN', admin1: 'Conakry', latitude: 9.53795, longitude: -13.67729, timeZone: 'Africa/Conakry', population: 2_000_000 },
+    { name: 'Accra', alternateNames: [], arabicName: 'أكرا', country: 'Ghana', countryCode: 'GH', admin1: 'Greater Accra', latitude: 5.55602, longitude: -0.1969, timeZone: 'Africa/Accra', population: 2_500_000 },
+    { name: 'Lagos', alternateNames: [], arabicName: 'لاغوس', country: 'Nigeria', countryCode: 'NG', admin1: 'Lagos', latitude: 6.45407, longitude: 3.39467, timeZone: 'Africa/Lagos', population: 15_000_000 },
+    { name: 'Kano', alternateNames: [], arabicName: 'كانو', country: 'Nigeria', countryCode: 'NG', admin1: 'Kano', latitude: 12.00012, longitude: 8.51672, timeZone: 'Africa/Lagos', population: 4_000_000 },
+    { name: 'Abuja', alternateNames: [], arabicName: 'أبوجا', country: 'Nigeria', countryCode: 'NG', admin1: 'Federal Capital Territory', latitude: 9.05785, longitude: 7.49508, timeZone: 'Africa/Lagos', population: 3_600_000 },
+    { name: 'Addis Ababa', alternateNames: ['Addis Abeba', 'Finfinne'], arabicName: 'أديس أبابا', country: 'Ethiopia', countryCode: 'ET', admin1: 'Addis Ababa', latitude: 9.02497, longitude: 38.74689, timeZone: 'Africa/Addis_Ababa', population: 5_000_000 },
+    { name: 'Nairobi', alternateNames: [], arabicName: 'نيروبي', country: 'Kenya', countryCode: 'KE', admin1: 'Nairobi', latitude: -1.28333, longitude: 36.81667, timeZone: 'Africa/Nairobi', population: 4_400_000 },
+    { name: 'Mombasa', alternateNames: [], arabicName: 'ممباسا', country: 'Kenya', countryCode: 'KE', admin1: 'Mombasa', latitude: -4.05466, longitude: 39.66359, timeZone: 'Africa/Nairobi', population: 1_200_000 },
+    { name: 'Dar es Salaam', alternateNames: ['Dar-es-Salaam'], arabicName: 'دار السلام', country: 'Tanzania', countryCode: 'TZ', admin1: 'Dar es Salaam', latitude: -6.82349, longitude: 39.26951, timeZone: 'Africa/Dar_es_Salaam', population: 7_000_000 },
+    { name: 'Zanzibar', alternateNames: ['Zanzibar City', 'Stone Town'], arabicName: 'زنجبار', country: 'Tanzania', countryCode: 'TZ', admin1: 'Zanzibar Urban/West', latitude: -6.16394, longitude: 39.19793, timeZone: 'Africa/Dar_es_Salaam', population: 700_000 },
+    { name: 'Johannesburg', alternateNames: ['Joburg', 'Jozi'], arabicName: 'جوهانسبرغ', country: 'South Africa', countryCode: 'ZA', admin1: 'Gauteng', latitude: -26.20227, longitude: 28.04363, timeZone: 'Africa/Johannesburg', population: 6_000_000 },
+    { name: 'Cape Town', alternateNames: ['Kaapstad'], arabicName: 'كيب تاون', country: 'South Africa', countryCode: 'ZA', admin1: 'Western Cape', latitude: -33.92584, longitude: 18.42322, timeZone: 'Africa/Johannesburg', population: 4_700_000 },
+    { name: 'Karachi', alternateNames: [], arabicName: 'كراتشي', country: 'Pakistan', countryCode: 'PK', admin1: 'Sindh', latitude: 24.8608, longitude: 67.0104, timeZone: 'Asia/Karachi', population: 16_000_000 },
+    { name: 'Lahore', alternateNames: [], arabicName: 'لاهور', country: 'Pakistan', countryCode: 'PK', admin1: 'Punjab', latitude: 31.558, longitude: 74.35071, timeZone: 'Asia/Karachi', population: 13_000_000 },
+    { name: 'Islamabad', alternateNames: [], arabicName: 'إسلام آباد', country: 'Pakistan', countryCode: 'PK', admin1: 'Islamabad Capital Territory', latitude: 33.72148, longitude: 73.04329, timeZone: 'Asia/Karachi', population: 1_200_000 },
+    { name: 'Rawalpindi', alternateNames: [], arabicName: 'راولبندي', country: 'Pakistan', countryCode: 'PK', admin1: 'Punjab', latitude: 33.59733, longitude: 73.0479, timeZone: 'Asia/Karachi', population: 2_100_000 },
+    { name: 'Faisalabad', alternateNames: ['Lyallpur'], arabicName: 'فيصل آباد', country: 'Pakistan', countryCode: 'PK', admin1: 'Punjab', latitude: 31.41554, longitude: 73.08969, timeZone: 'Asia/Karachi', population: 3_200_000 },
+    { name: 'Multan', alternateNames: [], arabicName: 'ملتان', country: 'Pakistan', countryCode: 'PK', admin1: 'Punjab', latitude: 30.19679, longitude: 71.47824, timeZone: 'Asia/Karachi', population: 1_900_000 },
+    { name: 'Peshawar', alternateNames: [], arabicName: 'بيشاور', country: 'Pakistan', countryCode: 'PK', admin1: 'Khyber Pakhtunkhwa', latitude: 34.008, longitude: 71.57849, timeZone: 'Asia/Karachi', population: 2_000_000 },
+    { name: 'Quetta', alternateNames: [], arabicName: 'كويتا', country: 'Pakistan', countryCode: 'PK', admin1: 'Balochistan', latitude: 30.18414, longitude: 67.00141, timeZone: 'Asia/Karachi', population: 1_000_000 },
+    { name: 'Hyderabad', alternateNames: [], arabicName: 'حيدر آباد', country: 'Pakistan', countryCode: 'PK', admin1: 'Sindh', latitude: 25.39242, longitude: 68.37366, timeZone: 'Asia/Karachi', population: 1_700_000 },
+    { name: 'Kabul', alternateNames: [], arabicName: 'كابل', country: 'Afghanistan', countryCode: 'AF', admin1: 'Kabul', latitude: 34.52813, longitude: 69.17233, timeZone: 'Asia/Kabul', population: 4_400_000 },
+    { name: 'Delhi', alternateNames: ['New Delhi'], arabicName: 'دلهي', country: 'India', countryCode: 'IN', admin1: 'Delhi', latitude: 28.65195, longitude: 77.23149, timeZone: 'Asia/Kolkata', population: 32_000_000 },
+    { name: 'Mumbai', alternateNames: ['Bombay'], arabicName: 'مومباي', country: 'India', countryCode: 'IN', admin1: 'Maharashtra', latitude: 19.07283, longitude: 72.88261, timeZone: 'Asia/Kolkata', population: 21_000_000 },
+    { name: 'Hyderabad', alternateNames: [], arabicName: 'حيدر آباد', country: 'India', countryCode: 'IN', admin1: 'Telangana', latitude: 17.38405, longitude: 78.45636, timeZone: 'Asia/Kolkata', population: 10_000_000 },
+    { name: 'Kolkata', alternateNames: ['Calcutta'], arabicName: 'كلكتا', country: 'India', countryCode: 'IN', admin1: 'West Bengal', latitude: 22.56263, longitude: 88.36304, timeZone: 'Asia/Kolkata', population: 15_000_000 },
+    { name: 'Bengaluru', alternateNames: ['Bangalore'], arabicName: 'بنغالور', country: 'India', countryCode: 'IN', admin1: 'Karnataka', latitude: 12.97194, longitude: 77.59369, timeZone: 'Asia/Kolkata', population: 12_000_000 },
+    { name: 'Chennai', alternateNames: ['Madras'], arabicName: 'تشيناي', country: 'India', countryCode: 'IN', admin1: 'Tamil Nadu', latitude: 13.08784, longitude: 80.27847, timeZone: 'Asia/Kolkata', population: 11_000_000 },
+    { name: 'Lucknow', alternateNames: [], arabicName: 'لكناو', country: 'India', countryCode: 'IN', admin1: 'Uttar Pradesh', latitude: 26.83928, longitude: 80.92313, timeZone: 'Asia/Kolkata', population: 3_500_000 },
+    { name: 'Srinagar', alternateNames: [], arabicName: 'سريناغار', country: 'India', countryCode: 'IN', admin1: 'Jammu and Kashmir', latitude: 34.08565, longitude: 74.80555, timeZone: 'Asia/Kolkata', population: 1_300_000 },
+    { name: 'Dhaka', alternateNames: ['Dacca'], arabicName: 'دكا', country: 'Bangladesh', countryCode: 'BD', admin1: 'Dhaka Division', latitude: 23.7104, longitude: 90.40744, timeZone: 'Asia/Dhaka', population: 22_000_000 },
+    { name: 'Chittagong', alternateNames: ['Chattogram'], arabicName: 'شيتاغونغ', country: 'Bangladesh', countryCode: 'BD', admin1: 'Chittagong Division', latitude: 22.3384, longitude: 91.83168, timeZone: 'Asia/Dhaka', population: 5_000_000 },
+    { name: 'Colombo', alternateNames: [], arabicName: 'كولومبو', country: 'Sri Lanka', countryCode: 'LK', admin1: 'Western Province', latitude: 6.93194, longitude: 79.84778, timeZone: 'Asia/Colombo', population: 750_000 },
+    { name: 'Malé', alternateNames: ['Male'], arabicName: 'ماليه', country: 'Maldives', countryCode: 'MV', admin1: 'Kaafu', latitude: 4.1748, longitude: 73.50888, timeZone: 'Indian/Maldives', population: 250_000 },
+    { name: 'Jakarta', alternateNames: ['Batavia'], arabicName: 'جاكرتا', country: 'Indonesia', countryCode: 'ID', admin1: 'Jakarta', latitude: -6.21462, longitude: 106.84513, timeZone: 'Asia/Jakarta', population: 11_000_000 },
+    { name: 'Surabaya', alternateNames: ['Soerabaja'], arabicName: 'سورابايا', country: 'Indonesia', countryCode: 'ID', admin1: 'East Java', latitude: -7.24917, longitude: 112.75083, timeZone: 'Asia/Jakarta', population: 3_000_000 },
+    { name: 'Bandung', alternateNames: [], arabicName: 'باندونغ', country: 'Indonesia', countryCode: 'ID', admin1: 'West Java', latitude: -6.90389, longitude: 107.61861, timeZone: 'Asia/Jakarta', population: 2_500_000 },
+    { name: 'Medan', alternateNames: [], arabicName: 'ميدان', country: 'Indonesia', countryCode: 'ID', admin1: 'North Sumatra', latitude: 3.58333, longitude: 98.66667, timeZone: 'Asia/Jakarta', population: 2_500_000 },
+    { name: 'Banda Aceh', alternateNames: ['Kutaradja'], arabicName: 'باندا آتشيه', country: 'Indonesia', countryCode: 'ID', admin1: 'Aceh', latitude: 5.5577, longitude: 95.3222, timeZone: 'Asia/Jakarta', population: 260_000 },
+    { name: 'Yogyakarta', alternateNames: ['Jogja', 'Jogjakarta'], arabicName: 'يوغياكارتا', country: 'Indonesia', countryCode: 'ID', admin1: 'Special Region of Yogyakarta', latitude: -7.80139, longitude: 110.36472, timeZone: 'Asia/Jakarta', population: 400_000 },
+    { name: 'Makassar', alternateNames: ['Ujung Pandang'], arabicName: 'ماكاسار', country: 'Indonesia', countryCode: 'ID', admin1: 'South Sulawesi', latitude: -5.14861, longitude: 119.43194, timeZone: 'Asia/Makassar', population: 1_500_000 },
+    { name: 'Kuala Lumpur', alternateNames: ['KL'], arabicName: 'كوالالمبور', country: 'Malaysia', countryCode: 'MY', admin1: 'Kuala Lumpur', latitude: 3.1412, longitude: 101.68653, timeZone: 'Asia/Kuala_Lumpur', population: 8_000_000 },
+    { name: 'George Town', alternateNames: ['Penang'], arabicName: 'جورج تاون', country: 'Malaysia', countryCode: 'MY', admin1: 'Penang', latitude: 5.41123, longitude: 100.33543, timeZone: 'Asia/Kuala_Lumpur', population: 800_000 },
+    { name: 'Johor Bahru', alternateNames: ['Johor Baharu'], arabicName: 'جوهور بهرو', country: 'Malaysia', countryCode: 'MY', admin1: 'Johor', latitude: 1.4655, longitude: 103.7578, timeZone: 'Asia/Kuala_Lumpur', population: 1_000_000 },
+    { name: 'Singapore', alternateNames: [], arabicName: 'سنغافورة', country: 'Singapore', countryCode: 'SG', latitude: 1.28967, longitude: 103.85007, timeZone: 'Asia/Singapore', population: 5_600_000 },
+    { name: 'Bandar Seri Begawan', alternateNames: [], arabicName: 'بندر سري بكاوان', country: 'Brunei', countryCode: 'BN', admin1: 'Brunei-Muara', latitude: 4.89035, longitude: 114.94006, timeZone: 'Asia/Brunei', population: 100_000 },
+    { name: 'Manila', alternateNames: [], arabicName: 'مانيلا', country: 'Philippines', countryCode: 'PH', admin1: 'Metro Manila', latitude: 14.6042, longitude: 120.9822, timeZone: 'Asia/Manila', population: 13_000_000 },
+    { name: 'Marawi', alternateNames: [], arabicName: 'ماراوي', country: 'Philippines', countryCode: 'PH', admin1: 'Lanao del Sur', latitude: 7.9986, longitude: 124.2928, timeZone: 'Asia/Manila', population: 200_000 },
+    { name: 'Bangkok', alternateNames: ['Krung Thep'], arabicName: 'بانكوك', country: 'Thailand', countryCode: 'TH', admin1: 'Bangkok', latitude: 13.75398, longitude: 100.50144, timeZone: 'Asia/Bangkok', population: 10_000_000 },
+    { name: 'Beijing', alternateNames: ['Peking'], arabicName: 'بكين', country: 'China', countryCode: 'CN', admin1: 'Beijing', latitude: 39.9075, longitude: 116.39723, timeZone: 'Asia/Shanghai', population: 21_000_000 },
+    { name: 'Shanghai', alternateNames: [], arabicName: 'شانغهاي', country: 'China', countryCode: 'CN', admin1: 'Shanghai', latitude: 31.22222, longitude: 121.45806, timeZone: 'Asia/Shanghai', population: 24_000_000 },
+    { name: 'Tokyo', alternateNames: [], arabicName: 'طوكيو', country: 'Japan', countryCode: 'JP', admin1: 'Tokyo', latitude: 35.6895, longitude: 139.69171, timeZone: 'Asia/Tokyo', population: 37_000_000 },
+    { name: 'Seoul', alternateNames: [], arabicName: 'سيول', country: 'South Korea', countryCode: 'KR', admin1: 'Seoul', latitude: 37.566, longitude: 126.9784, timeZone: 'Asia/Seoul', population: 10_000_000 },
+    { name: 'Sydney', alternateNames: [], arabicName: 'سيدني', country: 'Australia', countryCode: 'AU', admin1: 'New South Wales', latitude: -33.86785, longitude: 151.20732, timeZone: 'Australia/Sydney', population: 5_300_000 },
+    { name: 'Melbourne', alternateNames: [], arabicName: 'ملبورن', country: 'Australia', countryCode: 'AU', admin1: 'Victoria', latitude: -37.814, longitude: 144.96332, timeZone: 'Australia/Melbourne', population: 5_000_000 },
+    { name: 'Perth', alternateNames: [], arabicName: 'بيرث', country: 'Australia', countryCode: 'AU', admin1: 'Western Australia', latitude: -31.95224, longitude: 115.8614, timeZone: 'Australia/Perth', population: 2_100_000 },
+    { name: 'Auckland', alternateNames: [], arabicName: 'أوكلاند', country: 'New Zealand', countryCode: 'NZ', admin1: 'Auckland', latitude: -36.84853, longitude: 174.76349, timeZone: 'Pacific/Auckland', population: 1_700_000 },
+    { name: 'Tashkent', alternateNames: ['Toshkent'], arabicName: 'طشقند', country: 'Uzbekistan', countryCode: 'UZ', admin1: 'Tashkent', latitude: 41.26465, longitude: 69.21627, timeZone: 'Asia/Tashkent', population: 2_900_000 },
+    { name: 'Samarkand', alternateNames: ['Samarqand'], arabicName: 'سمرقند', country: 'Uzbekistan', countryCode: 'UZ', admin1: 'Samarqand', latitude: 39.65417, longitude: 66.95972, timeZone: 'Asia/Samarkand', population: 550_000 },
+    { name: 'Bukhara', alternateNames: ['Buxoro'], arabicName: 'بخارى', country: 'Uzbekistan', countryCode: 'UZ', admin1: 'Bukhara', latitude: 39.77472, longitude: 64.42861, timeZone: 'Asia/Samarkand', population: 280_000 },
+    { name: 'Almaty', alternateNames: ['Alma-Ata'], arabicName: 'ألماتي', country: 'Kazakhstan', countryCode: 'KZ', admin1: 'Almaty', latitude: 43.25667, longitude: 76.92861, timeZone: 'Asia/Almaty', population: 2_000_000 },
+    { name: 'Astana', alternateNames: ['Nur-Sultan', 'Akmola'], arabicName: 'أستانا', country: 'Kazakhstan', countryCode: 'KZ', admin1: 'Astana', latitude: 51.1801, longitude: 71.44598, timeZone: 'Asia/Almaty', population: 1_300_000 },
+    { name: 'Bishkek', alternateNames: ['Frunze'], arabicName: 'بيشكيك', country: 'Kyrgyzstan', countryCode: 'KG', admin1: 'Bishkek', latitude: 42.87, longitude: 74.59, timeZone: 'Asia/Bishkek', population: 1_100_000 },
+    { name: 'Dushanbe', alternateNames: [], arabicName: 'دوشنبه', country: 'Tajikistan', countryCode: 'TJ', admin1: 'Dushanbe', latitude: 38.53575, longitude: 68.77905, timeZone: 'Asia/Dushanbe', population: 900_000 },
+    { name: 'Ashgabat', alternateNames: ['Ashkhabad'], arabicName: 'عشق آباد', country: 'Turkmenistan', countryCode: 'TM', admin1: 'Ashgabat', latitude: 37.95, longitude: 58.38333, timeZone: 'Asia/Ashgabat', population: 1_000_000 },
+    { name: 'Baku', alternateNames: ['Baki'], arabicName: 'باكو', country: 'Azerbaijan', countryCode: 'AZ', admin1: 'Baku', latitude: 40.37767, longitude: 49.89201, timeZone: 'Asia/Baku', population: 2_300_000 },
+    { name: 'Moscow', alternateNames: ['Moskva'], arabicName: 'موسكو', country: 'Russia', countryCode: 'RU', admin1: 'Moscow', latitude: 55.75222, longitude: 37.61556, timeZone: 'Europe/Moscow', population: 12_600_000 },
+    { name: 'Kazan', alternateNames: [], arabicName: 'قازان', country: 'Russia', countryCode: 'RU', admin1: 'Tatarstan', latitude: 55.78874, longitude: 49.12214, timeZone: 'Europe/Moscow', population: 1_300_000 },
+    { name: 'Grozny', alternateNames: [], arabicName: 'غروزني', country: 'Russia', countryCode: 'RU', admin1: 'Chechnya', latitude: 43.31195, longitude: 45.68895, timeZone: 'Europe/Moscow', population: 300_000 },
+    { name: 'Makhachkala', alternateNames: [], arabicName: 'محج قلعة', country: 'Russia', countryCode: 'RU', admin1: 'Dagestan', latitude: 42.97638, longitude: 47.50236, timeZone: 'Europe/Moscow', population: 600_000 },
+    { name: 'London', alternateNames: [], arabicName: 'لندن', country: 'United Kingdom', countryCode: 'GB', admin1: 'England', latitude: 51.50853, longitude: -0.12574, timeZone: 'Europe/London', population: 9_000_000 },
+    { name: 'Birmingham', alternateNames: [], arabicName: 'برمنغهام', country: 'United Kingdom', countryCode: 'GB', admin1: 'England', latitude: 52.48142, longitude: -1.89983, timeZone: 'Europe/London', population: 1_150_000 },
+    { name: 'Manchester', alternateNames: [], arabicName: 'مانشستر', country: 'United Kingdom', countryCode: 'GB', admin1: 'England', latitude: 53.48095, longitude: -2.23743, timeZone: 'Europe/London', population: 550_000 },
+    { name: 'Bradford', alternateNames: [], arabicName: 'برادفورد', country: 'United Kingdom', countryCode: 'GB', admin1: 'England', latitude: 53.79391, longitude: -1.75206, timeZone: 'Europe/London', population: 350_000 },
+    { name: 'Glasgow', alternateNames: [], arabicName: 'غلاسكو', country: 'United Kingdom', countryCode: 'GB', admin1: 'Scotland', latitude: 55.86515, longitude: -4.25763, timeZone: 'Europe/London', population: 630_000 },
+    { name: 'Dublin', alternateNames: ['Baile Átha Cliath'], arabicName: 'دبلن', country: 'Ireland', countryCode: 'IE', admin1: 'Leinster', latitude: 53.33306, longitude: -6.24889, timeZone: 'Europe/Dublin', population: 1_400_000 },
+    { name: 'Paris', alternateNames: [], arabicName: 'باريس', country: 'France', countryCode: 'FR', admin1: 'Île-de-France', latitude: 48.85341, longitude: 2.3488, timeZone: 'Europe/Paris', population: 11_000_000 },
+    { name: 'Marseille', alternateNames: ['Marseilles'], arabicName: 'مرسيليا', country: 'France', countryCode: 'FR', admin1: 'Provence-Alpes-Côte d\'Azur', latitude: 43.29695, longitude: 5.38107, timeZone: 'Europe/Paris', population: 870_000 },
+    { name: 'Lyon', alternateNames: ['Lyons'], arabicName: 'ليون', country: 'France', countryCode: 'FR', admin1: 'Auvergne-Rhône-Alpes', latitude: 45.74846, longitude: 4.84671, timeZone: 'Europe/Paris', population: 520_000 },
+    { name: 'Brussels', alternateNames: ['Bruxelles', 'Brussel'], arabicName: 'بروكسل', country: 'Belgium', countryCode: 'BE', admin1: 'Brussels Capital', latitude: 50.85045, longitude: 4.34878, timeZone: 'Europe/Brussels', population: 1_200_000 },
+    { name: 'Amsterdam', alternateNames: [], arabicName: 'أمستردام', country: 'Netherlands', countryCode: 'NL', admin1: 'North Holland', latitude: 52.37403, longitude: 4.88969, timeZone: 'Europe/Amsterdam', population: 900_000 },
+    { name: 'Rotterdam', alternateNames: [], arabicName: 'روتردام', country: 'Netherlands', countryCode: 'NL', admin1: 'South Holland', latitude: 51.9225, longitude: 4.47917, timeZone: 'Europe/Amsterdam', population: 650_000 },
+    { name: 'Berlin', alternateNames: [], arabicName: 'برلين', country: 'Germany', countryCode: 'DE', admin1: 'Berlin', latitude: 52.52437, longitude: 13.41053, timeZone: 'Europe/Berlin', population: 3_700_000 },
+    { name: 'Hamburg', alternateNames: [], arabicName: 'هامبورغ', country: 'Germany', countryCode: 'DE', admin1: 'Hamburg', latitude: 53.55073, longitude: 9.99302, timeZone: 'Europe/Berlin', population: 1_800_000 },
+    { name: 'Munich', alternateNames: ['München'], arabicName: 'ميونخ', country: 'Germany', countryCode: 'DE', admin1: 'Bavaria', latitude: 48.13743, longitude: 11.57549, timeZone: 'Europe/Berlin', population: 1_500_000 },
+    { name: 'Cologne', alternateNames: ['Köln'], arabicName: 'كولونيا', country: 'Germany', countryCode: 'DE', admin1: 'North Rhine-Westphalia', latitude: 50.93333, longitude: 6.95, timeZone: 'Europe/Berlin', population: 1_000_000 },
+    { name: 'Frankfurt', alternateNames: ['Frankfurt am Main'], arabicName: 'فرانكفورت', country: 'Germany', countryCode: 'DE', admin1: 'Hesse', latitude: 50.11552, longitude: 8.68417, timeZone: 'Europe/Berlin', population: 750_000 },
+    { name: 'Vienna', alternateNames: ['Wien'], arabicName: 'فيينا', country: 'Austria', countryCode: 'AT', admin1: 'Vienna', latitude: 48.20849, longitude: 16.37208, timeZone: 'Europe/Vienna', population: 1_900_000 },
+    { name: 'Zurich', alternateNames: ['Zürich'], arabicName: 'زيورخ', country: 'Switzerland', countryCode: 'CH', admin1: 'Zurich', latitude: 47.36667, longitude: 8.55, timeZone: 'Europe/Zurich', population: 1_400_000 },
+    { name: 'Geneva', alternateNames: ['Genève', 'Genf'], arabicName: 'جنيف', country: 'Switzerland', countryCode: 'CH', admin1: 'Geneva', latitude: 46.20222, longitude: 6.14569, timeZone: 'Europe/Zurich', population: 600_000 },
+    { name: 'Madrid', alternateNames: [], arabicName: 'مدريد', country: 'Spain', countryCode: 'ES', admin1: 'Madrid', latitude: 40.4165, longitude: -3.70256, timeZone: 'Europe/Madrid', population: 6_700_000 },
+    { name: 'Barcelona', alternateNames: [], arabicName: 'برشلونة', country: 'Spain', countryCode: 'ES', admin1: 'Catalonia', latitude: 41.38879, longitude: 2.15899, timeZone: 'Europe/Madrid', population: 5_600_000 },
+    { name: 'Córdoba', alternateNames: ['Cordoba', 'Qurtuba'], arabicName: 'قرطبة', country: 'Spain', countryCode: 'ES', admin1: 'Andalusia', latitude: 37.89155, longitude: -4.77275, timeZone: 'Europe/Madrid', population: 320_000 },
+    { name: 'Granada', alternateNames: ['Gharnata'], arabicName: 'غرناطة', country: 'Spain', countryCode: 'ES', admin1: 'Andalusia', latitude: 37.18817, longitude: -3.60667, timeZone: 'Europe/Madrid', population: 230_000 },
+    { name: 'Lisbon', alternateNames: ['Lisboa'], arabicName: 'لشبونة', country: 'Portugal', countryCode: 'PT', admin1: 'Lisbon', latitude: 38.71667, longitude: -9.13333, timeZone: 'Europe/Lisbon', population: 2_900_000 },
+    { name: 'Rome', alternateNames: ['Roma'], arabicName: 'روما', country: 'Italy', countryCode: 'IT', admin1: 'Lazio', latitude: 41.89193, longitude: 12.51133, timeZone: 'Europe/Rome', population: 4_300_000 },
+    { name: 'Milan', alternateNames: ['Milano'], arabicName: 'ميلانو', country: 'Italy', countryCode: 'IT', admin1: 'Lombardy', latitude: 45.46427, longitude: 9.18951, timeZone: 'Europe/Rome', population: 3_100_000 },
+    { name: 'Athens', alternateNames: ['Athina'], arabicName: 'أثينا', country: 'Greece', countryCode: 'GR', admin1: 'Attica', latitude: 37.98376, longitude: 23.72784, timeZone: 'Europe/Athens', population: 3_100_000 },
+    { name: 'Sarajevo', alternateNames: [], arabicName: 'سراييفو', country: 'Bosnia and Herzegovina', countryCode: 'BA', admin1: 'Federation of Bosnia and Herzegovina', latitude: 43.84864, longitude: 18.35644, timeZone: 'Europe/Sarajevo', population: 400_000 },
+    { name: 'Tirana', alternateNames: ['Tiranë'], arabicName: 'تيرانا', country: 'Albania', countryCode: 'AL', admin1: 'Tirana', latitude: 41.3275, longitude: 19.81889, timeZone: 'Europe/Tirane', population: 500_000 },
+    { name: 'Pristina', alternateNames: ['Prishtina', 'Prishtinë'], arabicName: 'بريشتينا', country: 'Kosovo', countryCode: 'XK', admin1: 'Pristina', latitude: 42.67272, longitude: 21.16688, timeZone: 'Europe/Belgrade', population: 200_000 },
+    { name: 'Warsaw', alternateNames: ['Warszawa'], arabicName: 'وارسو', country: 'Poland', countryCode: 'PL', admin1: 'Masovia', latitude: 52.22977, longitude: 21.01178, timeZone: 'Europe/Warsaw', population: 1_800_000 },
+    { name: 'Copenhagen', alternateNames: ['København'], arabicName: 'كوبنهاغن', country: 'Denmark', countryCode: 'DK', admin1: 'Capital Region', latitude: 55.67594, longitude: 12.56553, timeZone: 'Europe/Copenhagen', population: 1_300_000 },
+    { name: 'Oslo', alternateNames: [], arabicName: 'أوسلو', country: 'Norway', countryCode: 'NO', admin1: 'Oslo', latitude: 59.91273, longitude: 10.74609, timeZone: 'Europe/Oslo', population: 1_000_000 },
+    { name: 'Tromsø', alternateNames: ['Tromso'], arabicName: 'ترومسو', country: 'Norway', countryCode: 'NO', admin1: 'Troms', latitude: 69.6489, longitude: 18.95508, timeZone: 'Europe/Oslo', population: 77_000 },
+    { name: 'Stockholm', alternateNames: [], arabicName: 'ستوكهولم', country: 'Sweden', countryCode: 'SE', admin1: 'Stockholm', latitude: 59.32938, longitude: 18.06871, timeZone: 'Europe/Stockholm', population: 1_600_000 },
+    { name: 'Helsinki', alternateNames: ['Helsingfors'], arabicName: 'هلسنكي', country: 'Finland', countryCode: 'FI', admin1: 'Uusimaa', latitude: 60.16952, longitude: 24.93545, timeZone: 'Europe/Helsinki', population: 1_300_000 },
+    { name: 'Reykjavík', alternateNames: ['Reykjavik'], arabicName: 'ريكيافيك', country: 'Iceland', countryCode: 'IS', admin1: 'Capital Region', latitude: 64.13548, longitude: -21.89541, timeZone: 'Atlantic/Reykjavik', population: 130_000 },
+    { name: 'New York', alternateNames: ['New York City', 'NYC'], arabicName: 'نيويورك', country: 'United States', countryCode: 'US', admin1: 'New York', latitude: 40.71427, longitude: -74.00597, timeZone: 'America/New_York', population: 19_000_000 },
+    { name: 'Washington', alternateNames: ['Washington DC', 'DC'], arabicName: 'واشنطن', country: 'United States', countryCode: 'US', admin1: 'District of Columbia', latitude: 38.89511, longitude: -77.03637, timeZone: 'America/New_York', population: 6_300_000 },
+    { name: 'Chicago', alternateNames: [], arabicName: 'شيكاغو', country: 'United States', countryCode: 'US', admin1: 'Illinois', latitude: 41.85003, longitude: -87.65005, timeZone: 'America/Chicago', population: 9_500_000 },
+    { name: 'Houston', alternateNames: [], arabicName: 'هيوستن', country: 'United States', countryCode: 'US', admin1: 'Texas', latitude: 29.76328, longitude: -95.36327, timeZone: 'America/Chicago', population: 7_000_000 },
+    { name: 'Dearborn', alternateNames: [], arabicName: 'ديربورن', country: 'United States', countryCode: 'US', admin1: 'Michigan', latitude: 42.32226, longitude: -83.17631, timeZone: 'America/Detroit', population: 110_000 },
+    { name: 'Los Angeles', alternateNames: ['LA'], arabicName: 'لوس أنجلوس', country: 'United States', countryCode: 'US', admin1: 'California', latitude: 34.05223, longitude: -118.24368, timeZone: 'America/Los_Angeles', population: 13_000_000 },
+    { name: 'San Francisco', alternateNames: [], arabicName: 'سان فرانسيسكو', country: 'United States', countryCode: 'US', admin1: 'California', latitude: 37.77493, longitude: -122.41942, timeZone: 'America/Los_Angeles', population: 4_700_000 },
+    { name: 'Toronto', alternateNames: [], arabicName: 'تورونتو', country: 'Canada', countryCode: 'CA', admin1: 'Ontario', latitude: 43.70011, longitude: -79.4163, timeZone: 'America/Toronto', population: 6_200_000 },
+    { name: 'Montreal', alternateNames: ['Montréal'], arabicName: 'مونتريال', country: 'Canada', countryCode: 'CA', admin1: 'Quebec', latitude: 45.50884, longitude: -73.58781, timeZone: 'America/Toronto', population: 4_300_000 },
+    { name: 'Vancouver', alternateNames: [], arabicName: 'فانكوفر', country: 'Canada', countryCode: 'CA', admin1: 'British Columbia', latitude: 49.24966, longitude: -123.11934, timeZone: 'America/Vancouver', population: 2_600_000 },
+    { name: 'Mexico City', alternateNames: ['Ciudad de México', 'CDMX'], arabicName: 'مكسيكو سيتي', country: 'Mexico', countryCode: 'MX', admin1: 'Mexico City', latitude: 19.42847, longitude: -99.12766, timeZone: 'America/Mexico_City', population: 21_000_000 },
+    { name: 'Bogotá', alternateNames: ['Bogota'], arabicName: 'بوغوتا', country: 'Colombia', countryCode: 'CO', admin1: 'Bogota D.C.', latitude: 4.60971, longitude: -74.08175, timeZone: 'America/Bogota', population: 11_000_000 },
+    { name: 'Lima', alternateNames: [], arabicName: 'ليما', country: 'Peru', countryCode: 'PE', admin1: 'Lima', latitude: -12.04318, longitude: -77.02824, timeZone: 'America/Lima', population: 10_000_000 },
+    { name: 'Santiago', alternateNames: ['Santiago de Chile'], arabicName: 'سانتياغو', country: 'Chile', countryCode: 'CL', admin1: 'Santiago Metropolitan', latitude: -33.45694, longitude: -70.64827, timeZone: 'America/Santiago', population: 6_800_000 },
+    { name: 'São Paulo', alternateNames: ['Sao Paulo'], arabicName: 'ساو باولو', country: 'Brazil', countryCode: 'BR', admin1: 'São Paulo', latitude: -23.5475, longitude: -46.63611, timeZone: 'America/Sao_Paulo', population: 22_000_000 },
+    { name: 'Rio de Janeiro', alternateNames: ['Rio'], arabicName: 'ريو دي جانيرو', country: 'Brazil', countryCode: 'BR', admin1: 'Rio de Janeiro', latitude: -22.90642, longitude: -43.18223, timeZone: 'America/Sao_Paulo', population: 13_000_000 },
+    { name: 'Buenos Aires', alternateNames: [], arabicName: 'بوينس آيرس', country: 'Argentina', countryCode: 'AR', admin1: 'Buenos Aires F.D.', latitude: -34.61315, longitude: -58.37723, timeZone: 'America/Argentina/Buenos_Aires', population: 15_000_000 },
+];
+
+/**
+ * Searches the bundled gazetteer by city name, in English, Arabic or a common
+ * alternate spelling. Works offline.
+ *
+ * ```ts
+ * searchCities('Hyderabad')[0].city.country;     // → 'India'
+ * searchCities('Hyderabad, PK')[0].city.admin1;  // → 'Sindh'
+ * searchCities('Kual Lumpur')[0].city.timeZone;  // → 'Asia/Kuala_Lumpur'
+ * ```
+ *
+ * @throws {RangeError} if `limit` is not a positive integer.
+ */
+export function searchCities(query: string, options: CitySearchOptions = {}): CitySearchMatch[] {
+    const { cities = CITY_GAZETTEER, ...rest } = options;
+    return rankCities(cities, query, rest);
+}
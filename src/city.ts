@@ -1,4 +1,7 @@
 import { getDayFastingTimes, getDayPrayerTimes } from './index.js';
+import { getOffsetMinutesForTimezone } from './timezone.js';
+import { rankCities } from './gazetteer.js';
+import type { GazetteerCity } from './gazetteer.js';
 import type { RamadanCoreConfig, FastingTimes, PrayerTimes } from './types.js';
 
 /**
@@ -16,33 +19,44 @@ interface GeocodingResponse {
 }
 
 /**
- * Calculates current timezone offset in minutes for a given IANA timezone string.
- * Native Intl API handles daylight saving time correctly based on the exact date.
+ * How city names are resolved by `getCityCoordinates` and the `*ByCity` helpers.
  */
-function getOffsetMinutesForTimezone(timezone: string, date: Date): number {
-    const dateString = date.toLocaleString('en-US', { timeZone: timezone, timeZoneName: 'shortOffset' });
-    const match = dateString.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
-
-    if (!match) return 0; // Fallback for UTC
-
-    const sign = match[1] === '-' ? -1 : 1;
-    const hours = parseInt(match[2], 10);
-    const minutes = match[3] ? parseInt(match[3], 10) : 0;
-
-    // Returning minutes (e.g., UTC+4 -> 240, UTC-5 -> -300)
-    return sign * ((hours * 60) + minutes);
+export interface CityLookupOptions {
+    /**
+     * Offline cities to search, e.g. `CITY_GAZETTEER`. Passed in rather than
+     * imported here, so the dataset is only bundled when it is used.
+     */
+    gazetteer?: readonly GazetteerCity[];
+    /**
+     * `'fallback'` (default) asks Open-Meteo first and searches the gazetteer
+     * only if that request fails (network or HTTP error); `'exclusive'` never
+     * uses the network. Either way, only exact names and alternate names
+     * match — a search like `'York'` will not resolve to New York.
+     */
+    gazetteerMode?: 'fallback' | 'exclusive';
 }
 
 /**
- * Resolves a city name to its latitude, longitude, and timezone offset using the free Open-Meteo API.
+ * A resolved city: display name, coordinates and time zone.
  */
-export async function getCityCoordinates(cityName: string, date: Date = new Date()): Promise<{
+export interface CityCoordinates {
     name: string;
     latitude: number;
     longitude: number;
     timezoneOffsetMinutes: number;
     timezoneString: string;
-}> {
+}
+
+/** Open-Meteo answered, but without the city — the gazetteer is not consulted. */
+class CityNotFoundError extends Error {}
+
+/**
+ * Lowest `searchCities` score used to resolve coordinates: an exact name (1) or
+ * alternate name (0.95). Prefix and typo matches are for suggestions only.
+ */
+const MIN_LOOKUP_SCORE = 0.95;
+
+async function fetchCityCoordinates(cityName: string, date: Date): Promise<CityCoordinates> {
     const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(cityName)}&count=1&language=en&format=json`;
 
     const response = await fetch(url);
@@ -53,7 +67,7 @@ export async function getCityCoordinates(cityName: string, date: Date = new Date
     const data = (await response.json()) as GeocodingResponse;
 
     if (!data.results || data.results.length === 0) {
-        throw new Error(`City not found: ${cityName}`);
+        throw new CityNotFoundError(`City not found: ${cityName}`);
     }
 
     const result = data.results[0];
@@ -68,6 +82,53 @@ export async function getCityCoordinates(cityName: string, date: Date = new Date
     };
 }
 
+function findGazetteerCity(gazetteer: readonly GazetteerCity[], cityName: string, date: Date): CityCoordinates | null {
+    const [match] = rankCities(gazetteer, cityName, { limit: 1 });
+    if (!match || match.score < MIN_LOOKUP_SCORE) return null;
+
+    const { city } = match;
+    return {
+        name: `${city.name}${city.admin1 ? `, ${city.admin1}` : ''}, ${city.country}`,
+        latitude: city.latitude,
+        longitude: city.longitude,
+        timezoneOffsetMinutes: getOffsetMinutesForTimezone(city.timeZone, date),
+        timezoneString: city.timeZone
+    };
+}
+
+/**
+ * Resolves a city name to its latitude, longitude, and timezone offset using the free Open-Meteo API,
+ * or offline from a gazetteer (see `CityLookupOptions`).
+ */
+export async function getCityCoordinates(cityName: string, date: Date = new Date(), options: CityLookupOptions = {}): Promise<CityCoordinates> {
+    const { gazetteer, gazetteerMode = 'fallback' } = options;
+    if (gazetteerMode !== 'fallback' && gazetteerMode !== 'exclusive') {
+        throw new RangeError(`gazetteerMode must be one of: fallback, exclusive. Received: ${gazetteerMode}`);
+    }
+    if (!gazetteer) {
+        if (gazetteerMode === 'exclusive') {
+            throw new RangeError('gazetteerMode "exclusive" requires a gazetteer, e.g. CITY_GAZETTEER.');
+        }
+        return fetchCityCoordinates(cityName, date);
+    }
+
+    if (gazetteerMode === 'exclusive') {
+        const offline = findGazetteerCity(gazetteer, cityName, date);
+        if (!offline) throw new Error(`City not found: ${cityName}`);
+        return offline;
+    }
+
+    try {
+        return await fetchCityCoordinates(cityName, date);
+    } catch (error) {
+        // Only network and HTTP failures: a name Open-Meteo doesn't know stays unknown.
+        if (error instanceof CityNotFoundError) throw error;
+        const offline = findGazetteerCity(gazetteer, cityName, date);
+        if (!offline) throw error;
+        return offline;
+    }
+}
+
 /**
  * Reverse-geocode coordinates to a human-readable location name.
  * Uses the free OpenStreetMap Nominatim API (no API key required).
@@ -117,19 +178,21 @@ export async function reverseGeocode(latitude: number, longitude: number): Promi
 
 /**
  * Fetches coordinates for a city name and returns the complete fasting times for a given date.
+ * Pass `lookupOptions` to resolve the city from an offline gazetteer.
  */
 export async function getFastingTimesByCity(
     cityName: string,
     date: Date = new Date(),
-    configOverrides?: Partial<Omit<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes'>>
+    configOverrides?: Partial<Omit<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes' | 'timeZone'>>,
+    lookupOptions?: CityLookupOptions
 ): Promise<{ locationName: string; times: FastingTimes | null }> {
 
-    const coords = await getCityCoordinates(cityName, date);
+    const coords = await getCityCoordinates(cityName, date, lookupOptions);
 
     const config: RamadanCoreConfig = {
         latitude: coords.latitude,
         longitude: coords.longitude,
-        timezoneOffsetMinutes: coords.timezoneOffsetMinutes,
+        timeZone: coords.timezoneString,
         ...configOverrides
     };
 
@@ -141,19 +204,21 @@ export async function getFastingTimesByCity(
 
 /**
  * Fetches coordinates for a city name and returns the basic prayer times for a given date.
+ * Pass `lookupOptions` to resolve the city from an offline gazetteer.
  */
 export async function getPrayerTimesByCity(
     cityName: string,
     date: Date = new Date(),
-    configOverrides?: Partial<Omit<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes'>>
+    configOverrides?: Partial<Omit<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes' | 'timeZone'>>,
+    lookupOptions?: CityLookupOptions
 ): Promise<{ locationName: string; times: PrayerTimes | null }> {
 
-    const coords = await getCityCoordinates(cityName, date);
+    const coords = await getCityCoordinates(cityName, date, lookupOptions);
 
     const config: RamadanCoreConfig = {
         latitude: coords.latitude,
         longitude: coords.longitude,
-        timezoneOffsetMinutes: coords.timezoneOffsetMinutes,
+        timeZone: coords.timezoneString,
         ...configOverrides
     };
 
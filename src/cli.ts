@@ -0,0 +1,362 @@
+import { parseArgs } from 'node:util';
+import {
+    getPrayerTimesRange, getRamadanFastingTimesForHijriYear, formatLocalTime, formatDuration,
+    getCityCoordinates,
+} from './index';
+import { getNextPrayer } from './countdown';
+import { gregorianToHijri, hijriToGregorian, RAMADAN } from './hijri';
+import { toICalendar } from './ics';
+import { toCsv, toJson, toMarkdown } from './timetable';
+import { getLocalDate } from './timezone';
+import { CITY_GAZETTEER } from './cities';
+import { validateConfig } from './validation';
+import type { EPHEMERIDES } from './ephemeris';
+import type { RamadanCoreConfig, FastingTimes, PrayerTimes } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Command-line interface: `ramadan-timings today|month|ramadan|next`.
+//
+// Every `RamadanCoreConfig` option is available as a kebab-case flag (e.g.
+// `--fajr-twilight-angle 18`); object options take JSON. Invalid configs exit
+// with status 1 and the `validateConfig` message, usage errors with status 2.
+// `runCli` does not touch `process`, so it can be driven from tests; `bin.ts`
+// is the executable entry point.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const USAGE = `Usage: ramadan-timings <command> [options]
+
+Commands:
+  today      Prayer times for today (or --date YYYY-MM-DD)
+  month      Prayer timetable for a month (--month YYYY-MM) or a range (--from/--to YYYY-MM-DD)
+  ramadan    Fasting timetable for Ramadan (--year <Hijri year>, default: the current or next)
+  next       The next prayer and the time remaining
+
+Location (either --lat/--lon/--tz or --city):
+  --lat <deg>           Latitude in decimal degrees
+  --lon <deg>           Longitude in decimal degrees
+  --tz <zone|offset>    IANA time zone (Europe/London) or UTC offset (+03:00, or -300 minutes)
+  --city <name>         Look up coordinates and time zone online (Open-Meteo), falling
+                        back to the bundled city list when offline
+  --offline             Look up --city in the bundled city list only
+
+Output:
+  --format <format>     table (default), json, csv or ics
+  --seconds             Show seconds
+
+Calculation: every RamadanCoreConfig option as a flag, e.g.
+  --method isna --asr-method hanafi --imsak-margin-minutes 10 --high-latitude-mode angle-based
+  --adjustments '{"dhuhr":2}' --hijri-calendar umm-al-qura --precision high --include-moon
+`;
+
+/** Parses a flag's value into the type of its config option. */
+type ConfigOptionParser<K extends keyof RamadanCoreConfig> = (value: string | boolean) => NonNullable<RamadanCoreConfig[K]>;
+
+const number = (value: string | boolean) => Number(value);
+const flag = (value: string | boolean) => value === true;
+const json = (value: string | boolean) => JSON.parse(String(value));
+/** String options name one of a fixed set of values, which `validateConfig` checks. */
+const choice = <T extends string>(value: string | boolean) => String(value) as T;
+
+/** Config options settable from the command line, with their parsers. Location options are handled separately. */
+const CONFIG_OPTIONS: { [K in keyof RamadanCoreConfig]?: ConfigOptionParser<K> } = {
+    elevationMeters: number,
+    horizonElevationMeters: number,
+    horizonDistanceMeters: number,
+    horizonAltitudeDegrees: number,
+    imsakMarginMinutes: number,
+    maghribDelayMinutes: number,
+    adjustments: json,
+    rounding: choice,
+    method: choice,
+    fajrTwilightAngle: number,
+    ishaTwilightAngle: number,
+    ishaIntervalMinutes: number,
+    ishaIntervalMinutesRamadan: number,
+    isRamadan: flag,
+    asrMethod: choice,
+    voluntaryPrayer: json,
+    hijriCalendar: choice,
+    includeMoon: flag,
+    precision: choice,
+    ephemeris: choice<keyof typeof EPHEMERIDES>,
+    highLatitudeMode: choice,
+    highLatitudeReferenceLatitude: number,
+    highLatitudeClampLatitude: number,
+    polarStrategy: choice,
+    polarReferenceLocation: json,
+};
+
+/** Sets `options[key]` from its flag value, if the flag was given. */
+function readConfigOption<K extends keyof RamadanCoreConfig>(
+    options: Partial<RamadanCoreConfig>, key: K, value: string | boolean | undefined,
+): void {
+    const parse = CONFIG_OPTIONS[key];
+    if (value === undefined || !parse) return;
+    try {
+        options[key] = parse(value);
+    } catch {
+        throw new UsageError(`--${toKebabCase(key)} must be JSON, e.g. '{"dhuhr":2}'. Received: ${value}`);
+    }
+}
+
+const FORMATS = ['table', 'json', 'csv', 'ics'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+const COMMANDS = ['today', 'month', 'ramadan', 'next'] as const;
+
+/** Output sinks and the current time, injectable for tests. */
+export interface CliIO {
+    stdout(text: string): void;
+    stderr(text: string): void;
+    now?(): Date;
+}
+
+const DEFAULT_IO: CliIO = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+};
+
+/** A problem with the command line itself (exit status 2). */
+class UsageError extends Error {}
+
+function toKebabCase(key: string): string {
+    return key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+function parseDate(value: string, flag: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+    const date = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3] ?? 1));
+    if (!date || date.getMonth() !== Number(match[2]) - 1) {
+        throw new UsageError(`--${flag} must be a date as YYYY-MM-DD (or YYYY-MM). Received: ${value}`);
+    }
+    return date;
+}
+
+/**
+ * `--tz` as either a fixed offset (`+03:00`, or minutes such as `180`) or an IANA
+ * zone. Bare numbers from 1 to 14 are rejected: they read as hours (`--tz 3`) but
+ * would be taken as minutes.
+ */
+function parseTimeZone(value: string): Pick<RamadanCoreConfig, 'timeZone' | 'timezoneOffsetMinutes'> {
+    const hhmm = value.match(/^([+-])(\d{1,2}):(\d{2})$/);
+    if (hhmm) {
+        const minutes = Number(hhmm[2]) * 60 + Number(hhmm[3]);
+        return { timezoneOffsetMinutes: hhmm[1] === '-' ? -minutes : minutes };
+    }
+    if (/^[+-]?\d+$/.test(value)) {
+        const minutes = Number(value);
+        if (minutes !== 0 && Math.abs(minutes) < 15) {
+            throw new UsageError(`--tz offsets are in minutes; write hours as ±HH:MM (e.g. ${minutes < 0 ? '-' : '+'}${String(Math.abs(minutes)).padStart(2, '0')}:00). Received: ${value}`);
+        }
+        return { timezoneOffsetMinutes: minutes };
+    }
+    return { timeZone: value };
+}
+
+async function buildConfig(values: Record<string, string | boolean | undefined>, now: Date): Promise<{
+    config: RamadanCoreConfig;
+    name?: string;
+}> {
+    let location: Pick<RamadanCoreConfig, 'latitude' | 'longitude' | 'timeZone' | 'timezoneOffsetMinutes'>;
+    let name: string | undefined;
+    if (typeof values.city === 'string') {
+        const city = await getCityCoordinates(values.city, now, {
+            gazetteer: CITY_GAZETTEER,
+            gazetteerMode: values.offline ? 'exclusive' : 'fallback',
+        });
+        location = { latitude: city.latitude, longitude: city.longitude, timeZone: city.timezoneString };
+        name = city.name;
+    } else {
+        if (values.lat === undefined || values.lon === undefined) {
+            throw new UsageError('A location is required: --lat and --lon (with --tz), or --city.');
+        }
+        location = {
+            latitude: Number(values.lat),
+            longitude: Number(values.lon),
+            ...(typeof values.tz === 'string' ? parseTimeZone(values.tz) : {}),
+        };
+    }
+
+    const options: Partial<RamadanCoreConfig> = {};
+    for (const key of Object.keys(CONFIG_OPTIONS) as (keyof RamadanCoreConfig)[]) {
+        readConfigOption(options, key, values[toKebabCase(key)]);
+    }
+
+    const config: RamadanCoreConfig = { ...options, ...location };
+    validateConfig(config);
+    return { config, name };
+}
+
+/** Joins `--lon -0.12` into `--lon=-0.12`, which `parseArgs` would otherwise reject as ambiguous. */
+function joinNegativeValues(argv: readonly string[]): string[] {
+    const args: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+        const next = argv[i + 1];
+        if (argv[i].startsWith('--') && !argv[i].includes('=') && next !== undefined && /^-\d/.test(next)) {
+            args.push(`${argv[i]}=${next}`);
+            i++;
+        } else {
+            args.push(argv[i]);
+        }
+    }
+    return args;
+}
+
+/** Aligns the cells of a Markdown table into plain-text columns. */
+function toTextTable(markdown: string): string {
+    const rows = markdown.trimEnd().split('\n')
+        .filter((_, i) => i !== 1)
+        .map(line => line.slice(2, -2).split(' | '));
+    const widths = rows[0].map((_, c) => Math.max(...rows.map(r => r[c].length)));
+    return rows.map(r => r.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd()).join('\n') + '\n';
+}
+
+function renderTimetable(
+    days: (FastingTimes | PrayerTimes | null)[],
+    config: RamadanCoreConfig,
+    format: OutputFormat,
+    withSeconds: boolean,
+    startDate: Date,
+    locationName?: string,
+): string {
+    switch (format) {
+        case 'json': return `${toJson(days, config, { startDate })}\n`;
+        case 'csv': return toCsv(days, config, { withSeconds, startDate });
+        case 'ics': return toICalendar(days, config, { location: locationName });
+        default: return toTextTable(toMarkdown(days, config, { withSeconds, startDate }));
+    }
+}
+
+function renderNext(now: Date, config: RamadanCoreConfig, format: OutputFormat, withSeconds: boolean): string {
+    if (format === 'ics') throw new UsageError('--format ics is not available for "next".');
+    const next = getNextPrayer(now, config);
+    if (!next) throw new RangeError('No prayer time could be computed around now; try --high-latitude-mode.');
+
+    const time = formatLocalTime(next.time, config.timeZone ?? config.timezoneOffsetMinutes ?? 0, withSeconds);
+    const remaining = formatDuration(next.remainingMs / 60000);
+    const progress = next.fastingProgress === null ? '' : next.fastingProgress.toFixed(1);
+    switch (format) {
+        case 'json':
+            return `${JSON.stringify({
+                name: next.name,
+                time: next.time.toISOString(),
+                localTime: time,
+                remainingMinutes: Math.round(next.remainingMs / 60000),
+                fastingProgress: next.fastingProgress,
+            }, null, 2)}\n`;
+        case 'csv': return `name,time,remaining,fastingProgress\r\n${next.name},${time},${remaining},${progress}\r\n`;
+        default: return `${next.name} at ${time} (in ${remaining})${progress ? ` — fast ${progress}% complete` : ''}\n`;
+    }
+}
+
+/**
+ * Runs the command line `argv` (without the node and script paths) and
+ * returns the exit status: 0 on success, 1 for invalid configs and runtime
+ * errors, 2 for usage errors.
+ *
+ * ```ts
+ * await runCli(['today', '--lat', '21.4225', '--lon', '39.8262', '--tz', 'Asia/Riyadh']);
+ * ```
+ */
+export async function runCli(argv: readonly string[], io: CliIO = DEFAULT_IO): Promise<number> {
+    const now = io.now?.() ?? new Date();
+    try {
+        const configFlags = Object.fromEntries(Object.entries(CONFIG_OPTIONS).map(([key, parse]) => [
+            toKebabCase(key), { type: parse === flag ? 'boolean' as const : 'string' as const },
+        ]));
+        let parsed;
+        try {
+            parsed = parseArgs({
+                args: joinNegativeValues(argv),
+                allowPositionals: true,
+                options: {
+                    ...configFlags,
+                    lat: { type: 'string' },
+                    lon: { type: 'string' },
+                    tz: { type: 'string' },
+                    city: { type: 'string' },
+                    offline: { type: 'boolean' },
+                    date: { type: 'string' },
+                    month: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    year: { type: 'string' },
+                    format: { type: 'string' },
+                    seconds: { type: 'boolean' },
+                    help: { type: 'boolean', short: 'h' },
+                },
+            });
+        } catch (error) {
+            throw new UsageError((error as Error).message);
+        }
+
+        const { values, positionals } = parsed;
+        if (values.help) {
+            io.stdout(USAGE);
+            return 0;
+        }
+        const [command, ...extra] = positionals;
+        if (!command || extra.length) throw new UsageError(command ? `Unexpected argument: ${extra[0]}` : 'A command is required.');
+        if (!(COMMANDS as readonly string[]).includes(command)) {
+            throw new UsageError(`command must be one of: ${COMMANDS.join(', ')}. Received: ${command}`);
+        }
+        const format = (values.format ?? 'table') as OutputFormat;
+        if (!FORMATS.includes(format)) {
+            throw new UsageError(`--format must be one of: ${FORMATS.join(', ')}. Received: ${format}`);
+        }
+        const withSeconds = values.seconds ?? false;
+
+        const { config, name } = await buildConfig(values, now);
+        const today = getLocalDate(now, config);
+
+        switch (command) {
+            case 'next':
+                io.stdout(renderNext(now, config, format, withSeconds));
+                break;
+            case 'today': {
+                const date = values.date ? parseDate(values.date, 'date') : today;
+                io.stdout(renderTimetable(getPrayerTimesRange(date, date, config), config, format, withSeconds, date, name));
+                break;
+            }
+            case 'month': {
+                let from: Date;
+                let to: Date;
+                if (values.from || values.to) {
+                    if (!values.from || !values.to) throw new UsageError('--from and --to must be given together.');
+                    from = parseDate(values.from, 'from');
+                    to = parseDate(values.to, 'to');
+                    if (to < from) throw new UsageError('--to must not be before --from.');
+                } else {
+                    const month = values.month ? parseDate(values.month, 'month') : today;
+                    from = new Date(month.getFullYear(), month.getMonth(), 1);
+                    to = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+                }
+                io.stdout(renderTimetable(getPrayerTimesRange(from, to, config), config, format, withSeconds, from, name));
+                break;
+            }
+            case 'ramadan': {
+                let year: number;
+                if (values.year !== undefined) {
+                    year = Number(values.year);
+                    if (!Number.isInteger(year) || year < 1) throw new UsageError(`--year must be a Hijri year like 1448. Received: ${values.year}`);
+                } else {
+                    const hijri = gregorianToHijri(today, config.hijriCalendar ?? 'umm-al-qura');
+                    year = hijri.month > RAMADAN ? hijri.year + 1 : hijri.year;
+                }
+                const calendar = config.hijriCalendar ?? 'umm-al-qura';
+                const days = getRamadanFastingTimesForHijriYear(year, config);
+                const first = hijriToGregorian(year, RAMADAN, 1, calendar);
+                io.stdout(renderTimetable(days, { ...config, hijriCalendar: calendar }, format, withSeconds, first, name));
+                break;
+            }
+        }
+        return 0;
+    } catch (error) {
+        io.stderr(`ramadan-timings: ${(error as Error).message}\n`);
+        if (error instanceof UsageError) {
+            io.stderr('Run "ramadan-timings --help" for usage.\n');
+            return 2;
+        }
+        return 1;
+    }
+}
@@ -0,0 +1,120 @@
+import { getDayFastingTimes, getDayPrayerTimes } from './index';
+import { getLocalDate } from './timezone';
+import type { RamadanCoreConfig } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Next / current prayer and fasting progress at a given instant.
+//
+// Events are gathered from yesterday, today and tomorrow (in the configured
+// time zone) and ordered by time, so "after Isha" correctly resolves to
+// tomorrow's Fajr and late Isha times past midnight stay with their own day.
+// Maghrib includes `maghribDelayMinutes`, so the countdown to it ends exactly
+// when `fastingProgress` does.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type PrayerName = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+/** Daily events in order. Sunrise is included as it ends the time of Fajr. */
+export const PRAYER_NAMES: readonly PrayerName[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+export interface NextPrayer {
+    name: PrayerName;
+    time: Date;
+    /** The calendar day whose timetable the event belongs to. */
+    date: Date;
+    /** Milliseconds from `now` until `time`. */
+    remainingMs: number;
+    /** Percentage (0–100) of today's fast already elapsed, or `null` outside Fajr → Maghrib. */
+    fastingProgress: number | null;
+}
+
+export interface CurrentPrayer {
+    name: PrayerName;
+    /** When the current period began. */
+    time: Date;
+    /** The calendar day whose timetable the event belongs to. */
+    date: Date;
+    /** When the current period ends, i.e. the next event's time. */
+    endsAt: Date;
+    /** Milliseconds from `now` until `endsAt`. */
+    remainingMs: number;
+    /** Percentage (0–100) of today's fast already elapsed, or `null` outside Fajr → Maghrib. */
+    fastingProgress: number | null;
+}
+
+/**
+ * Events of yesterday, today and tomorrow, sorted by time. Days without times are
+ * skipped. Maghrib is the end of the fast from `getDayFastingTimes`.
+ */
+function collectEvents(now: Date, config: RamadanCoreConfig): { name: PrayerName; time: Date; date: Date }[] {
+    const today = getLocalDate(now, config);
+    const events: { name: PrayerName; time: Date; date: Date }[] = [];
+
+    for (const delta of [-1, 0, 1]) {
+        const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + delta);
+        const times = getDayPrayerTimes(date, config);
+        if (!times) continue;
+        const maghrib = config.maghribDelayMinutes ? getDayFastingTimes(date, config)?.maghrib : undefined;
+        for (const name of PRAYER_NAMES) {
+            events.push({ name, time: name === 'maghrib' && maghrib ? maghrib : times[name], date });
+        }
+    }
+
+    return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Percentage of the day's fast (Fajr → Maghrib, including `maghribDelayMinutes`)
+ * elapsed at `now`, or `null` when `now` is outside the fast.
+ */
+function getFastingProgress(now: Date, config: RamadanCoreConfig): number | null {
+    const fast = getDayFastingTimes(getLocalDate(now, config), config);
+    if (!fast) return null;
+
+    const start = fast.fajr.getTime();
+    const end = fast.maghrib.getTime();
+    if (now.getTime() < start || now.getTime() >= end) return null;
+    return ((now.getTime() - start) / (end - start)) * 100;
+}
+
+/**
+ * Returns the next prayer event after `now` — after Isha, tomorrow's Fajr.
+ *
+ * ```ts
+ * const next = getNextPrayer(new Date(), config);
+ * `Next: ${next.name} in ${formatDuration(next.remainingMs / 60000)}`;
+ * ```
+ *
+ * @returns `null` if no event occurs within the next day (e.g. polar days without a fallback).
+ */
+export function getNextPrayer(now: Date, config: RamadanCoreConfig): NextPrayer | null {
+    const next = collectEvents(now, config).find(e => e.time.getTime() > now.getTime());
+    if (!next) return null;
+
+    return {
+        ...next,
+        remainingMs: next.time.getTime() - now.getTime(),
+        fastingProgress: getFastingProgress(now, config),
+    };
+}
+
+/**
+ * Returns the prayer period `now` falls in — the latest event at or before `now` —
+ * and when it ends.
+ *
+ * @returns `null` if the surrounding events cannot be computed.
+ */
+export function getCurrentPrayer(now: Date, config: RamadanCoreConfig): CurrentPrayer | null {
+    const events = collectEvents(now, config);
+    const index = events.findIndex(e => e.time.getTime() > now.getTime());
+    if (index <= 0) return null;
+
+    const current = events[index - 1];
+    const endsAt = events[index].time;
+    return {
+        ...current,
+        endsAt,
+        remainingMs: endsAt.getTime() - now.getTime(),
+        fastingProgress: getFastingProgress(now, config),
+    };
+}
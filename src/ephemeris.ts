@@ -0,0 +1,274 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Higher-accuracy solar ephemeris and ΔT.
+//
+// The VSOP87 model uses the truncated series for the Earth published in Meeus,
+// "Astronomical Algorithms" Appendix III (±1" in longitude), with FK5 correction,
+// nutation and aberration (ch. 25, 28). Time arguments are converted from UT to
+// Terrestrial Time with the ΔT polynomials of Espenak & Meeus (2006).
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    calcTimeJulianCent, degToRad, radToDeg, normalizeDegrees, NOAA_EPHEMERIS,
+} from './astronomy';
+import type { SolarCoordinates, SolarEphemeris } from './astronomy';
+
+// ── ΔT ───────────────────────────────────────────────────────────────────────
+
+/**
+ * ΔT = TT − UT in seconds for a decimal year (e.g. 2024.5), after the
+ * Espenak & Meeus (2006) polynomials. Valid from −1999 to +3000; the
+ * long-term parabola is used beyond.
+ */
+export function getDeltaT(year: number): number {
+    const y = year;
+    if (y < -500) {
+        const u = (y - 1820) / 100;
+        return -20 + 32 * u * u;
+    }
+    if (y < 500) {
+        const u = y / 100;
+        return 10583.6 + u * (-1014.41 + u * (33.78311 + u * (-5.952053 + u * (-0.1798452 + u * (0.022174192 + u * 0.0090316521)))));
+    }
+    if (y < 1600) {
+        const u = (y - 1000) / 100;
+        return 1574.2 + u * (-556.01 + u * (71.23472 + u * (0.319781 + u * (-0.8503463 + u * (-0.005050998 + u * 0.0083572073)))));
+    }
+    if (y < 1700) {
+        const t = y - 1600;
+        return 120 + t * (-0.9808 + t * (-0.01532 + t / 7129));
+    }
+    if (y < 1800) {
+        const t = y - 1700;
+        return 8.83 + t * (0.1603 + t * (-0.0059285 + t * (0.00013336 - t / 1174000)));
+    }
+    if (y < 1860) {
+        const t = y - 1800;
+        return 13.72 + t * (-0.332447 + t * (0.0068612 + t * (0.0041116 + t * (-0.00037436
+            + t * (0.0000121272 + t * (-0.0000001699 + t * 0.000000000875))))));
+    }
+    if (y < 1900) {
+        const t = y - 1860;
+        return 7.62 + t * (0.5737 + t * (-0.251754 + t * (0.01680668 + t * (-0.0004473624 + t / 233174))));
+    }
+    if (y < 1920) {
+        const t = y - 1900;
+        return -2.79 + t * (1.494119 + t * (-0.0598939 + t * (0.0061966 - 0.000197 * t)));
+    }
+    if (y < 1941) {
+        const t = y - 1920;
+        return 21.20 + t * (0.84493 + t * (-0.076100 + t * 0.0020936));
+    }
+    if (y < 1961) {
+        const t = y - 1950;
+        return 29.07 + t * (0.407 + t * (-1 / 233 + t / 2547));
+    }
+    if (y < 1986) {
+        const t = y - 1975;
+        return 45.45 + t * (1.067 + t * (-1 / 260 - t / 718));
+    }
+    if (y < 2005) {
+        const t = y - 2000;
+        return 63.86 + t * (0.3345 + t * (-0.060374 + t * (0.0017275 + t * (0.000651814 + t * 0.00002373599))));
+    }
+    if (y < 2050) {
+        const t = y - 2000;
+        return 62.92 + t * (0.32217 + t * 0.005589);
+    }
+    const u = (y - 1820) / 100;
+    if (y < 2150) return -20 + 32 * u * u - 0.5628 * (2150 - y);
+    return -20 + 32 * u * u;
+}
+
+/** Decimal year of a Julian Date. */
+function julianDateToYear(jd: number): number {
+    return 2000 + (jd - 2451545.0) / 365.25;
+}
+
+// ── VSOP87 (truncated) ───────────────────────────────────────────────────────
+
+/** Series terms: [A, B, C] contributing A·cos(B + C·τ), τ in Julian millennia. */
+type Series = readonly (readonly [number, number, number])[];
+
+const EARTH_L: readonly Series[] = [
+    [
+        [175347046, 0, 0], [3341656, 4.6692568, 6283.07585], [34894, 4.6261, 12566.1517],
+        [3497, 2.7441, 5753.3849], [3418, 2.8289, 3.5231], [3136, 3.6277, 77713.7715],
+        [2676, 4.4181, 7860.4194], [2343, 6.1352, 3930.2097], [1324, 0.7425, 11506.7698],
+        [1273, 2.0371, 529.691], [1199, 1.1096, 1577.3435], [990, 5.233, 5884.927],
+        [902, 2.045, 26.298], [857, 3.508, 398.149], [780, 1.179, 5223.694],
+        [753, 2.533, 5507.553], [505, 4.583, 18849.228], [492, 4.205, 775.523],
+        [357, 2.92, 0.067], [317, 5.849, 11790.629], [284, 1.899, 796.298],
+        [271, 0.315, 10977.079], [243, 0.345, 5486.778], [206, 4.806, 2544.314],
+        [205, 1.869, 5573.143], [202, 2.458, 6069.777], [156, 0.833, 213.299],
+        [132, 3.411, 2942.463], [126, 1.083, 20.775], [115, 0.645, 0.98],
+        [103, 0.636, 4694.003], [102, 0.976, 15720.839], [102, 4.267, 7.114],
+        [99, 6.21, 2146.17], [98, 0.68, 155.42], [86, 5.98, 161000.69],
+        [85, 1.3, 6275.96], [85, 3.67, 71430.7], [80, 1.81, 17260.15],
+        [79, 3.04, 12036.46], [75, 1.76, 5088.63], [74, 3.5, 3154.69],
+        [74, 4.68, 801.82], [70, 0.83, 9437.76], [62, 3.98, 8827.39],
+        [61, 1.82, 7084.9], [57, 2.78, 6286.6], [56, 4.39, 14143.5],
+        [56, 3.47, 6279.55], [52, 0.19, 12139.55], [52, 1.33, 1748.02],
+        [51, 0.28, 5856.48], [49, 0.49, 1194.45], [41, 5.37, 8429.24],
+        [41, 2.4, 19651.05], [39, 6.17, 10447.39], [37, 6.04, 10213.29],
+        [37, 2.57, 1059.38], [36, 1.71, 2352.87], [36, 1.78, 6812.77],
+        [33, 0.59, 17789.85], [30, 0.44, 83996.85], [30, 2.74, 1349.87],
+        [25, 3.16, 4690.48],
+    ],
+    [
+        [628331966747, 0, 0], [206059, 2.678235, 6283.07585], [4303, 2.6351, 12566.1517],
+        [425, 1.59, 3.523], [119, 5.796, 26.298], [109, 2.966, 1577.344],
+        [93, 2.59, 18849.23], [72, 1.14, 529.69], [68, 1.87, 398.15],
+        [67, 4.41, 5507.55], [59, 2.89, 5223.69], [56, 2.17, 155.42],
+        [45, 0.4, 796.3], [36, 0.47, 775.52], [29, 2.65, 7.11],
+        [21, 5.34, 0.98], [19, 1.85, 5486.78], [19, 4.97, 213.3],
+        [17, 2.99, 6275.96], [16, 0.03, 2544.31], [16, 1.43, 2146.17],
+        [15, 1.21, 10977.08], [12, 2.83, 1748.02], [12, 3.26, 5088.63],
+        [12, 5.27, 1194.45], [12, 2.08, 4694], [11, 0.77, 553.57],
+        [10, 1.3, 6286.6], [10, 4.24, 1349.87], [9, 2.7, 242.73],
+        [9, 5.64, 951.72], [8, 5.3, 2352.87], [6, 2.65, 9437.76],
+        [6, 4.67, 4690.48],
+    ],
+    [
+        [52919, 0, 0], [8720, 1.0721, 6283.0758], [309, 0.867, 12566.152],
+        [27, 0.05, 3.52], [16, 5.19, 26.3], [16, 3.68, 155.42],
+        [10, 0.76, 18849.23], [9, 2.06, 77713.77], [7, 0.83, 775.52],
+        [5, 4.66, 1577.34], [4, 1.03, 7.11], [4, 3.44, 5573.14],
+        [3, 5.14, 796.3], [3, 6.05, 5507.55], [3, 1.19, 242.73],
+        [3, 6.12, 529.69], [3, 0.31, 398.15], [3, 2.28, 553.57],
+        [2, 4.38, 5223.69], [2, 3.75, 0.98],
+    ],
+    [
+        [289, 5.844, 6283.076], [35, 0, 0], [17, 5.49, 12566.15],
+        [3, 5.2, 155.42], [1, 4.72, 3.52], [1, 5.3, 18849.23],
+        [1, 5.97, 242.73],
+    ],
+    [[114, 3.142, 0], [8, 4.13, 6283.08], [1, 3.84, 12566.15]],
+    [[1, 3.14, 0]],
+];
+
+const EARTH_B: readonly Series[] = [
+    [[280, 3.199, 84334.662], [102, 5.422, 5507.553], [80, 3.88, 5223.69], [44, 3.7, 2352.87], [32, 4, 1577.34]],
+    [[9, 3.9, 5507.55], [6, 1.73, 5223.69]],
+];
+
+const EARTH_R: readonly Series[] = [
+    [
+        [100013989, 0, 0], [1670700, 3.0984635, 6283.07585], [13956, 3.05525, 12566.1517],
+        [3084, 5.1985, 77713.7715], [1628, 1.1739, 5753.3849], [1576, 2.8469, 7860.4194],
+        [925, 5.453, 11506.77], [542, 4.564, 3930.21], [472, 3.661, 5884.927],
+        [346, 0.964, 5507.553], [329, 5.9, 5223.694], [307, 0.299, 5573.143],
+        [243, 4.273, 11790.629], [212, 5.847, 1577.344], [186, 5.022, 10977.079],
+        [175, 3.012, 18849.228], [110, 5.055, 5486.778], [98, 0.89, 6069.78],
+        [86, 5.69, 15720.84], [86, 1.27, 161000.69], [65, 0.27, 17260.15],
+        [63, 0.92, 529.69], [57, 2.01, 83996.85], [56, 5.24, 71430.7],
+        [49, 3.25, 2544.31], [47, 2.58, 775.52], [45, 5.54, 9437.76],
+        [43, 6.01, 6275.96], [39, 5.36, 4694], [38, 2.39, 8827.39],
+        [37, 0.83, 19651.05], [37, 4.9, 12139.55], [36, 1.67, 12036.46],
+        [35, 1.84, 2942.46], [33, 0.24, 7084.9], [32, 0.18, 5088.63],
+        [32, 1.78, 398.15], [28, 1.21, 6286.6], [28, 1.9, 6279.55],
+        [26, 4.59, 10447.39],
+    ],
+    [
+        [103019, 1.10749, 6283.07585], [1721, 1.0644, 12566.1517], [702, 3.142, 0],
+        [32, 1.02, 18849.23], [31, 2.84, 5507.55], [25, 1.32, 5223.69],
+        [18, 1.42, 1577.34], [10, 5.91, 10977.08], [9, 1.42, 6275.96],
+        [9, 0.27, 5486.78],
+    ],
+    [[4359, 5.7846, 6283.0758], [124, 5.579, 12566.152], [12, 3.14, 0], [9, 3.63, 77713.77], [6, 1.87, 5573.14], [3, 5.47, 18849.23]],
+    [[145, 4.273, 6283.076], [7, 3.92, 12566.15]],
+    [[4, 2.56, 6283.08]],
+];
+
+/** Evaluates a VSOP87 variable: Σ (Σ A·cos(B + C·τ)) · τ^i, scaled by 1e-8. */
+function evaluateSeries(series: readonly Series[], tau: number): number {
+    let result = 0;
+    let power = 1;
+    for (const terms of series) {
+        let sum = 0;
+        for (const [a, b, c] of terms) sum += a * Math.cos(b + c * tau);
+        result += sum * power;
+        power *= tau;
+    }
+    return result / 1e8;
+}
+
+/**
+ * Calculates the sun's apparent position and Equation of Time from the
+ * truncated VSOP87 theory, for a Julian Date in UT.
+ */
+function getVsop87SolarCoordinates(jd: number): SolarCoordinates {
+    const jde = jd + getDeltaT(julianDateToYear(jd)) / 86400;
+    const t = calcTimeJulianCent(jde);
+    const tau = t / 10;
+
+    // Heliocentric Earth → geocentric Sun (degrees, AU)
+    const earthL = radToDeg(evaluateSeries(EARTH_L, tau));
+    const earthB = radToDeg(evaluateSeries(EARTH_B, tau));
+    const radius = evaluateSeries(EARTH_R, tau);
+    let sunLongitude = normalizeDegrees(earthL + 180);
+    let sunLatitude = -earthB;
+
+    // Conversion to the FK5 frame
+    const lambdaPrime = degToRad(sunLongitude - 1.397 * t - 0.00031 * t * t);
+    sunLongitude += -0.09033 / 3600;
+    sunLatitude += (0.03916 / 3600) * (Math.cos(lambdaPrime) - Math.sin(lambdaPrime));
+
+    // Nutation (principal terms) and obliquity
+    const omega = degToRad(125.04452 - 1934.136261 * t);
+    const meanSun = degToRad(280.4665 + 36000.7698 * t);
+    const meanMoon = degToRad(218.3165 + 481267.8813 * t);
+    const nutationLongitude = (-17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * meanSun)
+        - 0.23 * Math.sin(2 * meanMoon) + 0.21 * Math.sin(2 * omega)) / 3600;
+    const nutationObliquity = (9.2 * Math.cos(omega) + 0.57 * Math.cos(2 * meanSun)
+        + 0.1 * Math.cos(2 * meanMoon) - 0.09 * Math.cos(2 * omega)) / 3600;
+    const meanObliquity = 23 + 26 / 60 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 3600;
+    const obliquity = meanObliquity + nutationObliquity;
+
+    // Apparent longitude: nutation + aberration
+    const apparentLongitude = normalizeDegrees(sunLongitude + nutationLongitude - 20.4898 / 3600 / radius);
+
+    const lambdaRad = degToRad(apparentLongitude);
+    const betaRad = degToRad(sunLatitude);
+    const epsRad = degToRad(obliquity);
+    const rightAscension = normalizeDegrees(radToDeg(Math.atan2(
+        Math.sin(lambdaRad) * Math.cos(epsRad) - Math.tan(betaRad) * Math.sin(epsRad),
+        Math.cos(lambdaRad),
+    )));
+    const declination = radToDeg(Math.asin(
+        Math.sin(betaRad) * Math.cos(epsRad) + Math.cos(betaRad) * Math.sin(epsRad) * Math.sin(lambdaRad),
+    ));
+
+    // Equation of Time (Meeus ch. 28)
+    const meanLongitude = 280.4664567 + tau * (360007.6982779 + tau * (0.03032028 + tau * (1 / 49931 + tau * (-1 / 15300 - tau / 2000000))));
+    const e = normalizeDegrees(meanLongitude - 0.0057183 - rightAscension + nutationLongitude * Math.cos(epsRad) + 180) - 180;
+
+    return {
+        declination,
+        equationOfTime: e * 4,
+        rightAscension,
+        apparentLongitude,
+        obliquity,
+    };
+}
+
+/** Truncated VSOP87 solar model with ΔT (opt-in, ±a few seconds of time). */
+export const VSOP87_EPHEMERIS: SolarEphemeris = {
+    name: 'vsop87',
+    getSolarCoordinates: getVsop87SolarCoordinates,
+};
+
+/**
+ * Built-in solar models selectable via `RamadanCoreConfig.ephemeris`.
+ */
+export const EPHEMERIDES: Readonly<Record<'noaa' | 'vsop87', SolarEphemeris>> = {
+    noaa: NOAA_EPHEMERIS,
+    vsop87: VSOP87_EPHEMERIS,
+};
+
+/**
+ * Resolves `RamadanCoreConfig.ephemeris` to an implementation. Default: NOAA.
+ */
+export function resolveEphemeris(ephemeris: 'noaa' | 'vsop87' | SolarEphemeris | undefined): SolarEphemeris {
+    if (ephemeris == null) return NOAA_EPHEMERIS;
+    return typeof ephemeris === 'string' ? EPHEMERIDES[ephemeris] : ephemeris;
+}
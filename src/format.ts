@@ -0,0 +1,135 @@
+import { formatLocalTime, formatDuration } from './index';
+import type { ScheduleEventName } from './scheduler';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Localized formatting of times, durations and prayer names.
+//
+// A formatter wraps `formatLocalTime` and `formatDuration` and rewrites their
+// output for a locale: 12-hour clock with the locale's CLDR AM/PM markers,
+// native digits (Arabic-Indic, Extended Arabic-Indic for Urdu) and localized
+// duration units. Prayer names follow local usage — e.g. Subuh in Malay and
+// Indonesian, Sabah/Öğle/İkindi in Turkish.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type FormatterLocale = 'en' | 'ar' | 'ur' | 'tr' | 'ms' | 'id' | 'fr';
+
+interface LocaleData {
+    /** Day-period markers for the 12-hour clock. */
+    am: string;
+    pm: string;
+    /** Whether the day period precedes the time (Turkish "ÖS 3:45"). */
+    periodFirst: boolean;
+    /** Separator between hours and minutes. */
+    timeSeparator: string;
+    /** Native digits 0–9, or `null` when the locale uses Latin digits. */
+    digits: string | null;
+    /** Replace the `h ` and `m` of `formatDuration`'s `"13h 12m"`. */
+    durationUnits: readonly [hours: string, minutes: string];
+}
+
+const LOCALES: Record<FormatterLocale, LocaleData> = {
+    en: { am: 'AM', pm: 'PM', periodFirst: false, timeSeparator: ':', digits: null, durationUnits: ['h ', 'm'] },
+    ar: { am: 'ص', pm: 'م', periodFirst: false, timeSeparator: ':', digits: '٠١٢٣٤٥٦٧٨٩', durationUnits: [' س ', ' د'] },
+    ur: { am: 'AM', pm: 'PM', periodFirst: false, timeSeparator: ':', digits: '۰۱۲۳۴۵۶۷۸۹', durationUnits: [' گھنٹے ', ' منٹ'] },
+    tr: { am: 'ÖÖ', pm: 'ÖS', periodFirst: true, timeSeparator: ':', digits: null, durationUnits: [' sa ', ' dk'] },
+    ms: { am: 'PG', pm: 'PTG', periodFirst: false, timeSeparator: ':', digits: null, durationUnits: [' jam ', ' minit'] },
+    id: { am: 'AM', pm: 'PM', periodFirst: false, timeSeparator: '.', digits: null, durationUnits: [' jam ', ' menit'] },
+    fr: { am: 'AM', pm: 'PM', periodFirst: false, timeSeparator: ':', digits: null, durationUnits: [' h ', ' min'] },
+};
+
+/**
+ * Prayer and fasting event names by locale.
+ */
+export const PRAYER_NAME_DICTIONARY: Readonly<Record<FormatterLocale, Readonly<Record<ScheduleEventName, string>>>> = {
+    en: { imsak: 'Imsak', fajr: 'Fajr', sunrise: 'Sunrise', dhuhr: 'Dhuhr', asr: 'Asr', maghrib: 'Maghrib', iftar: 'Iftar', isha: 'Isha' },
+    ar: { imsak: 'الإمساك', fajr: 'الفجر', sunrise: 'الشروق', dhuhr: 'الظهر', asr: 'العصر', maghrib: 'المغرب', iftar: 'الإفطار', isha: 'العشاء' },
+    ur: { imsak: 'سحری', fajr: 'فجر', sunrise: 'طلوع آفتاب', dhuhr: 'ظہر', asr: 'عصر', maghrib: 'مغرب', iftar: 'افطار', isha: 'عشاء' },
+    tr: { imsak: 'İmsak', fajr: 'Sabah', sunrise: 'Güneş', dhuhr: 'Öğle', asr: 'İkindi', maghrib: 'Akşam', iftar: 'İftar', isha: 'Yatsı' },
+    ms: { imsak: 'Imsak', fajr: 'Subuh', sunrise: 'Syuruk', dhuhr: 'Zohor', asr: 'Asar', maghrib: 'Maghrib', iftar: 'Berbuka', isha: 'Isyak' },
+    id: { imsak: 'Imsak', fajr: 'Subuh', sunrise: 'Terbit', dhuhr: 'Zuhur', asr: 'Asar', maghrib: 'Magrib', iftar: 'Berbuka', isha: 'Isya' },
+    fr: { imsak: 'Imsak', fajr: 'Fajr', sunrise: 'Lever du soleil', dhuhr: 'Dhuhr', asr: 'Asr', maghrib: 'Maghrib', iftar: 'Iftar', isha: 'Icha' },
+};
+
+export interface FormatterOptions {
+    /** Default: `'en'`. */
+    locale?: FormatterLocale;
+    /** Time zone for `time()` when none is passed: a UTC offset in minutes or an IANA zone. */
+    timezone?: number | string;
+    /** 12-hour clock with the locale's AM/PM markers. Default: false. */
+    hour12?: boolean;
+    /** Include seconds in times. Default: false. */
+    withSeconds?: boolean;
+    /** `'native'` writes Arabic and Urdu in their own digits. Default: `'latn'`. */
+    digits?: 'latn' | 'native';
+    /** Overrides for individual prayer names, e.g. `{ fajr: 'Sobh' }`. */
+    prayerNames?: Partial<Record<ScheduleEventName, string>>;
+}
+
+export interface Formatter {
+    readonly locale: FormatterLocale;
+    /** A local time, e.g. `"05:24"`, `"5:24 AM"` or `"٥:٢٤ ص"`. */
+    time(date: Date, timezone?: number | string): string;
+    /** A duration in minutes, e.g. `"13h 12m"` or `"13 sa 12 dk"`. */
+    duration(totalMinutes: number): string;
+    /** The localized name of a prayer or fasting event. Throws a `RangeError` for other names. */
+    prayerName(name: ScheduleEventName): string;
+    /** Converts the Latin digits in `text` to the formatter's digits. */
+    digits(text: string): string;
+}
+
+/**
+ * Creates a formatter for a locale.
+ *
+ * ```ts
+ * const fmt = createFormatter({ locale: 'ar', hour12: true, digits: 'native', timezone: 'Asia/Riyadh' });
+ * `${fmt.prayerName('maghrib')} ${fmt.time(times.maghrib)}`; // → "المغرب ٦:٢٩ م"
+ * fmt.duration(times.fastingDurationMinutes);                 // → "١٣ س ١٢ د"
+ * ```
+ *
+ * @throws {RangeError} if the options are invalid.
+ */
+export function createFormatter(options: FormatterOptions = {}): Formatter {
+    const { locale = 'en', hour12 = false, withSeconds = false, digits = 'latn' } = options;
+    if (!Object.prototype.hasOwnProperty.call(LOCALES, locale)) {
+        throw new RangeError(`locale must be one of: ${Object.keys(LOCALES).join(', ')}. Received: ${locale}`);
+    }
+    const data = LOCALES[locale];
+    if (digits !== 'latn' && digits !== 'native') {
+        throw new RangeError(`digits must be one of: latn, native. Received: ${digits}`);
+    }
+
+    const nativeDigits = digits === 'native' ? data.digits : null;
+    const toDigits = (text: string) => nativeDigits ? text.replace(/\d/g, d => nativeDigits[Number(d)]) : text;
+    const names = { ...PRAYER_NAME_DICTIONARY[locale], ...options.prayerNames };
+
+    return {
+        locale,
+        time(date, timezone = options.timezone) {
+            if (timezone === undefined) {
+                throw new RangeError('A timezone is required: pass it to time() or set FormatterOptions.timezone.');
+            }
+            const [hh, mm, ss] = formatLocalTime(date, timezone, withSeconds).split(':');
+            const rest = [mm, ...(ss ? [ss] : [])].join(data.timeSeparator);
+            if (!hour12) return toDigits(`${hh}${data.timeSeparator}${rest}`);
+
+            const hours = Number(hh);
+            const period = hours < 12 ? data.am : data.pm;
+            const clock = toDigits(`${hours % 12 || 12}${data.timeSeparator}${rest}`);
+            return data.periodFirst ? `${period} ${clock}` : `${clock} ${period}`;
+        },
+        duration(totalMinutes) {
+            if (typeof totalMinutes !== 'number' || !Number.isFinite(totalMinutes)) {
+                throw new RangeError(`totalMinutes must be a finite number. Received: ${totalMinutes}`);
+            }
+            const [hoursUnit, minutesUnit] = data.durationUnits;
+            return toDigits(formatDuration(totalMinutes).replace('h ', hoursUnit).replace(/m$/, minutesUnit));
+        },
+        prayerName(name) {
+            if (!Object.prototype.hasOwnProperty.call(names, name)) {
+                throw new RangeError(`name must be one of: ${Object.keys(names).join(', ')}. Received: ${name}`);
+            }
+            return names[name];
+        },
+        digits: toDigits,
+    };
+}
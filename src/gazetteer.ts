@@ -0,0 +1,137 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline city matching.
+//
+// Names are compared after folding case, Latin diacritics and Arabic harakat,
+// hamza forms and tatweel, so "Fes", "fès" and "FEZ" all find Fez and "مكه"
+// finds مكة المكرمة. Matches rank as exact > prefix > word prefix > substring >
+// up to two typos (Damerau–Levenshtein), then by population. Text after a comma
+// narrows the search by country, country code or admin1: "Hyderabad, PK".
+// The bundled dataset lives in `cities.ts` and is never imported here, so
+// lookups that bring their own list (`city.ts`) do not bundle it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface GazetteerCity {
+    name: string;
+    /** Other spellings and former names, e.g. `['Bombay']` for Mumbai. */
+    alternateNames: readonly string[];
+    arabicName: string;
+    country: string;
+    /** ISO 3166-1 alpha-2 code. */
+    countryCode: string;
+    /** First-level administrative division (state, province, region). */
+    admin1?: string;
+    latitude: number;
+    longitude: number;
+    /** IANA time zone, e.g. `'Asia/Riyadh'`. */
+    timeZone: string;
+    /** Approximate population, used to rank equally good matches. */
+    population: number;
+}
+
+export interface CitySearchOptions {
+    /** Maximum number of matches. Default: 10. */
+    limit?: number;
+    /** Only return cities in this country (ISO 3166-1 alpha-2 code). */
+    countryCode?: string;
+    /** Cities to search. Default: `CITY_GAZETTEER`. */
+    cities?: readonly GazetteerCity[];
+}
+
+export interface CitySearchMatch {
+    city: GazetteerCity;
+    /** Match quality from 0 (exclusive) to 1 (exact name). */
+    score: number;
+}
+
+// ── Normalization ────────────────────────────────────────────────────────────
+
+/** Letters that do not decompose under NFKD. */
+const FOLDED_LETTERS: Record<string, string> = { 'ø': 'o', 'ß': 'ss', 'ı': 'i', 'ł': 'l', 'æ': 'ae', 'đ': 'd', 'ة': 'ه', 'ى': 'ي' };
+
+function normalizeName(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+        .replace(/[øßıłæđةى]/g, c => FOLDED_LETTERS[c])
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+/** Optimal-string-alignment distance: insertions, deletions, substitutions and adjacent transpositions. */
+function editDistance(a: string, b: string): number {
+    let before: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], before[j - 2] + 1);
+            }
+        }
+        before = previous;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────────────
+
+function scoreName(query: string, name: string): number {
+    if (name === query) return 1;
+    if (name.startsWith(query)) return 0.8;
+    if (name.split(' ').some(word => word.startsWith(query))) return 0.7;
+    if (name.includes(query)) return 0.6;
+
+    const maxTypos = query.length <= 3 ? 0 : query.length <= 6 ? 1 : 2;
+    if (maxTypos === 0) return 0;
+    if (Math.abs(name.length - query.length) > maxTypos) return 0;
+    const typos = editDistance(query, name);
+    return typos <= maxTypos ? 0.5 - 0.1 * typos : 0;
+}
+
+function scoreCity(query: string, city: GazetteerCity): number {
+    return Math.max(
+        scoreName(query, normalizeName(city.name)),
+        scoreName(query, normalizeName(city.arabicName)),
+        ...city.alternateNames.map(name => 0.95 * scoreName(query, normalizeName(name))),
+    );
+}
+
+function matchesQualifier(qualifier: string, city: GazetteerCity): boolean {
+    return [city.country, city.countryCode, city.admin1 ?? '']
+        .some(field => normalizeName(field).startsWith(qualifier));
+}
+
+// ── Search ───────────────────────────────────────────────────────────────────
+
+/**
+ * Searches `cities` by name, best match first. This is `searchCities` without
+ * the default dataset.
+ */
+export function rankCities(
+    cities: readonly GazetteerCity[],
+    query: string,
+    options: Omit<CitySearchOptions, 'cities'> = {}
+): CitySearchMatch[] {
+    const { limit = 10, countryCode } = options;
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new RangeError(`limit must be a positive integer. Received: ${limit}`);
+    }
+
+    const [name, ...qualifiers] = query.split(',').map(normalizeName);
+    if (!name) return [];
+
+    const matches: CitySearchMatch[] = [];
+    for (const city of cities) {
+        if (countryCode && city.countryCode !== countryCode.toUpperCase()) continue;
+        if (!qualifiers.every(q => !q || matchesQualifier(q, city))) continue;
+        const score = scoreCity(name, city);
+        if (score > 0) matches.push({ city, score });
+    }
+    return matches
+        .sort((a, b) => b.score - a.score || b.city.population - a.city.population)
+        .slice(0, limit);
+}
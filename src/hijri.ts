@@ -0,0 +1,212 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Hijri (Islamic) calendar conversion.
+//
+// Two calendars are supported:
+// - `'umm-al-qura'` — the official Saudi calendar, from its published month-length
+//                     table (1300–1600 AH). Outside that range it falls back to
+//                     the tabular calendar.
+// - `'tabular'`     — the arithmetical (civil) calendar with the common 30-year
+//                     leap cycle (2, 5, 7, 10, 13, 16, 18, 21, 24, 26, 29).
+//
+// Gregorian dates are read and produced as local calendar days, like the rest of
+// the library. A Hijri date is assigned to the civil day it shares its daylight
+// hours with (the Hijri day formally starts at the previous sunset).
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type HijriCalendar = 'umm-al-qura' | 'tabular';
+
+export interface HijriDate {
+    /** Hijri year (AH). */
+    year: number;
+    /** Hijri month, 1 (Muharram) to 12 (Dhu al-Hijjah). */
+    month: number;
+    /** Day of the month, 1 to 30. */
+    day: number;
+}
+
+/** English transliterations of the Hijri months, indexed from 0 (Muharram). */
+export const HIJRI_MONTH_NAMES: readonly string[] = [
+    'Muharram', 'Safar', "Rabi' al-Awwal", "Rabi' al-Thani", 'Jumada al-Ula', 'Jumada al-Akhirah',
+    'Rajab', "Sha'ban", 'Ramadan', 'Shawwal', "Dhu al-Qi'dah", 'Dhu al-Hijjah',
+];
+
+/** Hijri month number of Ramadan. */
+export const RAMADAN = 9;
+
+// ── Julian Day Number helpers ────────────────────────────────────────────────
+
+/** Julian Day Number of 1 Muharram 1 AH in the tabular (civil) calendar. */
+const TABULAR_EPOCH_JDN = 1948440;
+
+function gregorianToJdn(year: number, month: number, day: number): number {
+    return Math.round(Date.UTC(year, month, day) / 86400000 + 2440587.5);
+}
+
+function jdnToGregorian(jdn: number): Date {
+    const utc = new Date((jdn - 2440587.5) * 86400000);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+// ── Tabular calendar ─────────────────────────────────────────────────────────
+
+function tabularToJdn(year: number, month: number, day: number): number {
+    return day
+        + Math.ceil(29.5 * (month - 1))
+        + (year - 1) * 354
+        + Math.floor((3 + 11 * year) / 30)
+        + TABULAR_EPOCH_JDN - 1;
+}
+
+function jdnToTabular(jdn: number): HijriDate {
+    const year = Math.floor((30 * (jdn - TABULAR_EPOCH_JDN) + 10646) / 10631);
+    const month = Math.min(12, Math.ceil((jdn - 29 - tabularToJdn(year, 1, 1)) / 29.5) + 1);
+    const day = jdn - tabularToJdn(year, month, 1) + 1;
+    return { year, month, day };
+}
+
+function tabularMonthLength(year: number, month: number): number {
+    if (month === 12) return (14 + 11 * year) % 30 < 11 ? 30 : 29;
+    return month % 2 === 1 ? 30 : 29;
+}
+
+// ── Umm al-Qura calendar ─────────────────────────────────────────────────────
+
+const UMM_AL_QURA_FIRST_YEAR = 1300;
+/** Julian Day Number of 1 Muharram 1300 AH (12 November 1882). */
+const UMM_AL_QURA_EPOCH_JDN = 2408762;
+
+/**
+ * Month lengths for each Umm al-Qura year from 1300 AH: bit `m - 1` is set
+ * when month `m` has 30 days, clear when it has 29.
+ */
+const UMM_AL_QURA_MONTHS: readonly number[] = [
+    0x555, 0x2ab, 0x937, 0x2b6, 0x576, 0x36c, 0xb55, 0xaaa, 0x956, 0x49e,
+    0x95d, 0x2ba, 0x5b5, 0x3aa, 0xb4b, 0xa96, 0x52e, 0x2ad, 0x56d, 0xb5a,
+    0x752, 0xf25, 0xe8a, 0xd16, 0xa56, 0xab5, 0x6b4, 0xda9, 0xb92, 0xb25,
+    0x64b, 0xa9b, 0x35a, 0x6d9, 0x5d4, 0xda5, 0xd4a, 0xa95, 0x536, 0x975,
+    0x2f4, 0x6e9, 0x6d4, 0x6a9, 0x535, 0x25d, 0x4bd, 0x9ba, 0x3b4, 0xb69,
+    0xb2a, 0xa55, 0x4ad, 0xa5d, 0x2da, 0x6d9, 0xeaa, 0xe94, 0xd2a, 0xc56,
+    0x4ae, 0xa6d, 0x56a, 0xd55, 0xd4a, 0xa93, 0x52b, 0xa5b, 0x53a, 0x6b5,
+    0xea9, 0xd52, 0xd29, 0xa55, 0x4ad, 0x56d, 0xaea, 0x6e4, 0xed1, 0xda2,
+    0xaaa, 0x95a, 0x2da, 0x5b9, 0xbb2, 0x764, 0x6c9, 0x555, 0x2ab, 0x4db,
+    0xaba, 0x5b4, 0xda9, 0xd52, 0xaa5, 0x92d, 0x26d, 0x8ed, 0x2da, 0xad5,
+    0xaa5, 0xa4b, 0x497, 0x937, 0x2b6, 0x975, 0xd69, 0xd52, 0xc95, 0x92b,
+    0x25b, 0x4db, 0x9d5, 0x5d2, 0xda5, 0xd4a, 0xa95, 0x54d, 0xaad, 0x3aa,
+    0xbd2, 0xbc4, 0xb89, 0xa95, 0x52d, 0x5ad, 0xb6a, 0x6d4, 0xdc9, 0xd92,
+    0xaa6, 0x956, 0x2ae, 0x56d, 0x36a, 0xb55, 0xaaa, 0x94d, 0x49d, 0x95d,
+    0x2ba, 0x5b5, 0x5aa, 0xd55, 0xa9a, 0x92e, 0x26e, 0x55d, 0xada, 0x6d4,
+    0x6a5, 0xb27, 0xa4d, 0x4ad, 0x56d, 0xb5a, 0x754, 0xf49, 0xe92, 0xd26,
+    0xa56, 0x356, 0x6b5, 0xbaa, 0xb92, 0xb25, 0x68b, 0xa9b, 0x55a, 0xada,
+    0x5b4, 0xda9, 0xb52, 0xa9a, 0x536, 0x276, 0x575, 0xaf2, 0x6d4, 0x6a9,
+    0x555, 0x2ad, 0x4bd, 0x9ba, 0x574, 0xb69, 0xb52, 0xa95, 0x52d, 0xa5d,
+    0x4da, 0xad9, 0x6b2, 0xe95, 0xe2a, 0xc96, 0x92e, 0xaad, 0x56a, 0xd65,
+    0xd4a, 0xd15, 0x62b, 0xc5b, 0x53a, 0x6b5, 0xdb2, 0xd64, 0xd29, 0xa55,
+    0x4ad, 0x96d, 0xaea, 0x6e8, 0xed1, 0xda4, 0xd4a, 0xa6a, 0x2da, 0x5b9,
+    0xb72, 0xb68, 0x6d1, 0x655, 0x4ab, 0x95b, 0x2ba, 0x5b5, 0xda9, 0xd52,
+    0xca6, 0x94e, 0x46e, 0x95d, 0x4da, 0xad5, 0xaaa, 0xa4d, 0x49b, 0x937,
+    0x4b6, 0x975, 0xd6a, 0xd52, 0xaa5, 0x94b, 0x2ab, 0x55b, 0xad9, 0x5d2,
+    0xdc5, 0xd92, 0xb25, 0x555, 0xab5, 0x5b4, 0xba9, 0x7a2, 0x745, 0x593,
+    0xaab, 0x4d6, 0x9d6, 0x5d2, 0xba5, 0xb4a, 0xa95, 0x4ad, 0x15d, 0x2dd,
+    0x9da, 0x5b4, 0x5a9, 0x52d, 0x25b, 0x8b7, 0x176, 0x56d, 0xb6a, 0xaca,
+    0xa96, 0x52b, 0x15b, 0x2bb, 0x5b6, 0xdaa, 0xb94, 0xd46, 0xa8d, 0x52d,
+    0xa9d, 0x55a, 0x755, 0x749, 0xf13, 0xe4a, 0xa96, 0x556, 0x6b5, 0xbaa,
+    0xb94,];
+
+const UMM_AL_QURA_LAST_YEAR = UMM_AL_QURA_FIRST_YEAR + UMM_AL_QURA_MONTHS.length - 1;
+
+function ummAlQuraMonthLength(year: number, month: number): number {
+    return (UMM_AL_QURA_MONTHS[year - UMM_AL_QURA_FIRST_YEAR] >> (month - 1)) & 1 ? 30 : 29;
+}
+
+let ummAlQuraYearStarts: number[] | null = null;
+
+/** Julian Day Numbers of 1 Muharram for every table year, plus one past the end. */
+function getUmmAlQuraYearStarts(): number[] {
+    if (ummAlQuraYearStarts) return ummAlQuraYearStarts;
+    const starts = [UMM_AL_QURA_EPOCH_JDN];
+    for (let y = UMM_AL_QURA_FIRST_YEAR; y <= UMM_AL_QURA_LAST_YEAR; y++) {
+        let length = 0;
+        for (let m = 1; m <= 12; m++) length += ummAlQuraMonthLength(y, m);
+        starts.push(starts[starts.length - 1] + length);
+    }
+    ummAlQuraYearStarts = starts;
+    return starts;
+}
+
+function isInUmmAlQuraTable(year: number): boolean {
+    return year >= UMM_AL_QURA_FIRST_YEAR && year <= UMM_AL_QURA_LAST_YEAR;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Number of days (29 or 30) in a Hijri month.
+ */
+export function getHijriMonthLength(year: number, month: number, calendar: HijriCalendar = 'umm-al-qura'): number {
+    assertHijriMonth(year, month);
+    if (calendar === 'umm-al-qura' && isInUmmAlQuraTable(year)) return ummAlQuraMonthLength(year, month);
+    return tabularMonthLength(year, month);
+}
+
+/**
+ * Converts a Hijri date to the corresponding Gregorian calendar day
+ * (local midnight, like `new Date(year, month, day)`).
+ */
+export function hijriToGregorian(
+    year: number, month: number, day: number, calendar: HijriCalendar = 'umm-al-qura',
+): Date {
+    assertHijriMonth(year, month);
+    const length = getHijriMonthLength(year, month, calendar);
+    if (!Number.isInteger(day) || day < 1 || day > length) {
+        throw new RangeError(`day must be an integer between 1 and ${length} for ${HIJRI_MONTH_NAMES[month - 1]} ${year}. Received: ${day}`);
+    }
+
+    if (calendar === 'umm-al-qura' && isInUmmAlQuraTable(year)) {
+        let jdn = getUmmAlQuraYearStarts()[year - UMM_AL_QURA_FIRST_YEAR];
+        for (let m = 1; m < month; m++) jdn += ummAlQuraMonthLength(year, m);
+        return jdnToGregorian(jdn + day - 1);
+    }
+
+    return jdnToGregorian(tabularToJdn(year, month, day));
+}
+
+/**
+ * Converts a Gregorian calendar day (read via `.getFullYear()` etc.) to a Hijri date.
+ */
+export function gregorianToHijri(date: Date, calendar: HijriCalendar = 'umm-al-qura'): HijriDate {
+    const jdn = gregorianToJdn(date.getFullYear(), date.getMonth(), date.getDate());
+
+    if (calendar === 'umm-al-qura') {
+        const starts = getUmmAlQuraYearStarts();
+        if (jdn >= starts[0] && jdn < starts[starts.length - 1]) {
+            let i = 0;
+            while (jdn >= starts[i + 1]) i++;
+            const year = UMM_AL_QURA_FIRST_YEAR + i;
+            let remaining = jdn - starts[i];
+            let month = 1;
+            while (remaining >= ummAlQuraMonthLength(year, month)) {
+                remaining -= ummAlQuraMonthLength(year, month);
+                month++;
+            }
+            return { year, month, day: remaining + 1 };
+        }
+    }
+
+    return jdnToTabular(jdn);
+}
+
+/**
+ * Formats a Hijri date as e.g. `"1 Ramadan 1448"`.
+ */
+export function formatHijriDate(hijri: HijriDate): string {
+    return `${hijri.day} ${HIJRI_MONTH_NAMES[hijri.month - 1]} ${hijri.year}`;
+}
+
+function assertHijriMonth(year: number, month: number): void {
+    if (!Number.isInteger(year) || year < 1) {
+        throw new RangeError(`Hijri year must be a positive integer. Received: ${year}`);
+    }
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+        throw new RangeError(`Hijri month must be an integer between 1 and 12. Received: ${month}`);
+    }
+}
@@ -0,0 +1,214 @@
+import { getDayPrayerTimes, formatLocalTime, formatDuration } from './index';
+import { gregorianToHijri, formatHijriDate, RAMADAN } from './hijri';
+import { describeCalculationMethod, resolveCalculationParameters } from './methods';
+import { getRowDates } from './timetable';
+import { validateConfig } from './validation';
+import type { RamadanCoreConfig, FastingTimes } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Printable HTML Ramadan calendar.
+//
+// Produces a self-contained document — inline CSS, no scripts, no external
+// assets — laid out for one A4 or Letter page, so it can be saved, emailed or
+// printed as is. Asr and Isha are not part of `FastingTimes`; they are taken
+// from `getDayPrayerTimes` for the same day and config.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type HtmlCalendarLabel =
+    | 'date' | 'hijriDate' | 'imsak' | 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha' | 'fasting'
+    | 'lastTenNights' | 'friday' | 'fallback' | 'unavailable' | 'method' | 'asrMethod';
+
+const DEFAULT_LABELS: Record<HtmlCalendarLabel, string> = {
+    date: 'Date',
+    hijriDate: 'Hijri',
+    imsak: 'Imsak',
+    fajr: 'Fajr',
+    sunrise: 'Sunrise',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha',
+    fasting: 'Fasting',
+    lastTenNights: 'Last ten nights',
+    friday: 'Friday',
+    fallback: 'Times estimated with the high-latitude rule.',
+    unavailable: 'Times unavailable for this day.',
+    method: 'Method',
+    asrMethod: 'Asr',
+};
+
+export interface HtmlCalendarOptions {
+    /** Document and page title. Default: `"Ramadan <Hijri year>"`, or `"Fasting Timetable"`. */
+    title?: string;
+    /** Place name shown in the header, e.g. `"London, United Kingdom"`. */
+    locationName?: string;
+    /** Page size for printing. Default: `'a4'`. */
+    paperSize?: 'a4' | 'letter';
+    /** Text direction; `'rtl'` for Arabic, Urdu or Persian. Default: `'ltr'`. */
+    direction?: 'ltr' | 'rtl';
+    /** BCP 47 language tag for the `lang` attribute and the date column. Default: `'en'`. */
+    lang?: string;
+    /** Column headings and notes, overriding the English defaults. */
+    labels?: Partial<Record<HtmlCalendarLabel, string>>;
+    /** Show times as `HH:MM:SS`. Default: false. */
+    withSeconds?: boolean;
+    /** Date of the first row, needed only when every row is `null`. */
+    startDate?: Date;
+}
+
+const PAGE_SIZES = { a4: 'A4', letter: 'letter' } as const;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatCoordinate(value: number, positive: string, negative: string): string {
+    return `${Math.abs(value).toFixed(4)}°${value >= 0 ? positive : negative}`;
+}
+
+/** The header line naming the calculation parameters. */
+function describeMethod(config: RamadanCoreConfig): string {
+    if (config.method) return describeCalculationMethod(config.method);
+    const params = resolveCalculationParameters(config);
+    const isha = params.ishaIntervalMinutes != null ? `${params.ishaIntervalMinutes} min` : `${params.ishaTwilightAngle}°`;
+    return `Fajr ${params.fajrTwilightAngle}°, Isha ${isha}`;
+}
+
+function getStyles(paperSize: 'a4' | 'letter'): string {
+    return `
+@page { size: ${PAGE_SIZES[paperSize]} portrait; margin: 12mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 10pt/1.35 system-ui, -apple-system, "Segoe UI", Roboto, "Noto Sans", "Noto Naskh Arabic", sans-serif; color: #1a1a1a; }
+header { margin-bottom: 8pt; }
+h1 { margin: 0 0 2pt; font-size: 18pt; }
+header p { margin: 0; color: #555; }
+table { width: 100%; border-collapse: collapse; font-variant-numeric: tabular-nums; }
+th, td { padding: 3pt 4pt; border-bottom: 0.5pt solid #ccc; text-align: center; white-space: nowrap; }
+th { background: #f0f0f0; border-bottom: 1pt solid #888; font-weight: 600; }
+td.date, td.hijri { text-align: start; }
+td.time { unicode-bidi: isolate; direction: ltr; }
+tr.last-ten td { background: #fdf3d6; }
+tr.friday td.date { font-weight: 700; }
+tr.unavailable td { color: #999; }
+thead { display: table-header-group; }
+tr { break-inside: avoid; }
+footer { margin-top: 6pt; font-size: 8.5pt; color: #555; }
+footer p { margin: 2pt 0; }
+.swatch { display: inline-block; width: 10pt; height: 8pt; margin-inline-end: 3pt; vertical-align: middle; border: 0.5pt solid #bbb; }
+.swatch.last-ten { background: #fdf3d6; }
+@media print { body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+`.trim();
+}
+
+/**
+ * Renders a Ramadan timetable as a self-contained, printable HTML document.
+ *
+ * One row per day with the Gregorian and Hijri date, Imsak, Fajr, Sunrise,
+ * Dhuhr, Asr, Maghrib, Isha and the fasting duration. Days of the last ten
+ * nights of Ramadan are highlighted and Fridays set in bold; `null` days and
+ * high-latitude fallback days are marked. A pure function — it works the same
+ * in Node and in browsers.
+ *
+ * ```ts
+ * const days = getRamadanFastingTimesForHijriYear(1448, config);
+ * const html = renderHtmlCalendar(days, config, { locationName: 'London', paperSize: 'a4' });
+ * ```
+ *
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function renderHtmlCalendar(
+    days: readonly (FastingTimes | null)[],
+    config: RamadanCoreConfig,
+    options: HtmlCalendarOptions = {},
+): string {
+    validateConfig(config);
+    const { paperSize = 'a4', direction = 'ltr', lang = 'en', withSeconds = false } = options;
+    if (!Object.keys(PAGE_SIZES).includes(paperSize)) {
+        throw new RangeError(`paperSize must be one of: ${Object.keys(PAGE_SIZES).join(', ')}. Received: ${paperSize}`);
+    }
+    if (direction !== 'ltr' && direction !== 'rtl') {
+        throw new RangeError(`direction must be one of: ltr, rtl. Received: ${direction}`);
+    }
+
+    const labels = { ...DEFAULT_LABELS, ...options.labels };
+    const calendar = config.hijriCalendar ?? 'umm-al-qura';
+    const dates = getRowDates(days, options.startDate);
+    const formatDate = new Intl.DateTimeFormat(lang, { weekday: 'short', day: 'numeric', month: 'short' });
+    const time = (date: Date | undefined, day: FastingTimes) =>
+        date ? formatLocalTime(date, config.timeZone ?? day.timezoneOffsetMinutes, withSeconds) : '—';
+
+    let ramadanYear: number | undefined;
+    let hasFallback = false;
+    const rows = days.map((day, i) => {
+        const date = dates[i];
+        const hijri = day?.hijriDate ?? (date ? gregorianToHijri(date, calendar) : undefined);
+        if (hijri?.month === RAMADAN) ramadanYear ??= hijri.year;
+
+        const classes = [
+            ...(hijri?.month === RAMADAN && hijri.day >= 21 ? ['last-ten'] : []),
+            ...(date?.getDay() === 5 ? ['friday'] : []),
+            ...(day ? [] : ['unavailable']),
+        ];
+        const dateCells = [
+            `<td class="date">${date ? escapeHtml(formatDate.format(date)) : ''}</td>`,
+            `<td class="hijri">${hijri ? escapeHtml(formatHijriDate(hijri)) : ''}</td>`,
+        ];
+        const open = `<tr${classes.length ? ` class="${classes.join(' ')}"` : ''}>`;
+        if (!day) {
+            return `${open}${dateCells.join('')}<td colspan="8" title="${escapeHtml(labels.unavailable)}">—</td></tr>`;
+        }
+
+        const prayers = getDayPrayerTimes(day.date, config);
+        const fallback = day.highLatitudeFallbackApplied || day.polar !== undefined;
+        hasFallback ||= fallback;
+        const cells = [
+            time(day.imsak, day), time(day.fajr, day), time(day.sunrise, day), time(prayers?.dhuhr ?? day.solarNoon, day),
+            time(prayers?.asr, day), time(day.maghrib, day), time(prayers?.isha, day),
+        ].map(t => `<td class="time">${t}</td>`);
+        const fasting = `<td>${escapeHtml(formatDuration(day.fastingDurationMinutes))}${fallback ? ' *' : ''}</td>`;
+        return `${open}${dateCells.join('')}${cells.join('')}${fasting}</tr>`;
+    });
+
+    const title = options.title ?? (ramadanYear ? `Ramadan ${ramadanYear}` : 'Fasting Timetable');
+    const place = [
+        options.locationName,
+        `${formatCoordinate(config.latitude, 'N', 'S')}, ${formatCoordinate(config.longitude, 'E', 'W')}`,
+        config.timeZone,
+    ].filter(Boolean).join(' · ');
+    const method = `${labels.method}: ${describeMethod(config)} · ${labels.asrMethod}: ${config.asrMethod === 'hanafi' ? 'Hanafi' : 'Standard'}`;
+    const headings = ['date', 'hijriDate', 'imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha', 'fasting'] as const;
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}" dir="${direction}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${getStyles(paperSize)}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p class="location">${escapeHtml(place)}</p>
+<p class="method">${escapeHtml(method)}</p>
+</header>
+<table>
+<thead><tr>${headings.map(h => `<th scope="col">${escapeHtml(labels[h])}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<footer>
+<p><span class="swatch last-ten"></span>${escapeHtml(labels.lastTenNights)} · <strong>${escapeHtml(labels.friday)}</strong></p>
+${hasFallback ? `<p>* ${escapeHtml(labels.fallback)}</p>\n` : ''}</footer>
+</body>
+</html>
+`;
+}
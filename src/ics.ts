@@ -0,0 +1,272 @@
+import { formatHijriDate } from './hijri';
+import { getOffsetMinutesForTimezone } from './timezone';
+import { validateConfig } from './validation';
+import type { RamadanCoreConfig, FastingTimes, PrayerTimes } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// iCalendar (RFC 5545) export of fasting and prayer timetables.
+//
+// Each selected event of each day becomes a VEVENT. UIDs are derived from the
+// date, the event and the location — not the time — so importing a recomputed
+// timetable updates the existing entries instead of duplicating them. With an
+// IANA `timeZone` the times are written as local TZID times together with a
+// VTIMEZONE built from the zone's actual transitions over the range; with a
+// fixed offset they are written in UTC.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Events that can be exported. On `FastingTimes` rows `'dhuhr'` is the solar
+ * noon; events a row does not have (e.g. `'asr'` on fasting rows) are skipped.
+ */
+export type IcsEventName = 'imsak' | 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export interface IcsOptions {
+    /** Events to export. Default: Imsak and Maghrib for fasting rows, the five prayers for prayer rows. */
+    events?: readonly IcsEventName[];
+    /** Event titles, overriding the defaults (e.g. `{ maghrib: 'Iftar' }`). */
+    summaries?: Partial<Record<IcsEventName, string>>;
+    /** Length of each event in minutes. Default: 15. */
+    durationMinutes?: number;
+    /** Add a VALARM this many minutes before each event, e.g. `[30, 10]`. Default: none. */
+    alarmMinutes?: readonly number[];
+    /** Calendar name shown by clients (X-WR-CALNAME). */
+    calendarName?: string;
+    /** Free-text LOCATION of each event, e.g. a city or mosque name. */
+    location?: string;
+    /** DTSTAMP of the export. Default: now. */
+    timestamp?: Date;
+}
+
+const ICS_EVENT_NAMES: readonly IcsEventName[] = ['imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+const FASTING_SUMMARIES: Record<IcsEventName, string> = {
+    imsak: 'Imsak (Suhoor ends)', fajr: 'Fajr', sunrise: 'Sunrise', dhuhr: 'Dhuhr', asr: 'Asr', maghrib: 'Iftar (Maghrib)', isha: 'Isha',
+};
+
+const PRAYER_SUMMARIES: Record<IcsEventName, string> = {
+    imsak: 'Imsak', fajr: 'Fajr', sunrise: 'Sunrise', dhuhr: 'Dhuhr', asr: 'Asr', maghrib: 'Maghrib', isha: 'Isha',
+};
+
+const PRODID = '-//danishfareed//ramadan-timings//EN';
+
+function isFastingTimes(day: FastingTimes | PrayerTimes): day is FastingTimes {
+    return 'imsak' in day;
+}
+
+function getEventTime(day: FastingTimes | PrayerTimes, name: IcsEventName): Date | undefined {
+    if (isFastingTimes(day)) {
+        if (name === 'dhuhr') return day.solarNoon;
+        return name === 'asr' || name === 'isha' ? undefined : day[name];
+    }
+    return name === 'imsak' ? undefined : day[name];
+}
+
+// ── Formatting ───────────────────────────────────────────────────────────────
+
+function pad(n: number, width = 2): string {
+    return n.toString().padStart(width, '0');
+}
+
+/** `YYYYMMDDTHHMMSS` of the UTC fields of `date`. */
+function formatDateTime(date: Date): string {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+        + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+/** DTSTART/DTEND value: local TZID time, or UTC with a `Z` suffix. */
+function formatTime(date: Date, timeZone: string | undefined): string {
+    if (!timeZone) return `${formatDateTime(date)}Z`;
+    return formatDateTime(new Date(date.getTime() + getOffsetMinutesForTimezone(timeZone, date) * 60000));
+}
+
+/** UTC offset as `+HHMM` / `-HHMM`. */
+function formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+';
+    const abs = Math.abs(minutes);
+    return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(text: string): string {
+    return text.replace(/[\\;,]/g, c => `\\${c}`).replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line to 75 octets (RFC 5545 §3.1), without splitting UTF-8 sequences. */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const code = char.codePointAt(0)!;
+        const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+        if (octets + size > (parts.length ? 74 : 75)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+// ── VTIMEZONE ────────────────────────────────────────────────────────────────
+
+/** UTC instants in [from, to] at which the offset of `timeZone` changes, to the minute. */
+function findTransitions(timeZone: string, from: number, to: number): number[] {
+    const transitions: number[] = [];
+    for (let t = from; t < to; t += 86400000) {
+        let lo = t;
+        let hi = Math.min(t + 86400000, to);
+        const before = getOffsetMinutesForTimezone(timeZone, new Date(lo));
+        if (getOffsetMinutesForTimezone(timeZone, new Date(hi)) === before) continue;
+        while (hi - lo > 60000) {
+            const mid = Math.floor((lo + hi) / 2);
+            if (getOffsetMinutesForTimezone(timeZone, new Date(mid)) === before) lo = mid;
+            else hi = mid;
+        }
+        transitions.push(Math.ceil((lo + 1) / 60000) * 60000);
+    }
+    return transitions;
+}
+
+/**
+ * A VTIMEZONE covering [from, to]: one observance for the offset in effect at
+ * `from` and one per transition, each as a single onset (no RRULE), so it is
+ * exact for the exported range whatever the zone's rules.
+ */
+function buildTimeZone(timeZone: string, from: number, to: number): string[] {
+    const initial = getOffsetMinutesForTimezone(timeZone, new Date(from));
+    const observances = [{ at: from, offsetFrom: initial, offsetTo: initial }];
+    for (const at of findTransitions(timeZone, from, to)) {
+        observances.push({
+            at,
+            offsetFrom: getOffsetMinutesForTimezone(timeZone, new Date(at - 60000)),
+            offsetTo: getOffsetMinutesForTimezone(timeZone, new Date(at)),
+        });
+    }
+    const standardOffset = Math.min(...observances.map(o => o.offsetTo));
+
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+    for (const { at, offsetFrom, offsetTo } of observances) {
+        const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+        lines.push(
+            `BEGIN:${kind}`,
+            `DTSTART:${formatDateTime(new Date(at + offsetFrom * 60000))}`,
+            `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+            `TZOFFSETTO:${formatOffset(offsetTo)}`,
+            `END:${kind}`,
+        );
+    }
+    lines.push('END:VTIMEZONE');
+    return lines;
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+/**
+ * Serializes a timetable — the output of `getRamadanFastingTimes`,
+ * `getRamadanFastingTimesForHijriYear` or `getPrayerTimesRange` — as an
+ * iCalendar document. `null` days are skipped.
+ *
+ * ```ts
+ * const days = getRamadanFastingTimesForHijriYear(1448, config);
+ * const ics = toICalendar(days, config, { alarmMinutes: [30], calendarName: 'Ramadan 1448' });
+ * fs.writeFileSync('ramadan.ics', ics);
+ * ```
+ *
+ * @param days    Timetable rows; each selected event becomes a VEVENT.
+ * @param config  The config the rows were computed with — supplies the time zone and location.
+ * @returns  The calendar as a string with CRLF line endings.
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function toICalendar(
+    days: readonly (FastingTimes | PrayerTimes | null)[],
+    config: RamadanCoreConfig,
+    options: IcsOptions = {},
+): string {
+    validateConfig(config);
+    const {
+        durationMinutes = 15,
+        alarmMinutes = [],
+        timestamp = new Date(),
+    } = options;
+    if (typeof durationMinutes !== 'number' || Number.isNaN(durationMinutes) || durationMinutes < 0 || durationMinutes > 240) {
+        throw new RangeError(`durationMinutes must be a number between 0 and 240. Received: ${durationMinutes}`);
+    }
+    for (const minutes of alarmMinutes) {
+        if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 0 || minutes > 1440) {
+            throw new RangeError(`alarmMinutes must contain integers between 0 and 1440. Received: ${minutes}`);
+        }
+    }
+    for (const name of options.events ?? []) {
+        if (!ICS_EVENT_NAMES.includes(name)) {
+            throw new RangeError(`events must contain only: ${ICS_EVENT_NAMES.join(', ')}. Received: ${name}`);
+        }
+    }
+
+    const { timeZone } = config;
+    const tzid = timeZone ? `;TZID=${timeZone}` : '';
+    const place = `${config.latitude.toFixed(4)}_${config.longitude.toFixed(4)}`;
+    const events: string[] = [];
+    let first = Infinity;
+    let last = -Infinity;
+
+    for (const day of days) {
+        if (!day) continue;
+        const fasting = isFastingTimes(day);
+        const names = options.events ?? (fasting ? ['imsak', 'maghrib'] : ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']);
+        const dateKey = `${day.date.getFullYear()}${pad(day.date.getMonth() + 1)}${pad(day.date.getDate())}`;
+
+        const notes: string[] = [];
+        if (day.hijriDate) notes.push(formatHijriDate(day.hijriDate));
+        if (day.highLatitudeFallbackApplied) notes.push('Estimated with the high-latitude rule.');
+
+        for (const name of names) {
+            const start = getEventTime(day, name);
+            if (!start) continue;
+            const end = new Date(start.getTime() + durationMinutes * 60000);
+            first = Math.min(first, start.getTime());
+            last = Math.max(last, end.getTime());
+
+            const summary = options.summaries?.[name] ?? (fasting ? FASTING_SUMMARIES : PRAYER_SUMMARIES)[name];
+            events.push(
+                'BEGIN:VEVENT',
+                `UID:${dateKey}-${name}-${place}@ramadan-timings`,
+                `DTSTAMP:${formatDateTime(timestamp)}Z`,
+                `DTSTART${tzid}:${formatTime(start, timeZone)}`,
+                `DTEND${tzid}:${formatTime(end, timeZone)}`,
+                `SUMMARY:${escapeText(summary)}`,
+                ...(notes.length ? [`DESCRIPTION:${escapeText(notes.join('\n'))}`] : []),
+                ...(options.location ? [`LOCATION:${escapeText(options.location)}`] : []),
+                `GEO:${config.latitude};${config.longitude}`,
+                'TRANSP:TRANSPARENT',
+            );
+            for (const minutes of alarmMinutes) {
+                events.push(
+                    'BEGIN:VALARM',
+                    'ACTION:DISPLAY',
+                    `DESCRIPTION:${escapeText(summary)}`,
+                    `TRIGGER:-PT${minutes}M`,
+                    'END:VALARM',
+                );
+            }
+            events.push('END:VEVENT');
+        }
+    }
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+        ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
+        ...(timeZone && events.length ? buildTimeZone(timeZone, first - 86400000, last + 86400000) : []),
+        ...events,
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
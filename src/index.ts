@@ -1,36 +1,137 @@
-import { getFajr, getSunrise, getSolarNoon, getAsr, getMaghrib, getIsha } from './astronomy';
+import {
+    getFajr, getSunrise, getSolarNoon, getAsr, getMaghrib, getIsha, localNoonToUTC, dateToJulianDate, NOAA_EPHEMERIS,
+    getHorizonDip, radToDeg,
+} from './astronomy';
+import type { SolverOptions } from './astronomy';
 import { validateConfig } from './validation';
-import type { RamadanCoreConfig, FastingTimes, PrayerTimes } from './types';
+import { resolveCalculationParameters } from './methods';
+import { gregorianToHijri, hijriToGregorian, getHijriMonthLength, RAMADAN } from './hijri';
+import type { HijriDate } from './hijri';
+import { getMoonDayInfo } from './moon';
+import { resolveEphemeris } from './ephemeris';
+import { getVoluntaryPrayerTimes, resolveVoluntaryPrayerSettings } from './voluntary';
+import { resolveTimezoneOffset, hasTimezoneTransition, getOffsetMinutesForTimezone } from './timezone';
+import type { RamadanCoreConfig, FastingTimes, PrayerTimes, PrayerAdjustments, RoundingPolicy, PolarInfo } from './types';
 
 // Re-export all public types
-export type { RamadanCoreConfig, FastingTimes, PrayerTimes, HighLatitudeMode } from './types';
+export type {
+    RamadanCoreConfig, FastingTimes, PrayerTimes, HighLatitudeMode, CalculationMethod, PrayerAdjustments, RoundingPolicy,
+    PolarStrategy, PolarInfo,
+} from './types';
 export { validateConfig } from './validation';
+export { CALCULATION_METHODS, resolveCalculationParameters, describeCalculationMethod } from './methods';
+export type { CalculationMethodPreset, CalculationParameters } from './methods';
+export {
+    gregorianToHijri, hijriToGregorian, getHijriMonthLength, formatHijriDate, HIJRI_MONTH_NAMES, RAMADAN,
+} from './hijri';
+export type { HijriCalendar, HijriDate } from './hijri';
+export {
+    getMoonPosition, getNewMoon, getCrescentVisibility, predictHijriMonthStart, predictRamadan,
+    getMoonIllumination, getMoonTimes,
+} from './moon';
+export type {
+    MoonPosition, CrescentCriterion, CrescentVisibility, MoonPhaseName, MoonIllumination, MoonTimes, MoonDayInfo,
+} from './moon';
+export { getOffsetMinutesForTimezone, resolveTimezoneOffset } from './timezone';
+export { getDeltaT, VSOP87_EPHEMERIS, EPHEMERIDES } from './ephemeris';
+export { VOLUNTARY_PRAYER_PRESETS, resolveVoluntaryPrayerSettings } from './voluntary';
+export type { VoluntaryPrayerSettings, ForbiddenWindow, ForbiddenWindowKind } from './voluntary';
+export { getNextPrayer, getCurrentPrayer, PRAYER_NAMES } from './countdown';
+export type { PrayerName, NextPrayer, CurrentPrayer } from './countdown';
+export { KAABA_LOCATION, getQibla, getQiblaSunAlignments } from './qibla';
+export type { Qibla, QiblaSunAlignment, QiblaSunAlignmentKind } from './qibla';
+export { createPrayerScheduler, SCHEDULE_EVENT_NAMES } from './scheduler';
+export type {
+    ScheduleEventName, ScheduledEvent, PrayerSchedulerEvent, PrayerSchedulerListener, PrayerSchedulerErrorHandler,
+    SchedulerClock, SchedulerTimers, PrayerSchedulerOptions, PrayerScheduler,
+} from './scheduler';
+export { toICalendar } from './ics';
+export type { IcsEventName, IcsOptions } from './ics';
+export { toCsv, toJson, toMarkdown } from './timetable';
+export type {
+    TimetableColumn, TimetableRowStatus, TimetableExportOptions, CsvExportOptions, TimetableJson, TimetableJsonDay,
+} from './timetable';
+export { renderHtmlCalendar } from './html';
+export type { HtmlCalendarOptions, HtmlCalendarLabel } from './html';
+export { createFormatter, PRAYER_NAME_DICTIONARY } from './format';
+export type { Formatter, FormatterLocale, FormatterOptions } from './format';
+export type { GazetteerCity, CitySearchOptions, CitySearchMatch } from './gazetteer';
+export { CITY_GAZETTEER, searchCities } from './cities';
+export { NOAA_EPHEMERIS } from './astronomy';
+export type { SolarEphemeris, SolarCoordinates } from './astronomy';
 export * from './city';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
+function addMinutes(date: Date, minutes: number): Date {
+    return new Date(date.getTime() + minutes * 60000);
+}
+
+/** Solver options (precision, ephemeris) for a config. */
+function getSolverOptions(config: RamadanCoreConfig): SolverOptions {
+    return { precise: config.precision === 'high', ephemeris: resolveEphemeris(config.ephemeris) };
+}
+
 /**
- * Builds a `Date` representing 12:00 PM **local** time in UTC.
- * E.g. if the local timezone is UTC+3 (180 min), local noon = 09:00 UTC.
+ * Rounds a time to the whole minute under `policy`. `safe` is the cautious
+ * direction for this particular time, used by the `'safe'` policy.
  */
-function localNoonToUTC(year: number, month: number, day: number, tzOffset: number): Date {
-    const noon = new Date(Date.UTC(year, month, day, 12, 0, 0, 0));
-    noon.setUTCMinutes(noon.getUTCMinutes() - tzOffset);
-    return noon;
+function roundTime(date: Date, policy: RoundingPolicy, safe: 'up' | 'down'): Date {
+    if (policy === 'none') return date;
+    const direction = policy === 'safe' ? safe : policy;
+    const round = direction === 'up' ? Math.ceil : direction === 'down' ? Math.floor : Math.round;
+    return new Date(round(date.getTime() / 60000) * 60000);
+}
+
+/** Cautious rounding direction of each prayer: never early for a start, never late for Fajr or sunrise. */
+const SAFE_ROUNDING: Readonly<Record<keyof PrayerAdjustments, 'up' | 'down'>> = {
+    fajr: 'down', sunrise: 'down', dhuhr: 'up', asr: 'up', maghrib: 'up', isha: 'up',
+};
+
+/** Applies the configured per-prayer adjustment (plus `extraMinutes`) and rounding to a time. */
+function adjustTime(date: Date, prayer: keyof PrayerAdjustments, config: RamadanCoreConfig, extraMinutes = 0): Date {
+    const shifted = addMinutes(date, (config.adjustments?.[prayer] ?? 0) + extraMinutes);
+    return roundTime(shifted, config.rounding ?? 'none', SAFE_ROUNDING[prayer]);
 }
 
+/** Mean Earth radius in metres, for the curvature drop of a distant horizon. */
+const EARTH_RADIUS_METERS = 6371000;
+
 /**
- * Format a UTC `Date` to a local `"HH:MM"` string given a timezone offset in minutes.
+ * Altitude in degrees of the visible horizon for sunrise and sunset: negative
+ * (a dip) for an observer above it, positive for a ridge or skyline above the
+ * observer. A higher horizon needs `horizonDistanceMeters` to become an angle.
+ */
+function getHorizonAltitude(config: RamadanCoreConfig): number {
+    if (config.horizonAltitudeDegrees != null) return config.horizonAltitudeDegrees;
+
+    const height = (config.elevationMeters ?? 0) - (config.horizonElevationMeters ?? 0);
+    if (height >= 0) return -getHorizonDip(height);
+
+    // validateConfig requires a distance for a horizon above the observer.
+    const distance = config.horizonDistanceMeters!;
+    return radToDeg(Math.atan(-height / distance) - distance / (2 * EARTH_RADIUS_METERS));
+}
+
+/**
+ * Format a UTC `Date` to a local `"HH:MM"` string given a timezone offset in minutes
+ * or an IANA time zone (resolved at that exact instant). Pass `withSeconds` for
+ * `"HH:MM:SS"`, e.g. with `precision: 'high'` results.
  *
  * ```ts
  * formatLocalTime(someUtcDate, 180); // → "05:24"
+ * formatLocalTime(someUtcDate, 'Europe/London'); // → "02:24"
+ * formatLocalTime(someUtcDate, 180, true); // → "05:24:07"
  * ```
  */
-export function formatLocalTime(date: Date, timezoneOffsetMinutes: number): string {
-    const local = new Date(date.getTime() + timezoneOffsetMinutes * 60000);
+export function formatLocalTime(date: Date, timezone: number | string, withSeconds = false): string {
+    const offset = typeof timezone === 'string' ? getOffsetMinutesForTimezone(timezone, date) : timezone;
+    const local = new Date(date.getTime() + offset * 60000);
     const hh = local.getUTCHours().toString().padStart(2, '0');
     const mm = local.getUTCMinutes().toString().padStart(2, '0');
-    return `${hh}:${mm}`;
+    if (!withSeconds) return `${hh}:${mm}`;
+    const ss = local.getUTCSeconds().toString().padStart(2, '0');
+    return `${hh}:${mm}:${ss}`;
 }
 
 /**
@@ -48,43 +149,76 @@ export function formatDuration(totalMinutes: number): string {
 
 /**
  * When true Fajr or Maghrib can't be computed (extreme latitudes), apply a
- * fallback. Returns adjusted { fajr, maghrib } or null if mode is 'none'.
+ * fallback. Returns adjusted { fajr, sunrise, maghrib, isha } or null if mode is 'none'.
  */
 function applyHighLatitudeFallback(
     date: Date,
     config: RamadanCoreConfig,
+    tz: number,
     sunrise: Date | null,
     sunset: Date | null,
-): { fajr: Date; maghrib: Date; isha: Date } | null {
+): { fajr: Date; sunrise: Date; maghrib: Date; isha: Date; sourceDate?: Date } | null {
     const mode = config.highLatitudeMode ?? 'none';
     if (mode === 'none') return null;
 
-    const { latitude, longitude, timezoneOffsetMinutes: tz, fajrTwilightAngle = 18, ishaTwilightAngle = 18 } = config;
+    const { latitude, longitude } = config;
+    const { fajrTwilightAngle, ishaTwilightAngle } = resolveCalculationParameters(config);
     const year = date.getFullYear();
     const month = date.getMonth();
     const day = date.getDate();
     const noonUTC = localNoonToUTC(year, month, day, tz);
 
-    // We need sunrise and sunset for all fallback methods.
+    const horizon = getHorizonAltitude(config);
+    const solver = getSolverOptions(config);
+
+    if (mode === 'nearest-day') return findNearestNormalDay(date, config, noonUTC);
+
+    if (mode === 'nearest-latitude') {
+        // Same longitude and time zone, at the reference latitude of the observer's hemisphere
+        const reference = (latitude < 0 ? -1 : 1) * (config.highLatitudeReferenceLatitude ?? 45);
+        const refFajr = getFajr(noonUTC, reference, longitude, tz, fajrTwilightAngle, solver);
+        const refSunrise = getSunrise(noonUTC, reference, longitude, tz, horizon, solver);
+        const refSunset = getMaghrib(noonUTC, reference, longitude, tz, horizon, solver);
+        const refIsha = getIsha(noonUTC, reference, longitude, tz, ishaTwilightAngle, solver);
+
+        // Keep the observer's own sunrise/sunset where they exist and carry over the
+        // reference twilight durations, so Fajr stays before sunrise and Isha after Maghrib.
+        const sr = sunrise ?? refSunrise;
+        const ss = sunset ?? refSunset;
+        if (!sr || !ss) return null;
+
+        // Where twilight lasts all night at the reference too, use one-seventh of the observer's night.
+        const seventhMs = (sr.getTime() + 86400000 - ss.getTime()) / 7;
+        const fajrMs = refFajr && refSunrise ? refSunrise.getTime() - refFajr.getTime() : seventhMs;
+        const ishaMs = refIsha && refSunset ? refIsha.getTime() - refSunset.getTime() : seventhMs;
+        return {
+            fajr: new Date(sr.getTime() - fajrMs),
+            sunrise: sr,
+            maghrib: ss,
+            isha: new Date(ss.getTime() + ishaMs),
+        };
+    }
+
+    // The remaining methods divide the night, so they need sunrise and sunset.
     // If even sunrise/sunset are null (e.g. midnight sun), we can't help.
-    const sr = sunrise ?? getSunrise(noonUTC, latitude, longitude, tz);
-    const ss = sunset ?? getMaghrib(noonUTC, latitude, longitude, tz);
+    const sr = sunrise ?? getSunrise(noonUTC, latitude, longitude, tz, horizon, solver);
+    const ss = sunset ?? getMaghrib(noonUTC, latitude, longitude, tz, horizon, solver);
     if (!sr || !ss) return null;
 
     const nightDurationMs = sr.getTime() + 86400000 - ss.getTime(); // from sunset to next sunrise
 
     if (mode === 'middle-of-night') {
-        // Fajr = sunset + nightDuration / 2
-        const fajr = new Date(ss.getTime() + nightDurationMs / 2);
-        const isha = new Date(ss.getTime() + nightDurationMs / 2); // Isha & Fajr same time in middle-of-night
-        return { fajr, maghrib: ss, isha };
+        // Fajr = sunrise - nightDuration / 2 (the middle of the preceding night); Isha = mirror
+        const fajr = new Date(sr.getTime() - nightDurationMs / 2);
+        const isha = new Date(ss.getTime() + nightDurationMs / 2);
+        return { fajr, sunrise: sr, maghrib: ss, isha };
     }
 
     if (mode === 'one-seventh') {
         // Fajr = sunrise - (1/7 of night)
         const fajr = new Date(sr.getTime() - nightDurationMs / 7);
         const isha = new Date(ss.getTime() + nightDurationMs / 7);
-        return { fajr, maghrib: ss, isha };
+        return { fajr, sunrise: sr, maghrib: ss, isha };
     }
 
     if (mode === 'angle-based') {
@@ -95,12 +229,143 @@ function applyHighLatitudeFallback(
         const ishaProportion = ishaTwilightAngle / 60;
         const isha = new Date(ss.getTime() + ishaProportion * nightDurationMs);
 
-        return { fajr, maghrib: ss, isha };
+        return { fajr, sunrise: sr, maghrib: ss, isha };
     }
 
     return null;
 }
 
+/**
+ * Whether `highLatitudeMode` also bounds Fajr/Isha on days when they exist, i.e.
+ * `highLatitudeClampLatitude` is set and reached. `'nearest-day'` only ever
+ * replaces missing times.
+ */
+function isHighLatitudeClampActive(config: RamadanCoreConfig): boolean {
+    const mode = config.highLatitudeMode ?? 'none';
+    return config.highLatitudeClampLatitude != null
+        && Math.abs(config.latitude) >= config.highLatitudeClampLatitude
+        && mode !== 'none' && mode !== 'nearest-day';
+}
+
+/** How far the nearest-day search looks in either direction. */
+const NEAREST_DAY_SEARCH_LIMIT = 183;
+
+/**
+ * Finds the closest day (earlier on ties) on which Fajr, sunrise, Maghrib and
+ * Isha all occur at the observer's location, and returns its times at the same
+ * local clock times on the requested day. Interval-based Isha is not searched
+ * for: it is the borrowed Maghrib plus the requested day's interval.
+ */
+function findNearestNormalDay(
+    date: Date, config: RamadanCoreConfig, noonUTC: Date,
+): { fajr: Date; sunrise: Date; maghrib: Date; isha: Date; sourceDate: Date } | null {
+    const { latitude, longitude } = config;
+    const { fajrTwilightAngle, ishaTwilightAngle } = resolveCalculationParameters(config);
+    const ishaIntervalMinutes = getIshaIntervalMinutes(config, config.hijriCalendar && gregorianToHijri(date, config.hijriCalendar));
+    const horizon = getHorizonAltitude(config);
+    const solver = getSolverOptions(config);
+
+    for (let distance = 1; distance <= NEAREST_DAY_SEARCH_LIMIT; distance++) {
+        for (const direction of [-1, 1]) {
+            const source = new Date(date.getFullYear(), date.getMonth(), date.getDate() + direction * distance);
+            const tz = resolveTimezoneOffset(source, config);
+            const sourceNoon = localNoonToUTC(source.getFullYear(), source.getMonth(), source.getDate(), tz);
+
+            const fajr = getFajr(sourceNoon, latitude, longitude, tz, fajrTwilightAngle, solver);
+            const sunrise = getSunrise(sourceNoon, latitude, longitude, tz, horizon, solver);
+            const maghrib = getMaghrib(sourceNoon, latitude, longitude, tz, horizon, solver);
+            const isha = ishaIntervalMinutes != null
+                ? maghrib && addMinutes(maghrib, ishaIntervalMinutes)
+                : getIsha(sourceNoon, latitude, longitude, tz, ishaTwilightAngle, solver);
+            if (!fajr || !sunrise || !maghrib || !isha) continue;
+
+            // Same offset from local noon = same wall-clock time on the requested day
+            const onRequestedDay = (t: Date) => new Date(noonUTC.getTime() + (t.getTime() - sourceNoon.getTime()));
+            return {
+                fajr: onRequestedDay(fajr),
+                sunrise: onRequestedDay(sunrise),
+                maghrib: onRequestedDay(maghrib),
+                isha: onRequestedDay(isha),
+                sourceDate: source,
+            };
+        }
+    }
+
+    return null;
+}
+
+// ── Polar days ───────────────────────────────────────────────────────────────
+
+const MECCA_LOCATION = { latitude: 21.4225, longitude: 39.8262 };
+
+/** Latitude step of the `'nearest-latitude'` polar search, in degrees. */
+const POLAR_LATITUDE_STEP = 0.5;
+
+/**
+ * On a day without sunrise or sunset, takes the times of the `polarStrategy`
+ * reference location and centres them on the observer's own solar noon, so the
+ * reference's durations are kept in the observer's time zone. Where Fajr/Isha
+ * don't occur at the reference either, `highLatitudeMode` is applied there;
+ * they are `null` only if that gives nothing.
+ */
+function applyPolarStrategy(
+    date: Date,
+    config: RamadanCoreConfig,
+    tz: number,
+    noonUTC: Date,
+    solarNoon: Date,
+): { fajr: Date | null; sunrise: Date; maghrib: Date; isha: Date | null; polar: PolarInfo } | null {
+    const strategy = config.polarStrategy ?? 'none';
+    if (strategy === 'none') return null;
+
+    const { latitude, longitude } = config;
+    const { fajrTwilightAngle, ishaTwilightAngle } = resolveCalculationParameters(config);
+    const horizon = getHorizonAltitude(config);
+    const solver = getSolverOptions(config);
+
+    let reference = strategy === 'mecca' ? MECCA_LOCATION : config.polarReferenceLocation!;
+    if (strategy === 'nearest-latitude') {
+        // Step towards the equator until the sun both rises and sets
+        const step = (latitude < 0 ? -1 : 1) * POLAR_LATITUDE_STEP;
+        let lat = latitude;
+        while (Math.abs(lat) > POLAR_LATITUDE_STEP
+            && (!getSunrise(noonUTC, lat, longitude, tz, horizon, solver) || !getMaghrib(noonUTC, lat, longitude, tz, horizon, solver))) {
+            lat -= step;
+        }
+        reference = { latitude: lat, longitude };
+    }
+
+    const sunrise = getSunrise(noonUTC, reference.latitude, reference.longitude, tz, horizon, solver);
+    const maghrib = getMaghrib(noonUTC, reference.latitude, reference.longitude, tz, horizon, solver);
+    if (!sunrise || !maghrib) return null;
+    let fajr = getFajr(noonUTC, reference.latitude, reference.longitude, tz, fajrTwilightAngle, solver);
+    let isha = getIsha(noonUTC, reference.latitude, reference.longitude, tz, ishaTwilightAngle, solver);
+
+    // Twilight that lasts all night at the reference too: the high-latitude mode, applied there
+    if (!fajr || !isha) {
+        const referenceConfig = { ...config, latitude: reference.latitude, longitude: reference.longitude };
+        const fallback = applyHighLatitudeFallback(date, referenceConfig, tz, sunrise, maghrib);
+        fajr = fajr ?? fallback?.fajr ?? null;
+        isha = isha ?? fallback?.isha ?? null;
+    }
+
+    const shiftMs = solarNoon.getTime() - getSolarNoon(noonUTC, reference.latitude, reference.longitude, tz, solver).getTime();
+    const shift = (t: Date) => new Date(t.getTime() + shiftMs);
+
+    // The sun's altitude at noon tells midnight sun from polar night
+    const ephemeris = solver.ephemeris ?? NOAA_EPHEMERIS;
+    const { declination } = ephemeris.getSolarCoordinates(dateToJulianDate(solarNoon));
+    const condition = 90 - Math.abs(latitude - declination) > 0 ? 'midnight-sun' : 'polar-night';
+
+    return {
+        fajr: fajr && shift(fajr),
+        sunrise: shift(sunrise),
+        maghrib: shift(maghrib),
+        isha: isha && shift(isha),
+        polar: { condition, strategy, referenceLatitude: reference.latitude, referenceLongitude: reference.longitude },
+    };
+}
+
 // ── Main API ─────────────────────────────────────────────────────────────────
 
 /**
@@ -118,82 +383,219 @@ export function getDayFastingTimes(date: Date, config: RamadanCoreConfig): Fasti
     validateConfig(config);
 
     const {
-        latitude, longitude, timezoneOffsetMinutes: tz,
+        latitude, longitude,
         imsakMarginMinutes = 0,
         maghribDelayMinutes = 0,
-        fajrTwilightAngle = 18,
     } = config;
+    const tz = resolveTimezoneOffset(date, config);
+    const { fajrTwilightAngle } = resolveCalculationParameters(config);
 
     const year = date.getFullYear();
     const month = date.getMonth();
     const day = date.getDate();
     const noonUTC = localNoonToUTC(year, month, day, tz);
 
-    let fajrRaw = getFajr(noonUTC, latitude, longitude, tz, fajrTwilightAngle);
-    let maghribRaw = getMaghrib(noonUTC, latitude, longitude, tz);
-    const sunriseRaw = getSunrise(noonUTC, latitude, longitude, tz);
-    const solarNoon = getSolarNoon(noonUTC, latitude, longitude, tz);
+    const horizon = getHorizonAltitude(config);
+    const solver = getSolverOptions(config);
+
+    let fajrRaw = getFajr(noonUTC, latitude, longitude, tz, fajrTwilightAngle, solver);
+    let maghribRaw = getMaghrib(noonUTC, latitude, longitude, tz, horizon, solver);
+    let sunriseRaw = getSunrise(noonUTC, latitude, longitude, tz, horizon, solver);
+    const solarNoon = getSolarNoon(noonUTC, latitude, longitude, tz, solver);
 
     let highLatFallback = false;
+    let highLatSourceDate: Date | undefined;
+    let polar: PolarInfo | undefined;
+
+    if (!sunriseRaw || !maghribRaw) {
+        const polarTimes = applyPolarStrategy(date, config, tz, noonUTC, solarNoon);
+        if (polarTimes) {
+            fajrRaw = polarTimes.fajr;
+            sunriseRaw = polarTimes.sunrise;
+            maghribRaw = polarTimes.maghrib;
+            polar = polarTimes.polar;
+            highLatFallback = true;
+        }
+    }
 
     if (!fajrRaw || !maghribRaw) {
-        const fallback = applyHighLatitudeFallback(date, config, sunriseRaw, maghribRaw);
+        const fallback = applyHighLatitudeFallback(date, config, tz, sunriseRaw, maghribRaw);
         if (!fallback) return null;
         fajrRaw = fajrRaw ?? fallback.fajr;
+        sunriseRaw = sunriseRaw ?? fallback.sunrise;
         maghribRaw = maghribRaw ?? fallback.maghrib;
         highLatFallback = true;
+        highLatSourceDate = fallback.sourceDate;
+    }
+
+    // Used as a bound, the fallback moves Fajr no earlier than the mode allows.
+    if (isHighLatitudeClampActive(config) && sunriseRaw) {
+        const bound = applyHighLatitudeFallback(date, config, tz, sunriseRaw, maghribRaw);
+        if (bound && bound.fajr.getTime() > fajrRaw.getTime()) {
+            fajrRaw = bound.fajr;
+            highLatFallback = true;
+        }
     }
 
     // If sunrise is null but we got fajr/maghrib (edge case), approximate sunrise
     const sunrise = sunriseRaw ?? new Date(fajrRaw.getTime() + 90 * 60000); // ~90 min after Fajr as rough estimate
 
-    const fajr = new Date(fajrRaw.getTime());
-    const imsak = new Date(fajrRaw.getTime() - imsakMarginMinutes * 60000);
-    const maghrib = new Date(maghribRaw.getTime() + maghribDelayMinutes * 60000);
+    const fajr = adjustTime(fajrRaw, 'fajr', config);
+    const imsak = adjustTime(fajrRaw, 'fajr', config, -imsakMarginMinutes);
+    const maghrib = adjustTime(maghribRaw, 'maghrib', config, maghribDelayMinutes);
 
     return {
         date,
         fajr,
         imsak,
-        sunrise,
-        solarNoon,
+        sunrise: adjustTime(sunrise, 'sunrise', config),
+        solarNoon: adjustTime(solarNoon, 'dhuhr', config),
         maghrib,
         fastingDurationMinutes: Math.round((maghrib.getTime() - fajr.getTime()) / 60000),
+        timezoneOffsetMinutes: tz,
+        dstTransition: config.timeZone ? hasTimezoneTransition(date, config.timeZone) : false,
         highLatitudeFallbackApplied: highLatFallback,
+        ...(highLatSourceDate && { highLatitudeSourceDate: highLatSourceDate }),
+        ...(polar && { polar }),
+        ...(config.hijriCalendar && { hijriDate: gregorianToHijri(date, config.hijriCalendar) }),
+        ...(config.includeMoon && { moon: getMoonDayInfo(noonUTC, latitude, longitude, maghribRaw) }),
     };
 }
 
 /**
  * Calculates core prayer times (Fajr, Sunrise, Dhuhr, Maghrib) for a single day.
  *
- * A broader-utility function beyond fasting. Does not include imsak or delay margins.
+ * A broader-utility function beyond fasting. Does not include imsak or delay margins,
+ * but applies `adjustments` and `rounding`. The night times (`midnight`, `lastThirdOfNight`) run from this day's Maghrib to
+ * the *next* day's Fajr and sunrise.
  */
 export function getDayPrayerTimes(date: Date, config: RamadanCoreConfig): PrayerTimes | null {
     validateConfig(config);
 
-    const { latitude, longitude, timezoneOffsetMinutes: tz, fajrTwilightAngle = 18, ishaTwilightAngle = 18, asrMethod = 'standard' } = config;
+    const times = computeDayPrayerTimes(date, config);
+    if (!times) return null;
+
+    // The next day's Fajr/sunrise may itself need a fallback; if even that fails,
+    // assume the same times 24 hours later.
+    const next = computeDayPrayerTimes(
+        new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1),
+        { ...config, includeMoon: false },
+    );
+    const nextFajr = next?.fajr ?? addMinutes(times.fajr, 1440);
+    const nextSunrise = next?.sunrise ?? addMinutes(times.sunrise, 1440);
+
+    const maghribMs = times.maghrib.getTime();
+    const nightMs = nextFajr.getTime() - maghribMs;
+
+    const noonUTC = localNoonToUTC(date.getFullYear(), date.getMonth(), date.getDate(), times.timezoneOffsetMinutes);
+    const voluntary = getVoluntaryPrayerTimes(
+        noonUTC, config.latitude, config.longitude, times.timezoneOffsetMinutes,
+        times, resolveVoluntaryPrayerSettings(config), getSolverOptions(config),
+    );
+
+    // Adjustments apply to the six prayers; derived times come from the
+    // astronomical ones and are only rounded. Interval Isha follows the
+    // adjusted Maghrib, then takes its own adjustment.
+    const rounding = config.rounding ?? 'none';
+    const ishaShift = getIshaIntervalMinutes(config, times.hijriDate) != null ? config.adjustments?.maghrib ?? 0 : 0;
+    return {
+        ...times,
+        fajr: adjustTime(times.fajr, 'fajr', config),
+        sunrise: adjustTime(times.sunrise, 'sunrise', config),
+        dhuhr: adjustTime(times.dhuhr, 'dhuhr', config),
+        asr: adjustTime(times.asr, 'asr', config),
+        maghrib: adjustTime(times.maghrib, 'maghrib', config),
+        isha: adjustTime(times.isha, 'isha', config, ishaShift),
+        midnight: roundTime(new Date(maghribMs + nightMs / 2), rounding, 'down'),
+        midnightSunrise: roundTime(new Date(maghribMs + (nextSunrise.getTime() - maghribMs) / 2), rounding, 'down'),
+        lastThirdOfNight: roundTime(new Date(maghribMs + (nightMs * 2) / 3), rounding, 'up'),
+        forbiddenWindows: voluntary.forbiddenWindows.map(w => ({
+            kind: w.kind,
+            start: roundTime(w.start, rounding, 'down'),
+            end: roundTime(w.end, rounding, 'up'),
+        })),
+        ishraq: roundTime(voluntary.ishraq, rounding, 'up'),
+        duha: roundTime(voluntary.duha, rounding, 'up'),
+    };
+}
+
+/** Minutes from Maghrib to Isha on a day with interval-based Isha, or `undefined` when Isha is angle-based. */
+function getIshaIntervalMinutes(config: RamadanCoreConfig, hijriDate: HijriDate | undefined): number | undefined {
+    const params = resolveCalculationParameters(config);
+    const isRamadan = config.isRamadan ?? hijriDate?.month === RAMADAN;
+    return isRamadan
+        ? params.ishaIntervalMinutesRamadan ?? params.ishaIntervalMinutes
+        : params.ishaIntervalMinutes;
+}
+
+/** Prayer times of a single day, without the night times that depend on the next day. */
+function computeDayPrayerTimes(
+    date: Date, config: RamadanCoreConfig,
+): Omit<PrayerTimes, 'midnight' | 'midnightSunrise' | 'lastThirdOfNight' | 'forbiddenWindows' | 'ishraq' | 'duha'> | null {
+    const { latitude, longitude, hijriCalendar } = config;
+    const tz = resolveTimezoneOffset(date, config);
+    const hijriDate = hijriCalendar ? gregorianToHijri(date, hijriCalendar) : undefined;
+    const { fajrTwilightAngle, ishaTwilightAngle, asrMethod } = resolveCalculationParameters(config);
+    const ishaIntervalMinutes = getIshaIntervalMinutes(config, hijriDate);
     const year = date.getFullYear();
     const month = date.getMonth();
     const day = date.getDate();
     const noonUTC = localNoonToUTC(year, month, day, tz);
 
-    let fajrRaw = getFajr(noonUTC, latitude, longitude, tz, fajrTwilightAngle);
-    const sunriseRaw = getSunrise(noonUTC, latitude, longitude, tz);
-    const dhuhrRaw = getSolarNoon(noonUTC, latitude, longitude, tz);
-    const asrRaw = getAsr(noonUTC, latitude, longitude, tz, asrMethod);
-    let maghribRaw = getMaghrib(noonUTC, latitude, longitude, tz);
-    let ishaRaw = getIsha(noonUTC, latitude, longitude, tz, ishaTwilightAngle);
+    const horizon = getHorizonAltitude(config);
+    const solver = getSolverOptions(config);
+
+    let fajrRaw = getFajr(noonUTC, latitude, longitude, tz, fajrTwilightAngle, solver);
+    let sunriseRaw = getSunrise(noonUTC, latitude, longitude, tz, horizon, solver);
+    const dhuhrRaw = getSolarNoon(noonUTC, latitude, longitude, tz, solver);
+    const asrRaw = getAsr(noonUTC, latitude, longitude, tz, asrMethod, solver);
+    let maghribRaw = getMaghrib(noonUTC, latitude, longitude, tz, horizon, solver);
+    // Interval-based methods (e.g. Umm al-Qura) define Isha relative to Maghrib.
+    let ishaRaw = ishaIntervalMinutes != null
+        ? (maghribRaw && addMinutes(maghribRaw, ishaIntervalMinutes))
+        : getIsha(noonUTC, latitude, longitude, tz, ishaTwilightAngle, solver);
 
     let highLatFallback = false;
+    let highLatSourceDate: Date | undefined;
+    let polar: PolarInfo | undefined;
+
+    if (!sunriseRaw || !maghribRaw) {
+        const polarTimes = applyPolarStrategy(date, config, tz, noonUTC, dhuhrRaw);
+        if (polarTimes) {
+            fajrRaw = polarTimes.fajr;
+            sunriseRaw = polarTimes.sunrise;
+            maghribRaw = polarTimes.maghrib;
+            ishaRaw = ishaIntervalMinutes != null
+                ? addMinutes(maghribRaw, ishaIntervalMinutes)
+                : polarTimes.isha;
+            polar = polarTimes.polar;
+            highLatFallback = true;
+        }
+    }
 
     if (!fajrRaw || !maghribRaw || !ishaRaw) {
         // any missing calculation triggers fallback if possible
-        const fallback = applyHighLatitudeFallback(date, config, sunriseRaw, maghribRaw);
+        const fallback = applyHighLatitudeFallback(date, config, tz, sunriseRaw, maghribRaw);
         if (!fallback) return null;
         fajrRaw = fajrRaw ?? fallback.fajr;
+        sunriseRaw = sunriseRaw ?? fallback.sunrise;
         maghribRaw = maghribRaw ?? fallback.maghrib;
-        ishaRaw = ishaRaw ?? fallback.isha;
+        ishaRaw = ishaRaw ?? (ishaIntervalMinutes != null ? addMinutes(maghribRaw, ishaIntervalMinutes) : fallback.isha);
         highLatFallback = true;
+        highLatSourceDate = fallback.sourceDate;
+    }
+
+    // Used as a bound, the fallback keeps Fajr and angle-based Isha within the mode's night portion.
+    if (isHighLatitudeClampActive(config) && sunriseRaw) {
+        const bound = applyHighLatitudeFallback(date, config, tz, sunriseRaw, maghribRaw);
+        if (bound && bound.fajr.getTime() > fajrRaw.getTime()) {
+            fajrRaw = bound.fajr;
+            highLatFallback = true;
+        }
+        if (bound && ishaIntervalMinutes == null && bound.isha.getTime() < ishaRaw!.getTime()) {
+            ishaRaw = bound.isha;
+            highLatFallback = true;
+        }
     }
 
     const sunrise = sunriseRaw ?? new Date(fajrRaw.getTime() + 90 * 60000);
@@ -208,7 +610,13 @@ export function getDayPrayerTimes(date: Date, config: RamadanCoreConfig): Prayer
         asr,
         maghrib: new Date(maghribRaw.getTime()),
         isha: new Date(ishaRaw!.getTime()),
+        timezoneOffsetMinutes: tz,
+        dstTransition: config.timeZone ? hasTimezoneTransition(date, config.timeZone) : false,
         highLatitudeFallbackApplied: highLatFallback,
+        ...(highLatSourceDate && { highLatitudeSourceDate: highLatSourceDate }),
+        ...(polar && { polar }),
+        ...(hijriDate && { hijriDate }),
+        ...(config.includeMoon && { moon: getMoonDayInfo(noonUTC, latitude, longitude, maghribRaw) }),
     };
 }
 
@@ -235,3 +643,47 @@ export function getRamadanFastingTimes(
 
     return results;
 }
+
+/**
+ * Calculates prayer times for every day in a date range. Days without times
+ * are `null`, as in `getRamadanFastingTimes`.
+ *
+ * @param startDate  First day inclusive.
+ * @param endDate    Last day inclusive.
+ * @param config     Location & calculation options.
+ */
+export function getPrayerTimesRange(
+    startDate: Date, endDate: Date, config: RamadanCoreConfig,
+): (PrayerTimes | null)[] {
+    validateConfig(config);
+
+    const results: (PrayerTimes | null)[] = [];
+    const current = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate(), 12);
+    const endMs = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate(), 12).getTime();
+
+    while (current.getTime() <= endMs) {
+        results.push(getDayPrayerTimes(new Date(current.getTime()), config));
+        current.setDate(current.getDate() + 1);
+    }
+
+    return results;
+}
+
+/**
+ * Calculates fasting times for every day of Ramadan in a given Hijri year.
+ *
+ * The month boundaries come from `config.hijriCalendar` (default: `'umm-al-qura'`),
+ * and every entry carries its `hijriDate`.
+ *
+ * ```ts
+ * getRamadanFastingTimesForHijriYear(1448, config); // 1 Ramadan 1448 → 29/30 Ramadan 1448
+ * ```
+ */
+export function getRamadanFastingTimesForHijriYear(
+    hijriYear: number, config: RamadanCoreConfig,
+): (FastingTimes | null)[] {
+    const calendar = config.hijriCalendar ?? 'umm-al-qura';
+    const start = hijriToGregorian(hijriYear, RAMADAN, 1, calendar);
+    const end = hijriToGregorian(hijriYear, RAMADAN, getHijriMonthLength(hijriYear, RAMADAN, calendar), calendar);
+    return getRamadanFastingTimes(start, end, { ...config, hijriCalendar: calendar });
+}
@@ -0,0 +1,111 @@
+import type { RamadanCoreConfig, CalculationMethod } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Named calculation-method presets.
+//
+// Each preset captures the twilight parameters published by a well-known
+// authority. Explicit fields on `RamadanCoreConfig` always override the preset.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CalculationMethodPreset {
+    /** Identifier used in `RamadanCoreConfig.method`. */
+    id: CalculationMethod;
+    /** Human-readable name of the authority. */
+    name: string;
+    /** Degrees below the horizon that defines Fajr. */
+    fajrTwilightAngle: number;
+    /** Degrees below the horizon that defines Isha (angle-based methods). */
+    ishaTwilightAngle?: number;
+    /** Isha as a fixed number of minutes after Maghrib (interval-based methods). */
+    ishaIntervalMinutes?: number;
+    /** Interval used instead of `ishaIntervalMinutes` during Ramadan. */
+    ishaIntervalMinutesRamadan?: number;
+    /**
+     * Published Maghrib angle, for reference only. It is not applied: Maghrib is
+     * always sunset plus `maghribDelayMinutes`.
+     */
+    maghribTwilightAngle?: number;
+}
+
+/**
+ * Registry of supported calculation methods, keyed by `CalculationMethod`.
+ */
+export const CALCULATION_METHODS: Readonly<Record<CalculationMethod, CalculationMethodPreset>> = {
+    'mwl': { id: 'mwl', name: 'Muslim World League', fajrTwilightAngle: 18, ishaTwilightAngle: 17 },
+    'isna': { id: 'isna', name: 'Islamic Society of North America', fajrTwilightAngle: 15, ishaTwilightAngle: 15 },
+    'egyptian': { id: 'egyptian', name: 'Egyptian General Authority of Survey', fajrTwilightAngle: 19.5, ishaTwilightAngle: 17.5 },
+    'umm-al-qura': { id: 'umm-al-qura', name: 'Umm al-Qura', fajrTwilightAngle: 18.5, ishaIntervalMinutes: 90, ishaIntervalMinutesRamadan: 120 },
+    'karachi': { id: 'karachi', name: 'University of Islamic Sciences, Karachi', fajrTwilightAngle: 18, ishaTwilightAngle: 18 },
+    'tehran': { id: 'tehran', name: 'Institute of Geophysics, University of Tehran', fajrTwilightAngle: 17.7, ishaTwilightAngle: 14, maghribTwilightAngle: 4.5 },
+    'diyanet': { id: 'diyanet', name: 'Diyanet İşleri Başkanlığı (Turkey)', fajrTwilightAngle: 18, ishaTwilightAngle: 17 },
+    'jakim': { id: 'jakim', name: 'JAKIM (Malaysia)', fajrTwilightAngle: 20, ishaTwilightAngle: 18 },
+    'muis': { id: 'muis', name: 'MUIS (Singapore)', fajrTwilightAngle: 20, ishaTwilightAngle: 18 },
+    'kemenag': { id: 'kemenag', name: 'Kemenag (Indonesia)', fajrTwilightAngle: 20, ishaTwilightAngle: 18 },
+    'kuwait': { id: 'kuwait', name: 'Kuwait', fajrTwilightAngle: 18, ishaTwilightAngle: 17.5 },
+    'qatar': { id: 'qatar', name: 'Qatar', fajrTwilightAngle: 18, ishaIntervalMinutes: 90 },
+    'dubai': { id: 'dubai', name: 'Dubai (UAE)', fajrTwilightAngle: 18.2, ishaTwilightAngle: 18.2 },
+    'uoif': { id: 'uoif', name: 'Union des Organisations Islamiques de France', fajrTwilightAngle: 12, ishaTwilightAngle: 12 },
+};
+
+/**
+ * The fully-resolved calculation parameters actually used for a config.
+ */
+export interface CalculationParameters {
+    /** The preset the parameters were derived from, if any. */
+    method?: CalculationMethod;
+    fajrTwilightAngle: number;
+    ishaTwilightAngle: number;
+    /** When set, Isha is this many minutes after Maghrib instead of angle-based. */
+    ishaIntervalMinutes?: number;
+    /** Interval used instead of `ishaIntervalMinutes` on Ramadan days. */
+    ishaIntervalMinutesRamadan?: number;
+    asrMethod: 'standard' | 'hanafi';
+}
+
+/**
+ * Resolves the parameters used for a config: library defaults, then the
+ * `method` preset, then explicit per-field overrides.
+ *
+ * An explicit `ishaTwilightAngle` disables a preset's interval-based Isha, and an
+ * explicit `ishaIntervalMinutes` replaces a preset's angle-based Isha.
+ */
+export function resolveCalculationParameters(config: RamadanCoreConfig): CalculationParameters {
+    const preset = config.method ? CALCULATION_METHODS[config.method] : undefined;
+
+    const fajrTwilightAngle = config.fajrTwilightAngle ?? preset?.fajrTwilightAngle ?? 18;
+    const ishaTwilightAngle = config.ishaTwilightAngle ?? preset?.ishaTwilightAngle ?? 18;
+
+    let ishaIntervalMinutes: number | undefined;
+    let ishaIntervalMinutesRamadan: number | undefined;
+    if (config.ishaIntervalMinutes != null || config.ishaIntervalMinutesRamadan != null) {
+        ishaIntervalMinutes = config.ishaIntervalMinutes ?? preset?.ishaIntervalMinutes;
+        ishaIntervalMinutesRamadan = config.ishaIntervalMinutesRamadan;
+    } else if (config.ishaTwilightAngle == null) {
+        ishaIntervalMinutes = preset?.ishaIntervalMinutes;
+        ishaIntervalMinutesRamadan = preset?.ishaIntervalMinutesRamadan;
+    }
+
+    return {
+        method: preset?.id,
+        fajrTwilightAngle,
+        ishaTwilightAngle,
+        ...(ishaIntervalMinutes != null && { ishaIntervalMinutes }),
+        ...(ishaIntervalMinutesRamadan != null && { ishaIntervalMinutesRamadan }),
+        asrMethod: config.asrMethod ?? 'standard',
+    };
+}
+
+/**
+ * Returns a short label describing a method, e.g. `"Umm al-Qura: Fajr 18.5°, Isha 90 min"`.
+ * A published Maghrib angle is listed as not applied.
+ */
+export function describeCalculationMethod(method: CalculationMethod): string {
+    const preset = CALCULATION_METHODS[method];
+    const isha = preset.ishaIntervalMinutes != null
+        ? `${preset.ishaIntervalMinutes} min`
+        : `${preset.ishaTwilightAngle}°`;
+    const maghrib = preset.maghribTwilightAngle != null
+        ? ` (Maghrib ${preset.maghribTwilightAngle}° not applied)`
+        : '';
+    return `${preset.name}: Fajr ${preset.fajrTwilightAngle}°, Isha ${isha}${maghrib}`;
+}
@@ -0,0 +1,611 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Lunar position, conjunction (new moon) and crescent-visibility prediction.
+//
+// Lunar coordinates use the principal periodic terms of Meeus, "Astronomical
+// Algorithms" ch. 47 (±0.01° in longitude), and conjunctions use ch. 49.
+// Visibility follows the published criteria of Yallop (1997), Odeh (2004) and
+// the Umm al-Qura "moon sets after the sun" rule.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    calcTimeJulianCent, dateToJulianDate, degToRad, radToDeg, normalizeDegrees,
+    getSolarCoordinates, getGreenwichSiderealTime, getMaghrib, localNoonToUTC,
+} from './astronomy';
+import { getDeltaT } from './ephemeris';
+import { hijriToGregorian, RAMADAN } from './hijri';
+import { resolveTimezoneOffset, getOffsetMinutesForTimezone } from './timezone';
+import type { RamadanCoreConfig } from './types';
+
+// ── Lunar coordinates ────────────────────────────────────────────────────────
+
+export interface MoonPosition {
+    /** Apparent geocentric ecliptic longitude in degrees. */
+    eclipticLongitude: number;
+    /** Geocentric ecliptic latitude in degrees. */
+    eclipticLatitude: number;
+    /** Apparent right ascension in degrees. */
+    rightAscension: number;
+    /** Apparent declination in degrees. */
+    declination: number;
+    /** Earth–Moon distance in kilometres. */
+    distanceKm: number;
+    /** Equatorial horizontal parallax in degrees. */
+    parallax: number;
+}
+
+/** Periodic terms: [D, M, M', F, Σl (1e-6°), Σr (1e-3 km)]. */
+const LONGITUDE_DISTANCE_TERMS: readonly (readonly number[])[] = [
+    [0, 0, 1, 0, 6288774, -20905355],
+    [2, 0, -1, 0, 1274027, -3699111],
+    [2, 0, 0, 0, 658314, -2955968],
+    [0, 0, 2, 0, 213618, -569925],
+    [0, 1, 0, 0, -185116, 48888],
+    [0, 0, 0, 2, -114332, -3149],
+    [2, 0, -2, 0, 58793, 246158],
+    [2, -1, -1, 0, 57066, -152138],
+    [2, 0, 1, 0, 53322, -170733],
+    [2, -1, 0, 0, 45758, -204586],
+    [0, 1, -1, 0, -40923, -129620],
+    [1, 0, 0, 0, -34720, 108743],
+    [0, 1, 1, 0, -30383, 104755],
+    [2, 0, 0, -2, 15327, 10321],
+    [0, 0, 1, 2, -12528, 0],
+    [0, 0, 1, -2, 10980, 79661],
+    [4, 0, -1, 0, 10675, -34782],
+    [0, 0, 3, 0, 10034, -23210],
+    [4, 0, -2, 0, 8548, -21636],
+    [2, 1, -1, 0, -7888, 24208],
+    [2, 1, 0, 0, -6766, 30824],
+    [1, 0, -1, 0, -5163, -8379],
+    [1, 1, 0, 0, 4987, -16675],
+    [2, -1, 1, 0, 4036, -12831],
+    [2, 0, 2, 0, 3994, -10445],
+    [4, 0, 0, 0, 3861, -11650],
+    [2, 0, -3, 0, 3665, 14403],
+    [0, 1, -2, 0, -2689, -7003],
+    [2, 0, -1, 2, -2602, 0],
+    [2, -1, -2, 0, 2390, 10056],
+    [1, 0, 1, 0, -2348, 6322],
+    [2, -2, 0, 0, 2236, -9884],
+    [0, 1, 2, 0, -2120, 5751],
+    [0, 2, 0, 0, -2069, 0],
+    [2, -2, -1, 0, 2048, -4950],
+    [2, 0, 1, -2, -1773, 4130],
+    [2, 0, 0, 2, -1595, 0],
+    [4, -1, -1, 0, 1215, -3958],
+    [0, 0, 2, 2, -1110, 0],
+    [3, 0, -1, 0, -892, 3258],
+    [2, 1, 1, 0, -810, 2616],
+    [4, -1, -2, 0, 759, -1897],
+    [0, 2, -1, 0, -713, -2117],
+    [2, 2, -1, 0, -700, 2354],
+    [2, 1, -2, 0, 691, 0],
+    [2, -1, 0, -2, 596, 0],
+    [4, 0, 1, 0, 549, -1423],
+    [0, 0, 4, 0, 537, -1117],
+    [4, -1, 0, 0, 520, -1571],
+    [1, 0, -2, 0, -487, -1739],
+];
+
+/** Periodic terms: [D, M, M', F, Σb (1e-6°)]. */
+const LATITUDE_TERMS: readonly (readonly number[])[] = [
+    [0, 0, 0, 1, 5128122],
+    [0, 0, 1, 1, 280602],
+    [0, 0, 1, -1, 277693],
+    [2, 0, 0, -1, 173237],
+    [2, 0, -1, 1, 55413],
+    [2, 0, -1, -1, 46271],
+    [2, 0, 0, 1, 32573],
+    [0, 0, 2, 1, 17198],
+    [2, 0, 1, -1, 9266],
+    [0, 0, 2, -1, 8822],
+    [2, -1, 0, -1, 8216],
+    [2, 0, -2, -1, 4324],
+    [2, 0, 1, 1, 4200],
+    [2, 1, 0, -1, -3359],
+    [2, -1, -1, 1, 2463],
+    [2, -1, 0, 1, 2211],
+    [2, -1, -1, -1, 2065],
+    [0, 1, -1, -1, -1870],
+    [4, 0, -1, -1, 1828],
+    [0, 1, 0, 1, -1794],
+    [0, 0, 0, 3, -1749],
+    [0, 1, -1, 1, -1565],
+    [1, 0, 0, 1, -1491],
+    [0, 1, 1, 1, -1475],
+    [0, 1, 1, -1, -1410],
+    [0, 1, 0, -1, -1344],
+    [1, 0, 0, -1, -1335],
+    [0, 0, 3, 1, 1107],
+    [4, 0, 0, -1, 1021],
+    [4, 0, -1, 1, 833],
+];
+
+/**
+ * Calculates the moon's apparent geocentric position at a given instant.
+ */
+export function getMoonPosition(date: Date): MoonPosition {
+    const jd = dateToJulianDate(date);
+    const t = calcTimeJulianCent(jd + getDeltaTSeconds(date) / 86400);
+
+    const lp = normalizeDegrees(218.3164477 + t * (481267.88123421 + t * (-0.0015786 + t * (1 / 538841 - t / 65194000))));
+    const d = normalizeDegrees(297.8501921 + t * (445267.1114034 + t * (-0.0018819 + t * (1 / 545868 - t / 113065000))));
+    const m = normalizeDegrees(357.5291092 + t * (35999.0502909 + t * (-0.0001536 + t / 24490000)));
+    const mp = normalizeDegrees(134.9633964 + t * (477198.8675055 + t * (0.0087414 + t * (1 / 69699 - t / 14712000))));
+    const f = normalizeDegrees(93.2720950 + t * (483202.0175233 + t * (-0.0036539 + t * (-1 / 3526000 + t / 863310000))));
+    const e = 1 - t * (0.002516 + 0.0000074 * t);
+
+    const a1 = degToRad(119.75 + 131.849 * t);
+    const a2 = degToRad(53.09 + 479264.290 * t);
+    const a3 = degToRad(313.45 + 481266.484 * t);
+
+    let sumL = 0;
+    let sumR = 0;
+    for (const [cd, cm, cmp, cf, cl, cr] of LONGITUDE_DISTANCE_TERMS) {
+        const arg = degToRad(cd * d + cm * m + cmp * mp + cf * f);
+        const eFactor = Math.abs(cm) === 1 ? e : Math.abs(cm) === 2 ? e * e : 1;
+        sumL += cl * eFactor * Math.sin(arg);
+        sumR += cr * eFactor * Math.cos(arg);
+    }
+
+    let sumB = 0;
+    for (const [cd, cm, cmp, cf, cb] of LATITUDE_TERMS) {
+        const arg = degToRad(cd * d + cm * m + cmp * mp + cf * f);
+        const eFactor = Math.abs(cm) === 1 ? e : Math.abs(cm) === 2 ? e * e : 1;
+        sumB += cb * eFactor * Math.sin(arg);
+    }
+
+    // Additive terms (Venus, Jupiter, flattening of the Earth)
+    const lpRad = degToRad(lp);
+    const fRad = degToRad(f);
+    const mpRad = degToRad(mp);
+    sumL += 3958 * Math.sin(a1) + 1962 * Math.sin(lpRad - fRad) + 318 * Math.sin(a2);
+    sumB += -2235 * Math.sin(lpRad) + 382 * Math.sin(a3) + 175 * Math.sin(a1 - fRad)
+        + 175 * Math.sin(a1 + fRad) + 127 * Math.sin(lpRad - mpRad) - 115 * Math.sin(lpRad + mpRad);
+
+    // Nutation in longitude (principal term), consistent with the solar model.
+    const omega = degToRad(125.04 - 1934.136 * t);
+    const lambda = normalizeDegrees(lp + sumL / 1e6 - 0.00478 * Math.sin(omega));
+    const beta = sumB / 1e6;
+    const distanceKm = 385000.56 + sumR / 1000;
+
+    const { obliquity } = getSolarCoordinates(jd);
+    const eps = degToRad(obliquity);
+    const lambdaRad = degToRad(lambda);
+    const betaRad = degToRad(beta);
+
+    const rightAscension = normalizeDegrees(radToDeg(Math.atan2(
+        Math.sin(lambdaRad) * Math.cos(eps) - Math.tan(betaRad) * Math.sin(eps),
+        Math.cos(lambdaRad),
+    )));
+    const declination = radToDeg(Math.asin(
+        Math.sin(betaRad) * Math.cos(eps) + Math.cos(betaRad) * Math.sin(eps) * Math.sin(lambdaRad),
+    ));
+
+    return {
+        eclipticLongitude: lambda,
+        eclipticLatitude: beta,
+        rightAscension,
+        declination,
+        distanceKm,
+        parallax: radToDeg(Math.asin(6378.14 / distanceKm)),
+    };
+}
+
+/** ΔT (TT − UT) in seconds at a given instant. */
+function getDeltaTSeconds(date: Date): number {
+    return getDeltaT(date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12);
+}
+
+// ── Conjunction ──────────────────────────────────────────────────────────────
+
+const NEW_MOON_PLANETARY_TERMS: readonly (readonly number[])[] = [
+    // [A0, A1 (per lunation), coefficient (1e-6 days)]
+    [251.88, 0.016321, 165],
+    [251.83, 26.651886, 164],
+    [349.42, 36.412478, 126],
+    [84.66, 18.206239, 110],
+    [141.74, 53.303771, 62],
+    [207.14, 2.453732, 60],
+    [154.84, 7.306860, 56],
+    [34.52, 27.261239, 47],
+    [207.19, 0.121824, 42],
+    [291.34, 1.844379, 40],
+    [161.72, 24.198154, 37],
+    [239.56, 25.513099, 35],
+    [331.55, 3.592518, 23],
+];
+
+/** Time of the new moon for lunation number `k` (0 = 6 January 2000). */
+function newMoonForLunation(k: number): Date {
+    const t = k / 1236.85;
+    const t2 = t * t;
+
+    let jde = 2451550.09766 + 29.530588861 * k + t2 * (0.00015437 + t * (-0.000000150 + t * 0.00000000073));
+    const e = 1 - t * (0.002516 + 0.0000074 * t);
+    const m = degToRad(2.5534 + 29.10535670 * k - t2 * (0.0000014 + 0.00000011 * t));
+    const mp = degToRad(201.5643 + 385.81693528 * k + t2 * (0.0107582 + t * (0.00001238 - 0.000000058 * t)));
+    const f = degToRad(160.7108 + 390.67050284 * k - t2 * (0.0016118 + t * (0.00000227 - 0.000000011 * t)));
+    const omega = degToRad(124.7746 - 1.56375588 * k + t2 * (0.0020672 + 0.00000215 * t));
+
+    jde += -0.40720 * Math.sin(mp)
+        + 0.17241 * e * Math.sin(m)
+        + 0.01608 * Math.sin(2 * mp)
+        + 0.01039 * Math.sin(2 * f)
+        + 0.00739 * e * Math.sin(mp - m)
+        - 0.00514 * e * Math.sin(mp + m)
+        + 0.00208 * e * e * Math.sin(2 * m)
+        - 0.00111 * Math.sin(mp - 2 * f)
+        - 0.00057 * Math.sin(mp + 2 * f)
+        + 0.00056 * e * Math.sin(2 * mp + m)
+        - 0.00042 * Math.sin(3 * mp)
+        + 0.00042 * e * Math.sin(m + 2 * f)
+        + 0.00038 * e * Math.sin(m - 2 * f)
+        - 0.00024 * e * Math.sin(2 * mp - m)
+        - 0.00017 * Math.sin(omega)
+        - 0.00007 * Math.sin(mp + 2 * m)
+        + 0.00004 * Math.sin(2 * mp - 2 * f)
+        + 0.00004 * Math.sin(3 * m)
+        + 0.00003 * Math.sin(mp + m - 2 * f)
+        + 0.00003 * Math.sin(2 * mp + 2 * f)
+        - 0.00003 * Math.sin(mp + m + 2 * f)
+        + 0.00003 * Math.sin(mp - m + 2 * f)
+        - 0.00002 * Math.sin(mp - m - 2 * f)
+        - 0.00002 * Math.sin(3 * mp + m)
+        + 0.00002 * Math.sin(4 * mp);
+
+    jde += 0.000325 * Math.sin(degToRad(299.77 + 0.107408 * k - 0.009173 * t2));
+    for (const [a0, a1, coeff] of NEW_MOON_PLANETARY_TERMS) {
+        jde += coeff * 1e-6 * Math.sin(degToRad(a0 + a1 * k));
+    }
+
+    const tt = new Date((jde - 2440587.5) * 86400000);
+    return new Date(tt.getTime() - getDeltaTSeconds(tt) * 1000);
+}
+
+/**
+ * Returns the time (UTC) of the new moon (geocentric conjunction) closest to `date`.
+ */
+export function getNewMoon(date: Date): Date {
+    const k = Math.round((dateToJulianDate(date) - 2451550.09766) / 29.530588861);
+    let best = newMoonForLunation(k);
+    for (const candidate of [newMoonForLunation(k - 1), newMoonForLunation(k + 1)]) {
+        if (Math.abs(candidate.getTime() - date.getTime()) < Math.abs(best.getTime() - date.getTime())) {
+            best = candidate;
+        }
+    }
+    return best;
+}
+
+// ── Topocentric geometry ─────────────────────────────────────────────────────
+
+interface HorizontalCoordinates {
+    /** Geocentric (airless) altitude in degrees. */
+    altitude: number;
+    /** Azimuth in degrees, measured from north through east. */
+    azimuth: number;
+}
+
+function toHorizontal(
+    jd: number, rightAscension: number, declination: number, latitude: number, longitude: number,
+): HorizontalCoordinates {
+    const hourAngle = degToRad(getGreenwichSiderealTime(jd) + longitude - rightAscension);
+    const lat = degToRad(latitude);
+    const dec = degToRad(declination);
+
+    const altitude = radToDeg(Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle)));
+    const azimuth = normalizeDegrees(radToDeg(Math.atan2(
+        -Math.cos(dec) * Math.sin(hourAngle),
+        Math.sin(dec) * Math.cos(lat) - Math.cos(dec) * Math.sin(lat) * Math.cos(hourAngle),
+    )));
+    return { altitude, azimuth };
+}
+
+/** Angular separation in degrees between two points given as (RA, Dec). */
+function angularSeparation(ra1: number, dec1: number, ra2: number, dec2: number): number {
+    const cosSep = Math.sin(degToRad(dec1)) * Math.sin(degToRad(dec2))
+        + Math.cos(degToRad(dec1)) * Math.cos(degToRad(dec2)) * Math.cos(degToRad(ra1 - ra2));
+    return radToDeg(Math.acos(Math.min(1, Math.max(-1, cosSep))));
+}
+
+/**
+ * Time (UTC) at which the moon crosses its rise/set altitude closest to `near`,
+ * on the rising or setting side. Returns `null` if the moon does not cross it.
+ *
+ * Iterates the hour-angle solution, recomputing the moon's position each time,
+ * since the moon moves ~0.5° per hour against the stars.
+ */
+export function findMoonHorizonCrossing(
+    near: Date, latitude: number, longitude: number, isSetting: boolean,
+): Date | null {
+    let time = near.getTime();
+    for (let i = 0; i < 10; i++) {
+        const jd = dateToJulianDate(new Date(time));
+        const moon = getMoonPosition(new Date(time));
+        // Standard altitude of the moon's upper limb: 0.7275π − 0.5667° (Meeus ch. 15)
+        const h0 = 0.7275 * moon.parallax - 0.5667;
+        const lat = degToRad(latitude);
+        const dec = degToRad(moon.declination);
+        const cosH0 = (Math.sin(degToRad(h0)) - Math.sin(lat) * Math.sin(dec)) / (Math.cos(lat) * Math.cos(dec));
+        if (cosH0 > 1 || cosH0 < -1) return null;
+
+        const h0Deg = radToDeg(Math.acos(cosH0));
+        const target = isSetting ? h0Deg : -h0Deg;
+        const hourAngle = getGreenwichSiderealTime(jd) + longitude - moon.rightAscension;
+        const delta = normalizeDegrees(target - hourAngle + 180) - 180;
+        // The moon's hour angle advances ~14.49° per hour.
+        const stepMs = (delta / 14.49) * 3600000;
+        time += stepMs;
+        if (Math.abs(stepMs) < 1000) break;
+    }
+    return new Date(time);
+}
+
+// ── Daily moon events & illumination ─────────────────────────────────────────
+
+/** Eight conventional phase names, by sun–moon longitude difference. */
+export type MoonPhaseName =
+    | 'new-moon'
+    | 'waxing-crescent'
+    | 'first-quarter'
+    | 'waxing-gibbous'
+    | 'full-moon'
+    | 'waning-gibbous'
+    | 'last-quarter'
+    | 'waning-crescent';
+
+const MOON_PHASE_NAMES: readonly MoonPhaseName[] = [
+    'new-moon', 'waxing-crescent', 'first-quarter', 'waxing-gibbous',
+    'full-moon', 'waning-gibbous', 'last-quarter', 'waning-crescent',
+];
+
+export interface MoonIllumination {
+    /** Illuminated fraction of the disk, 0 (new) to 1 (full). */
+    fraction: number;
+    /** Phase angle (Sun–Moon–Earth) in degrees. */
+    phaseAngle: number;
+    /** Whether the illuminated fraction is increasing. */
+    waxing: boolean;
+    phase: MoonPhaseName;
+}
+
+/**
+ * Calculates the illuminated fraction and phase of the moon at a given instant
+ * (Meeus ch. 48).
+ */
+export function getMoonIllumination(date: Date): MoonIllumination {
+    const sun = getSolarCoordinates(dateToJulianDate(date));
+    const moon = getMoonPosition(date);
+    const sunDistanceKm = 149597870.7;
+
+    const elongation = radToDeg(Math.acos(
+        Math.cos(degToRad(moon.eclipticLatitude)) * Math.cos(degToRad(moon.eclipticLongitude - sun.apparentLongitude)),
+    ));
+    const elongationRad = degToRad(elongation);
+    const phaseAngle = radToDeg(Math.atan2(
+        sunDistanceKm * Math.sin(elongationRad),
+        moon.distanceKm - sunDistanceKm * Math.cos(elongationRad),
+    ));
+
+    const longitudeDifference = normalizeDegrees(moon.eclipticLongitude - sun.apparentLongitude);
+    return {
+        fraction: (1 + Math.cos(degToRad(phaseAngle))) / 2,
+        phaseAngle,
+        waxing: longitudeDifference < 180,
+        phase: MOON_PHASE_NAMES[Math.floor(normalizeDegrees(longitudeDifference + 22.5) / 45) % 8],
+    };
+}
+
+export interface MoonTimes {
+    /** Moonrise during the local day, or `null` if the moon does not rise that day. */
+    moonrise: Date | null;
+    /** Moonset during the local day, or `null` if the moon does not set that day. */
+    moonset: Date | null;
+    /** The moon stays above the horizon all day (high latitudes). */
+    alwaysUp: boolean;
+    /** The moon stays below the horizon all day (high latitudes). */
+    alwaysDown: boolean;
+}
+
+/**
+ * Calculates moonrise and moonset for the local calendar day of `localNoonUTC`
+ * (12:00 local time expressed in UTC, as used by the solar calculators).
+ *
+ * The moon rises ~50 minutes later each day, so roughly once a month a day has
+ * no moonrise (or no moonset); the corresponding field is then `null`.
+ */
+export function getMoonTimes(localNoonUTC: Date, latitude: number, longitude: number): MoonTimes {
+    const dayStart = localNoonUTC.getTime() - 12 * 3600000;
+    const dayEnd = dayStart + 24 * 3600000;
+
+    const findEvent = (isSetting: boolean): Date | null => {
+        const found: number[] = [];
+        for (const hours of [0, 12, 24]) {
+            const crossing = findMoonHorizonCrossing(new Date(dayStart + hours * 3600000), latitude, longitude, isSetting);
+            if (crossing && crossing.getTime() >= dayStart && crossing.getTime() < dayEnd) found.push(crossing.getTime());
+        }
+        return found.length ? new Date(Math.min(...found)) : null;
+    };
+
+    const moonrise = findEvent(false);
+    const moonset = findEvent(true);
+
+    let alwaysUp = false;
+    let alwaysDown = false;
+    if (!moonrise && !moonset) {
+        const jd = dateToJulianDate(localNoonUTC);
+        const moon = getMoonPosition(localNoonUTC);
+        const { altitude } = toHorizontal(jd, moon.rightAscension, moon.declination, latitude, longitude);
+        alwaysUp = altitude > 0;
+        alwaysDown = !alwaysUp;
+    }
+
+    return { moonrise, moonset, alwaysUp, alwaysDown };
+}
+
+/**
+ * Moon data attached to daily results when `includeMoon` is set.
+ */
+export interface MoonDayInfo extends MoonTimes {
+    /** Illuminated fraction (0–1) at Maghrib, i.e. for the coming night. */
+    illumination: number;
+    /** Phase name at Maghrib. */
+    phase: MoonPhaseName;
+}
+
+/**
+ * Builds the `moon` block for a day: rise/set times plus illumination at `evening`.
+ */
+export function getMoonDayInfo(localNoonUTC: Date, latitude: number, longitude: number, evening: Date): MoonDayInfo {
+    const { fraction, phase } = getMoonIllumination(evening);
+    return { ...getMoonTimes(localNoonUTC, latitude, longitude), illumination: fraction, phase };
+}
+
+// ── Crescent visibility ──────────────────────────────────────────────────────
+
+/**
+ * Crescent-visibility criteria:
+ *
+ * - `'yallop'`      — Yallop (1997) q-test, zones A–F.
+ * - `'odeh'`        — Odeh (2004) V-test, zones A–D.
+ * - `'umm-al-qura'` — conjunction before sunset and moonset after sunset.
+ */
+export type CrescentCriterion = 'yallop' | 'odeh' | 'umm-al-qura';
+
+export interface CrescentVisibility {
+    /** The calendar day whose evening was evaluated. */
+    date: Date;
+    criterion: CrescentCriterion;
+    sunset: Date;
+    /** Moonset nearest to sunset, or `null` if the moon does not set. */
+    moonset: Date | null;
+    /** The new moon closest to sunset. */
+    conjunction: Date;
+    /** Hours from conjunction to sunset (negative before conjunction). */
+    moonAgeHours: number;
+    /** Minutes from sunset to moonset (negative if the moon sets first). */
+    lagMinutes: number | null;
+    /** Best time to look for the crescent: sunset + 4/9 of the lag. */
+    bestTime: Date;
+    /** Sun–moon elongation (ARCL) at the best time, in degrees. */
+    elongation: number;
+    /** Moon altitude minus sun altitude (ARCV) at the best time, in degrees. */
+    arcOfVision: number;
+    /** Sun azimuth minus moon azimuth (DAZ) at the best time, in degrees. */
+    azimuthDifference: number;
+    /** Topocentric crescent width (W') in arcminutes. */
+    crescentWidth: number;
+    /** Yallop q or Odeh V; `null` for the Umm al-Qura rule. */
+    value: number | null;
+    /** Visibility zone (Yallop A–F, Odeh A–D); `null` for the Umm al-Qura rule. */
+    zone: 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | null;
+    /** Whether the criterion considers the new crescent seen this evening. */
+    visible: boolean;
+}
+
+type Location = Pick<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes' | 'timeZone'>;
+
+/**
+ * Evaluates the visibility of the new crescent on the evening of `date`
+ * at the given location.
+ *
+ * Returns `null` if the sun does not set on that day.
+ */
+export function getCrescentVisibility(
+    date: Date, location: Location, criterion: CrescentCriterion = 'yallop',
+): CrescentVisibility | null {
+    const { latitude, longitude } = location;
+    const tz = resolveTimezoneOffset(date, location);
+    const noonUTC = localNoonToUTC(date.getFullYear(), date.getMonth(), date.getDate(), tz);
+    const sunset = getMaghrib(noonUTC, latitude, longitude, tz);
+    if (!sunset) return null;
+
+    const conjunction = getNewMoon(sunset);
+    const moonAgeHours = (sunset.getTime() - conjunction.getTime()) / 3600000;
+    const moonset = findMoonHorizonCrossing(sunset, latitude, longitude, true);
+    const lagMinutes = moonset ? (moonset.getTime() - sunset.getTime()) / 60000 : null;
+
+    const bestTime = new Date(sunset.getTime() + Math.max(0, lagMinutes ?? 0) * (4 / 9) * 60000);
+    const jd = dateToJulianDate(bestTime);
+    const sun = getSolarCoordinates(jd);
+    const moon = getMoonPosition(bestTime);
+    const sunHorizontal = toHorizontal(jd, sun.rightAscension, sun.declination, latitude, longitude);
+    const moonHorizontal = toHorizontal(jd, moon.rightAscension, moon.declination, latitude, longitude);
+
+    const elongation = angularSeparation(sun.rightAscension, sun.declination, moon.rightAscension, moon.declination);
+    const arcOfVision = moonHorizontal.altitude - sunHorizontal.altitude;
+    const azimuthDifference = normalizeDegrees(sunHorizontal.azimuth - moonHorizontal.azimuth + 180) - 180;
+
+    // Semi-diameter (arcmin), augmented for the observer's position (Yallop).
+    const parallaxArcmin = moon.parallax * 60;
+    const semiDiameter = 0.27245 * parallaxArcmin;
+    const topocentricSemiDiameter = semiDiameter * (1 + Math.sin(degToRad(moonHorizontal.altitude)) * Math.sin(degToRad(moon.parallax)));
+    const crescentWidth = topocentricSemiDiameter * (1 - Math.cos(degToRad(elongation)));
+
+    const result = {
+        date, criterion, sunset, moonset, conjunction, moonAgeHours, lagMinutes, bestTime,
+        elongation, arcOfVision, azimuthDifference, crescentWidth,
+    };
+    const setsAfterSun = lagMinutes != null && lagMinutes > 0;
+
+    if (criterion === 'umm-al-qura') {
+        return { ...result, value: null, zone: null, visible: moonAgeHours > 0 && setsAfterSun };
+    }
+
+    const w = crescentWidth;
+    if (criterion === 'odeh') {
+        // Odeh uses the topocentric arc of vision.
+        const topocentricArcv = arcOfVision - moon.parallax * Math.cos(degToRad(moonHorizontal.altitude));
+        const v = topocentricArcv - (7.1651 - 6.3226 * w + 0.7319 * w * w - 0.1018 * w * w * w);
+        const zone = v >= 5.65 ? 'A' : v >= 2 ? 'B' : v >= -0.96 ? 'C' : 'D';
+        return { ...result, value: v, zone, visible: setsAfterSun && moonAgeHours > 0 && v >= 2 };
+    }
+
+    const q = (arcOfVision - (11.8371 - 6.3226 * w + 0.7319 * w * w - 0.1018 * w * w * w)) / 10;
+    const zone = q > 0.216 ? 'A' : q > -0.014 ? 'B' : q > -0.160 ? 'C' : q > -0.232 ? 'D' : q > -0.293 ? 'E' : 'F';
+    return { ...result, value: q, zone, visible: setsAfterSun && moonAgeHours > 0 && q > -0.014 };
+}
+
+// ── Month-start prediction ───────────────────────────────────────────────────
+
+/**
+ * Predicts the first day of a Hijri month at a location: the day after the
+ * first evening, on or after the conjunction, on which the crescent is visible
+ * under `criterion`.
+ *
+ * Returns a local calendar day (midnight), like `hijriToGregorian`.
+ */
+export function predictHijriMonthStart(
+    hijriYear: number, hijriMonth: number, location: Location, criterion: CrescentCriterion = 'yallop',
+): Date {
+    const expected = hijriToGregorian(hijriYear, hijriMonth, 1, 'tabular');
+    const conjunction = getNewMoon(expected);
+    const offset = location.timeZone
+        ? getOffsetMinutesForTimezone(location.timeZone, conjunction)
+        : location.timezoneOffsetMinutes ?? 0;
+    const localConjunction = new Date(conjunction.getTime() + offset * 60000);
+
+    const evening = new Date(localConjunction.getUTCFullYear(), localConjunction.getUTCMonth(), localConjunction.getUTCDate());
+    for (let i = 0; i < 3; i++) {
+        const visibility = getCrescentVisibility(evening, location, criterion);
+        evening.setDate(evening.getDate() + 1);
+        if (visibility?.visible) return evening;
+    }
+
+    // The crescent is always visible by the third evening after conjunction unless
+    // the sun does not set; the month then starts on the following day.
+    return evening;
+}
+
+/**
+ * Predicts the first and last day of Ramadan for a Hijri year at a location.
+ * The result can be passed directly to `getRamadanFastingTimes(start, end, config)`.
+ */
+export function predictRamadan(
+    hijriYear: number, location: Location, criterion: CrescentCriterion = 'yallop',
+): { start: Date; end: Date } {
+    const start = predictHijriMonthStart(hijriYear, RAMADAN, location, criterion);
+    const shawwal = predictHijriMonthStart(hijriYear, RAMADAN + 1, location, criterion);
+    const end = new Date(shawwal.getFullYear(), shawwal.getMonth(), shawwal.getDate() - 1);
+    return { start, end };
+}
@@ -0,0 +1,218 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Qibla direction, distance to the Kaaba and sun-over-Qibla dates.
+//
+// Direction and distance are great-circle values on a spherical Earth. On most
+// days the sun's azimuth passes through the Qibla bearing (or its opposite) at
+// some moment in daylight, when every vertical shadow lies on the Qibla line.
+// Twice a year the sun passes directly over the Kaaba (late May and mid-July),
+// and twice over its antipode, giving that moment everywhere at once.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import {
+    degToRad, radToDeg, normalizeDegrees, dateToJulianDate, localNoonToUTC, getSolarNoon, getSolarCoordinates,
+    getGreenwichSiderealTime,
+} from './astronomy';
+import { formatLocalTime } from './index';
+import { getOffsetMinutesForTimezone, isValidTimeZone } from './timezone';
+
+/** Coordinates of the Kaaba, Mecca. */
+export const KAABA_LOCATION = { latitude: 21.4225, longitude: 39.8262 } as const;
+
+/** Mean Earth radius (IUGG), in kilometres. */
+const EARTH_RADIUS_KM = 6371.0088;
+
+export interface Qibla {
+    /** Initial great-circle bearing to the Kaaba, degrees clockwise from true north. */
+    bearing: number;
+    /** Great-circle distance to the Kaaba in kilometres. */
+    distanceKm: number;
+}
+
+function assertCoordinates(latitude: number, longitude: number): void {
+    if (typeof latitude !== 'number' || Number.isNaN(latitude) || latitude < -90 || latitude > 90) {
+        throw new RangeError(`latitude must be between -90 and 90. Received: ${latitude}`);
+    }
+    if (typeof longitude !== 'number' || Number.isNaN(longitude) || longitude < -180 || longitude > 180) {
+        throw new RangeError(`longitude must be between -180 and 180. Received: ${longitude}`);
+    }
+}
+
+/** Central angle (degrees) between two points on the sphere. */
+function centralAngle(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const lat1Rad = degToRad(lat1);
+    const lat2Rad = degToRad(lat2);
+    const a = Math.sin((lat2Rad - lat1Rad) / 2) ** 2
+        + Math.cos(lat1Rad) * Math.cos(lat2Rad) * Math.sin(degToRad(lon2 - lon1) / 2) ** 2;
+    return radToDeg(2 * Math.asin(Math.min(1, Math.sqrt(a))));
+}
+
+/**
+ * Calculates the Qibla bearing and the distance to the Kaaba.
+ *
+ * ```ts
+ * getQibla(51.5085, -0.1257); // → { bearing: 118.99…, distanceKm: 4791.… }
+ * ```
+ */
+export function getQibla(latitude: number, longitude: number): Qibla {
+    assertCoordinates(latitude, longitude);
+    const lat1Rad = degToRad(latitude);
+    const lat2Rad = degToRad(KAABA_LOCATION.latitude);
+    const deltaLonRad = degToRad(KAABA_LOCATION.longitude - longitude);
+
+    const bearing = normalizeDegrees(radToDeg(Math.atan2(
+        Math.sin(deltaLonRad) * Math.cos(lat2Rad),
+        Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLonRad),
+    )));
+    const distanceKm = degToRad(centralAngle(latitude, longitude, KAABA_LOCATION.latitude, KAABA_LOCATION.longitude)) * EARTH_RADIUS_KM;
+
+    return { bearing, distanceKm };
+}
+
+// ── Sun over the Qibla ───────────────────────────────────────────────────────
+
+/**
+ * - `'sun-in-qibla'`       — the sun's azimuth equals the Qibla bearing; shadows point away from the Qibla.
+ * - `'sun-opposite-qibla'` — the sun's azimuth is opposite the Qibla bearing; shadows point towards it.
+ * - `'sun-over-kaaba'`     — the sun is at the Kaaba's zenith (twice a year), a `'sun-in-qibla'` moment for everyone.
+ * - `'sun-opposite-kaaba'` — the sun is at the zenith of the Kaaba's antipode (twice a year).
+ */
+export type QiblaSunAlignmentKind = 'sun-in-qibla' | 'sun-opposite-qibla' | 'sun-over-kaaba' | 'sun-opposite-kaaba';
+
+export interface QiblaSunAlignment {
+    kind: QiblaSunAlignmentKind;
+    /** The instant of alignment. */
+    time: Date;
+    /** `time` as `HH:MM` in the requested time zone. */
+    localTime: string;
+    /** Sun's azimuth at the observer, degrees clockwise from true north. */
+    azimuth: number;
+    /** Sun's altitude at the observer, in degrees (geometric); always above the horizon. */
+    altitude: number;
+}
+
+/** Step used to bracket azimuth crossings. Short enough to catch both crossings near the zenith. */
+const ALIGNMENT_SCAN_STEP_MS = 5 * 60000;
+
+/** Sun's geometric altitude and azimuth at the observer. */
+function getSunHorizontal(timeMs: number, latitude: number, longitude: number): { altitude: number; azimuth: number } {
+    const jd = dateToJulianDate(new Date(timeMs));
+    const { rightAscension, declination } = getSolarCoordinates(jd);
+    const hourAngle = degToRad(getGreenwichSiderealTime(jd) + longitude - rightAscension);
+    const lat = degToRad(latitude);
+    const dec = degToRad(declination);
+
+    const altitude = radToDeg(Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle)));
+    const azimuth = normalizeDegrees(radToDeg(Math.atan2(
+        -Math.cos(dec) * Math.sin(hourAngle),
+        Math.sin(dec) * Math.cos(lat) - Math.cos(dec) * Math.sin(lat) * Math.cos(hourAngle),
+    )));
+    return { altitude, azimuth };
+}
+
+/** Signed difference `a - b` between two bearings, in (-180, 180]. */
+function bearingDifference(a: number, b: number): number {
+    const d = normalizeDegrees(a - b);
+    return d > 180 ? d - 360 : d;
+}
+
+/**
+ * Finds the instants in `[startMs, endMs)` at which the sun's azimuth at the
+ * observer equals `target`, keeping only those with the sun above the horizon.
+ */
+function findAzimuthCrossings(startMs: number, endMs: number, latitude: number, longitude: number, target: number): number[] {
+    const offsetAt = (t: number) => bearingDifference(getSunHorizontal(t, latitude, longitude).azimuth, target);
+    const crossings: number[] = [];
+
+    let t0 = startMs;
+    let d0 = offsetAt(t0);
+    for (let t1 = startMs + ALIGNMENT_SCAN_STEP_MS; t0 < endMs; t1 += ALIGNMENT_SCAN_STEP_MS) {
+        const d1 = offsetAt(t1);
+        if (Math.sign(d0) !== Math.sign(d1)) {
+            let [lo, hi, dLo] = [t0, t1, d0];
+            while (hi - lo > 1000) {
+                const mid = (lo + hi) / 2;
+                const dMid = offsetAt(mid);
+                if (Math.sign(dMid) === Math.sign(dLo)) [lo, dLo] = [mid, dMid];
+                else hi = mid;
+            }
+            const time = Math.round((lo + hi) / 2000) * 1000;
+            // A sign change can also be the azimuth passing through target + 180°.
+            const { altitude, azimuth } = getSunHorizontal(time, latitude, longitude);
+            if (time < endMs && altitude > 0 && Math.abs(bearingDifference(azimuth, target)) < 1) crossings.push(time);
+        }
+        [t0, d0] = [t1, d1];
+    }
+    return crossings;
+}
+
+/**
+ * Finds the days of `year` on which the sun culminates closest to the zenith of
+ * the point `(latitude, longitude)`, and returns the transit instants.
+ */
+function findZenithPassages(year: number, latitude: number, longitude: number): Date[] {
+    const tz = Math.round(longitude / 15) * 60;
+    const transits: { time: Date; offset: number }[] = [];
+    for (let day = new Date(year, 0, 1); day.getFullYear() === year; day.setDate(day.getDate() + 1)) {
+        const noon = localNoonToUTC(year, day.getMonth(), day.getDate(), tz);
+        const time = getSolarNoon(noon, latitude, longitude, tz);
+        const { declination } = getSolarCoordinates(dateToJulianDate(time));
+        transits.push({ time, offset: declination - latitude });
+    }
+
+    const passages: Date[] = [];
+    for (let i = 1; i < transits.length; i++) {
+        const [a, b] = [transits[i - 1], transits[i]];
+        if (Math.sign(a.offset) !== Math.sign(b.offset)) {
+            const time = Math.abs(a.offset) <= Math.abs(b.offset) ? a.time : b.time;
+            passages.push(new Date(Math.round(time.getTime() / 1000) * 1000));
+        }
+    }
+    return passages;
+}
+
+/**
+ * Returns, for each day of `year` in `timezone`, the moments when the sun's
+ * azimuth at the observer equals the Qibla bearing or its opposite while the
+ * sun is up — a vertical object's shadow then lies on the Qibla line. The
+ * yearly passages over the Kaaba and its antipode are included as their own
+ * kinds when visible. `timezone` is a UTC offset in minutes or an IANA zone.
+ *
+ * ```ts
+ * getQiblaSunAlignments(2025, 51.5085, -0.1257, 'Europe/London')[0];
+ * // → { kind: 'sun-in-qibla', localTime: '07:48', azimuth: 118.99, altitude: 0.3, … } (31 January)
+ * ```
+ */
+export function getQiblaSunAlignments(
+    year: number, latitude: number, longitude: number, timezone: number | string,
+): QiblaSunAlignment[] {
+    assertCoordinates(latitude, longitude);
+    if (typeof timezone === 'string' ? !isValidTimeZone(timezone) : !Number.isFinite(timezone) || timezone < -720 || timezone > 840) {
+        throw new RangeError(`timezone must be a valid IANA time zone or an offset between -720 and 840. Received: ${timezone}`);
+    }
+
+    const localMidnightToUTC = (y: number) => {
+        const midnight = Date.UTC(y, 0, 1);
+        const offset = typeof timezone === 'string' ? getOffsetMinutesForTimezone(timezone, new Date(midnight)) : timezone;
+        return midnight - offset * 60000;
+    };
+    const [startMs, endMs] = [localMidnightToUTC(year), localMidnightToUTC(year + 1)];
+    const { bearing } = getQibla(latitude, longitude);
+    const antipode = { latitude: -KAABA_LOCATION.latitude, longitude: KAABA_LOCATION.longitude - 180 };
+
+    const events: { kind: QiblaSunAlignmentKind; time: number }[] = [
+        ...findAzimuthCrossings(startMs, endMs, latitude, longitude, bearing)
+            .map(time => ({ kind: 'sun-in-qibla' as const, time })),
+        ...findAzimuthCrossings(startMs, endMs, latitude, longitude, normalizeDegrees(bearing + 180))
+            .map(time => ({ kind: 'sun-opposite-qibla' as const, time })),
+        ...findZenithPassages(year, KAABA_LOCATION.latitude, KAABA_LOCATION.longitude)
+            .map(time => ({ kind: 'sun-over-kaaba' as const, time: time.getTime() })),
+        ...findZenithPassages(year, antipode.latitude, antipode.longitude)
+            .map(time => ({ kind: 'sun-opposite-kaaba' as const, time: time.getTime() })),
+    ];
+
+    return events
+        .map(({ kind, time }) => ({ kind, time: new Date(time), ...getSunHorizontal(time, latitude, longitude) }))
+        .filter(a => a.altitude > 0)
+        .sort((a, b) => a.time.getTime() - b.time.getTime())
+        .map(({ kind, time, azimuth, altitude }) => ({ kind, time, localTime: formatLocalTime(time, timezone), azimuth, altitude }));
+}
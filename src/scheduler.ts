@@ -0,0 +1,262 @@
+import { getDayFastingTimes, getDayPrayerTimes } from './index';
+import { PRAYER_NAMES } from './countdown';
+import type { PrayerName } from './countdown';
+import { getLocalDate } from './timezone';
+import { validateConfig } from './validation';
+import type { RamadanCoreConfig } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Prayer-time scheduler: fires callbacks at each prayer, at Imsak and Iftar,
+// and at optional reminders N minutes before each.
+//
+// Instead of one long timer per event, the scheduler wakes at the next event or
+// after at most a minute, whichever comes first, and compares the clock with
+// the plan. A laptop waking from sleep or an NTP clock jump is therefore
+// noticed within a minute: events that fell due in the meantime fire late (up
+// to `maxLateMs`) or are dropped, and events never fire twice. The plan covers
+// yesterday, today and tomorrow and is rebuilt whenever the local date changes,
+// so DST days use their own offsets.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Anything the scheduler can fire: the daily prayers, Imsak and Iftar. */
+export type ScheduleEventName = PrayerName | 'imsak' | 'iftar';
+
+/** All event names, in daily order. The default for `PrayerSchedulerOptions.events`. */
+export const SCHEDULE_EVENT_NAMES: readonly ScheduleEventName[] = ['imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'iftar', 'isha'];
+
+/** Longest single timer, in ms. Bounds how late a clock jump or wake-up is noticed. */
+const MAX_TIMER_MS = 60000;
+
+const DEFAULT_MAX_LATE_MS = 5 * 60000;
+
+export interface ScheduledEvent {
+    name: ScheduleEventName;
+    /** When the event itself occurs. */
+    time: Date;
+    /** When the callback fires — `time` minus `minutesBefore`. */
+    firesAt: Date;
+    /** `0` for the event itself, otherwise the reminder lead time. */
+    minutesBefore: number;
+    /** The calendar day whose timetable the event belongs to. */
+    date: Date;
+}
+
+export interface PrayerSchedulerEvent extends ScheduledEvent {
+    /** How late the callback fired, in ms — non-zero after sleep or a clock jump. */
+    lateMs: number;
+}
+
+export type PrayerSchedulerListener = (event: PrayerSchedulerEvent) => void;
+
+/** Receives what a listener threw, and the event it was handling. */
+export type PrayerSchedulerErrorHandler = (error: unknown, event: PrayerSchedulerEvent) => void;
+
+/** Source of the current time. Defaults to `Date.now`. */
+export interface SchedulerClock {
+    now(): number;
+}
+
+/** Timer implementation. Defaults to the global `setTimeout` / `clearTimeout`. */
+export interface SchedulerTimers {
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+export interface PrayerSchedulerOptions {
+    /** Events to fire. Default: all of `SCHEDULE_EVENT_NAMES`. */
+    events?: readonly ScheduleEventName[];
+    /** Lead times for reminders, in minutes, e.g. `[15, 5]`. Default: none. */
+    reminderMinutes?: readonly number[];
+    /** Listener registered at start; more can be added with `on`. */
+    onEvent?: PrayerSchedulerListener;
+    /**
+     * Called when a listener throws. The error never escapes the timer callback,
+     * so scheduling continues. Default: `console.error`.
+     */
+    onError?: PrayerSchedulerErrorHandler;
+    /** Events noticed later than this (sleep, clock jumps) are dropped. Default: 5 minutes. */
+    maxLateMs?: number;
+    clock?: SchedulerClock;
+    timers?: SchedulerTimers;
+}
+
+export interface PrayerScheduler {
+    /** Adds a listener. Returns a function that removes it. */
+    on(listener: PrayerSchedulerListener): () => void;
+    /** Pending events, soonest first. */
+    upcoming(limit?: number): ScheduledEvent[];
+    /** Cancels all timers. The scheduler cannot be restarted. */
+    stop(): void;
+    isRunning(): boolean;
+}
+
+const DEFAULT_ERROR_HANDLER: PrayerSchedulerErrorHandler = (error, event) => {
+    console.error(`ramadan-timings: a scheduler listener threw on ${event.name}:`, error);
+};
+
+const DEFAULT_CLOCK: SchedulerClock = { now: () => Date.now() };
+
+const DEFAULT_TIMERS: SchedulerTimers = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+function eventKey(event: ScheduledEvent): string {
+    return `${event.name}:${event.minutesBefore}:${event.time.getTime()}`;
+}
+
+/**
+ * Events of yesterday, today and tomorrow around `now`, soonest first; simultaneous
+ * ones (e.g. Imsak without a margin) in `SCHEDULE_EVENT_NAMES` order. Days without
+ * times are skipped.
+ */
+function buildPlan(
+    now: Date,
+    config: RamadanCoreConfig,
+    names: ReadonlySet<ScheduleEventName>,
+    leadTimes: readonly number[],
+): ScheduledEvent[] {
+    const today = getLocalDate(now, config);
+    const plan: ScheduledEvent[] = [];
+
+    for (const delta of [-1, 0, 1]) {
+        const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + delta);
+        const times = getDayPrayerTimes(date, config);
+        const fast = getDayFastingTimes(date, config);
+
+        const events: { name: ScheduleEventName; time: Date }[] = [];
+        if (times) for (const name of PRAYER_NAMES) events.push({ name, time: times[name] });
+        if (fast) events.push({ name: 'imsak', time: fast.imsak }, { name: 'iftar', time: fast.maghrib });
+
+        for (const { name, time } of events) {
+            if (!names.has(name)) continue;
+            for (const minutesBefore of [0, ...leadTimes]) {
+                plan.push({ name, time, firesAt: new Date(time.getTime() - minutesBefore * 60000), minutesBefore, date });
+            }
+        }
+    }
+
+    return plan.sort((a, b) => a.firesAt.getTime() - b.firesAt.getTime()
+        || b.minutesBefore - a.minutesBefore
+        || SCHEDULE_EVENT_NAMES.indexOf(a.name) - SCHEDULE_EVENT_NAMES.indexOf(b.name));
+}
+
+/**
+ * Starts a scheduler that calls its listeners at each prayer, Imsak and Iftar,
+ * and at the configured reminder lead times. Events already past at start are
+ * not fired.
+ *
+ * ```ts
+ * const scheduler = createPrayerScheduler(config, {
+ *     reminderMinutes: [10],
+ *     onEvent: e => console.log(e.minutesBefore ? `${e.name} in ${e.minutesBefore} min` : e.name),
+ * });
+ * // later
+ * scheduler.stop();
+ * ```
+ *
+ * Pass `clock` and `timers` to drive it with fake time in tests.
+ *
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function createPrayerScheduler(config: RamadanCoreConfig, options: PrayerSchedulerOptions = {}): PrayerScheduler {
+    validateConfig(config);
+    const leadTimes = options.reminderMinutes ?? [];
+    for (const minutes of leadTimes) {
+        if (typeof minutes !== 'number' || Number.isNaN(minutes) || minutes <= 0 || minutes > 720) {
+            throw new RangeError(`reminderMinutes must contain numbers between 0 (exclusive) and 720. Received: ${minutes}`);
+        }
+    }
+    const names = new Set(options.events ?? SCHEDULE_EVENT_NAMES);
+    for (const name of names) {
+        if (!SCHEDULE_EVENT_NAMES.includes(name)) {
+            throw new RangeError(`events must contain only: ${SCHEDULE_EVENT_NAMES.join(', ')}. Received: ${name}`);
+        }
+    }
+
+    const clock = options.clock ?? DEFAULT_CLOCK;
+    const timers = options.timers ?? DEFAULT_TIMERS;
+    const maxLateMs = options.maxLateMs ?? DEFAULT_MAX_LATE_MS;
+    const onError = options.onError ?? DEFAULT_ERROR_HANDLER;
+    const listeners = new Set<PrayerSchedulerListener>();
+    if (options.onEvent) listeners.add(options.onEvent);
+
+    let plan: ScheduledEvent[] = [];
+    let planDay = NaN;
+    const fired = new Set<string>();
+    let handle: unknown;
+    let running = true;
+
+    /** Rebuilds the plan when the local date changes, forgetting fired events that left it. */
+    function refreshPlan(now: number): void {
+        const day = getLocalDate(new Date(now), config).getTime();
+        if (day === planDay) return;
+        plan = buildPlan(new Date(now), config, names, leadTimes);
+        planDay = day;
+        const keys = new Set(plan.map(eventKey));
+        for (const key of fired) if (!keys.has(key)) fired.delete(key);
+    }
+
+    function arm(now: number): void {
+        const next = plan.find(e => e.firesAt.getTime() > now && !fired.has(eventKey(e)));
+        const delay = next ? Math.min(next.firesAt.getTime() - now, MAX_TIMER_MS) : MAX_TIMER_MS;
+        handle = timers.setTimeout(tick, delay);
+    }
+
+    function tick(): void {
+        handle = undefined;
+        if (!running) return;
+        const now = clock.now();
+        refreshPlan(now);
+
+        const due: PrayerSchedulerEvent[] = [];
+        for (const event of plan) {
+            const firesAt = event.firesAt.getTime();
+            if (firesAt > now) break;
+            const key = eventKey(event);
+            if (fired.has(key)) continue;
+            fired.add(key);
+            if (now - firesAt <= maxLateMs) due.push({ ...event, lateMs: now - firesAt });
+        }
+
+        // Re-arm before notifying, and hand listener errors to onError rather than
+        // throwing from the timer callback (an uncaught exception in the host).
+        arm(now);
+        for (const event of due) {
+            for (const listener of [...listeners]) {
+                if (!running) return;
+                try {
+                    listener(event);
+                } catch (error) {
+                    onError(error, event);
+                }
+            }
+        }
+    }
+
+    const start = clock.now();
+    refreshPlan(start);
+    for (const event of plan) {
+        if (event.firesAt.getTime() <= start) fired.add(eventKey(event));
+    }
+    arm(start);
+
+    return {
+        on(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        upcoming(limit = Infinity) {
+            return plan.filter(e => !fired.has(eventKey(e))).slice(0, limit);
+        },
+        stop() {
+            running = false;
+            if (handle !== undefined) timers.clearTimeout(handle);
+            handle = undefined;
+            listeners.clear();
+        },
+        isRunning() {
+            return running;
+        },
+    };
+}
@@ -0,0 +1,289 @@
+import { formatLocalTime, formatDuration } from './index';
+import { formatHijriDate } from './hijri';
+import { getOffsetMinutesForTimezone } from './timezone';
+import { validateConfig } from './validation';
+import type { RamadanCoreConfig, FastingTimes, PrayerTimes } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV, JSON and Markdown exports of a timetable (a range of `FastingTimes` or
+// `PrayerTimes`, e.g. from `getRamadanFastingTimes`).
+//
+// Times are written as local wall-clock times in the configured time zone. Days
+// without times (`null` rows) are kept as rows with empty times and the status
+// `'unavailable'`; days that used a high-latitude or polar rule are marked
+// `'fallback'`. Ranges are consecutive days, so a `null` row's date is derived
+// from its neighbours (or from `startDate`).
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TimetableColumn =
+    | 'date' | 'hijriDate'
+    | 'imsak' | 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha' | 'midnight' | 'lastThirdOfNight'
+    | 'fastingDuration' | 'status';
+
+/**
+ * - `'normal'`      — computed directly.
+ * - `'fallback'`    — a high-latitude fallback, bound or polar strategy supplied some times.
+ * - `'unavailable'` — no times for this day.
+ */
+export type TimetableRowStatus = 'normal' | 'fallback' | 'unavailable';
+
+type TimeColumn = Extract<TimetableColumn, 'imsak' | 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha' | 'midnight' | 'lastThirdOfNight'>;
+
+const TIME_COLUMNS: readonly TimeColumn[] = ['imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha', 'midnight', 'lastThirdOfNight'];
+
+const ALL_COLUMNS: readonly TimetableColumn[] = ['date', 'hijriDate', ...TIME_COLUMNS, 'fastingDuration', 'status'];
+
+const COLUMN_LABELS: Record<TimetableColumn, string> = {
+    date: 'Date',
+    hijriDate: 'Hijri',
+    imsak: 'Imsak',
+    fajr: 'Fajr',
+    sunrise: 'Sunrise',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha',
+    midnight: 'Midnight',
+    lastThirdOfNight: 'Last third',
+    fastingDuration: 'Fasting',
+    status: 'Status',
+};
+
+export interface TimetableExportOptions {
+    /**
+     * Columns, in order. Default: the date, the Hijri date (when the rows have
+     * one), the times of the row type, the fasting duration (fasting rows) and the status.
+     */
+    columns?: readonly TimetableColumn[];
+    /** Write times as `HH:MM:SS` instead of `HH:MM`. Default: false. */
+    withSeconds?: boolean;
+    /** Date of the first row. Default: derived from the first non-null row. */
+    startDate?: Date;
+}
+
+export interface CsvExportOptions extends TimetableExportOptions {
+    /** Field delimiter. Default: `','`; use `';'` for Excel in comma-decimal locales. */
+    delimiter?: string;
+    /** Prefix a UTF-8 byte-order mark so Excel detects the encoding. Default: false. */
+    bom?: boolean;
+    /** Header labels, overriding the column names. */
+    headers?: Partial<Record<TimetableColumn, string>>;
+}
+
+/** One day of `toJson` output. */
+export interface TimetableJsonDay {
+    /** Gregorian date, `YYYY-MM-DD`. */
+    date: string | null;
+    /** Hijri date, `YYYY-MM-DD`, or `null` when `hijriCalendar` is not configured. */
+    hijriDate: string | null;
+    status: TimetableRowStatus;
+    /** Local times as ISO 8601 with offset (`2024-03-11T05:03:12+03:00`), or `null` when unavailable. */
+    times: Partial<Record<TimeColumn, string>> | null;
+    fastingDurationMinutes: number | null;
+}
+
+/** The document produced by `toJson`. */
+export interface TimetableJson {
+    version: 1;
+    location: { latitude: number; longitude: number; timeZone: string | null };
+    days: TimetableJsonDay[];
+}
+
+type Row = FastingTimes | PrayerTimes | null;
+
+function isFastingTimes(day: FastingTimes | PrayerTimes): day is FastingTimes {
+    return 'imsak' in day;
+}
+
+function getTime(day: FastingTimes | PrayerTimes, column: TimeColumn): Date | undefined {
+    if (isFastingTimes(day)) {
+        if (column === 'dhuhr') return day.solarNoon;
+        return column === 'imsak' || column === 'fajr' || column === 'sunrise' || column === 'maghrib' ? day[column] : undefined;
+    }
+    return column === 'imsak' ? undefined : day[column];
+}
+
+function getStatus(day: Row): TimetableRowStatus {
+    if (!day) return 'unavailable';
+    return day.highLatitudeFallbackApplied || day.polar ? 'fallback' : 'normal';
+}
+
+/** The calendar date of each row; `null` rows take theirs from the nearest computed row. */
+export function getRowDates(days: readonly Row[], startDate?: Date): (Date | null)[] {
+    const index = days.findIndex(d => d !== null);
+    const anchor = startDate
+        ? { date: startDate, index: 0 }
+        : index >= 0 ? { date: days[index]!.date, index } : null;
+    return days.map((day, i) => {
+        if (day) return day.date;
+        if (!anchor) return null;
+        return new Date(anchor.date.getFullYear(), anchor.date.getMonth(), anchor.date.getDate() + i - anchor.index);
+    });
+}
+
+function resolveColumns(days: readonly Row[], columns: readonly TimetableColumn[] | undefined): TimetableColumn[] {
+    if (columns) {
+        for (const column of columns) {
+            if (!ALL_COLUMNS.includes(column)) {
+                throw new RangeError(`columns must contain only: ${ALL_COLUMNS.join(', ')}. Received: ${column}`);
+            }
+        }
+        return [...columns];
+    }
+    const rows = days.filter((d): d is FastingTimes | PrayerTimes => d !== null);
+    const fasting = rows.length === 0 || rows.some(isFastingTimes);
+    return [
+        'date',
+        ...(rows.some(d => d.hijriDate) ? ['hijriDate' as const] : []),
+        ...(fasting
+            ? ['imsak', 'fajr', 'sunrise', 'dhuhr', 'maghrib', 'fastingDuration'] as const
+            : ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'] as const),
+        'status',
+    ];
+}
+
+function pad(n: number): string {
+    return n.toString().padStart(2, '0');
+}
+
+function formatDate(date: Date): string {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** `+HH:MM` / `-HH:MM`. */
+function formatOffset(minutes: number): string {
+    const abs = Math.abs(minutes);
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/** The time zone argument for `formatLocalTime`: the IANA zone, or the row's fixed offset. */
+function getZone(day: FastingTimes | PrayerTimes, config: RamadanCoreConfig): number | string {
+    return config.timeZone ?? day.timezoneOffsetMinutes;
+}
+
+/** Plain-text cell values, shared by the CSV and Markdown exports. */
+function getCells(
+    days: readonly Row[],
+    config: RamadanCoreConfig,
+    columns: readonly TimetableColumn[],
+    options: TimetableExportOptions,
+    formatMinutes: (minutes: number) => string,
+): string[][] {
+    const dates = getRowDates(days, options.startDate);
+    return days.map((day, i) => columns.map((column): string => {
+        switch (column) {
+            case 'date': return dates[i] ? formatDate(dates[i]!) : '';
+            case 'hijriDate': return day?.hijriDate ? formatHijriDate(day.hijriDate) : '';
+            case 'status': return getStatus(day);
+            case 'fastingDuration':
+                return day && isFastingTimes(day) ? formatMinutes(day.fastingDurationMinutes) : '';
+            default: {
+                const time = day && getTime(day, column);
+                return time ? formatLocalTime(time, getZone(day, config), options.withSeconds) : '';
+            }
+        }
+    }));
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+function escapeCsv(value: string, delimiter: string): string {
+    return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Renders a timetable as CSV (RFC 4180, CRLF line endings) with a header row.
+ * The fasting duration is written in whole minutes.
+ *
+ * ```ts
+ * toCsv(getRamadanFastingTimes(start, end, config), config, { delimiter: ';', bom: true });
+ * ```
+ *
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function toCsv(days: readonly Row[], config: RamadanCoreConfig, options: CsvExportOptions = {}): string {
+    validateConfig(config);
+    const { delimiter = ',', bom = false } = options;
+    if (typeof delimiter !== 'string' || delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+        throw new RangeError(`delimiter must be a single character other than a quote or line break. Received: ${delimiter}`);
+    }
+
+    const columns = resolveColumns(days, options.columns);
+    const header = columns.map(c => options.headers?.[c] ?? c);
+    const rows = [header, ...getCells(days, config, columns, options, m => Math.round(m).toString())];
+    const body = rows.map(row => row.map(v => escapeCsv(v, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+    return bom ? `\uFEFF${body}` : body;
+}
+
+// ── JSON ─────────────────────────────────────────────────────────────────────
+
+/** A local ISO 8601 date-time with offset, e.g. `2024-03-11T05:03:12+03:00`. */
+function toLocalIso(date: Date, zone: number | string): string {
+    const offset = typeof zone === 'string' ? getOffsetMinutesForTimezone(zone, date) : zone;
+    const local = new Date(date.getTime() + offset * 60000);
+    return `${local.toISOString().slice(0, 19)}${formatOffset(offset)}`;
+}
+
+/**
+ * Renders a timetable as JSON following the `TimetableJson` schema. Only the
+ * time columns of `columns` are used; `times` holds those the row type has.
+ *
+ * @param space  Indentation passed to `JSON.stringify`. Default: 2.
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function toJson(
+    days: readonly Row[],
+    config: RamadanCoreConfig,
+    options: Omit<TimetableExportOptions, 'withSeconds'> = {},
+    space: number | string = 2,
+): string {
+    validateConfig(config);
+    const columns = resolveColumns(days, options.columns ?? ALL_COLUMNS);
+    const timeColumns = TIME_COLUMNS.filter(c => columns.includes(c));
+    const dates = getRowDates(days, options.startDate);
+
+    const document: TimetableJson = {
+        version: 1,
+        location: { latitude: config.latitude, longitude: config.longitude, timeZone: config.timeZone ?? null },
+        days: days.map((day, i): TimetableJsonDay => {
+            const hijri = day?.hijriDate;
+            let times: TimetableJsonDay['times'] = null;
+            if (day) {
+                times = {};
+                for (const column of timeColumns) {
+                    const time = getTime(day, column);
+                    if (time) times[column] = toLocalIso(time, getZone(day, config));
+                }
+            }
+            return {
+                date: dates[i] ? formatDate(dates[i]!) : null,
+                hijriDate: hijri ? `${hijri.year}-${pad(hijri.month)}-${pad(hijri.day)}` : null,
+                status: getStatus(day),
+                times,
+                fastingDurationMinutes: day && isFastingTimes(day) ? day.fastingDurationMinutes : null,
+            };
+        }),
+    };
+    return JSON.stringify(document, null, space);
+}
+
+// ── Markdown ─────────────────────────────────────────────────────────────────
+
+/**
+ * Renders a timetable as a GitHub-flavoured Markdown table. Unavailable times
+ * are shown as `—` and the fasting duration as e.g. `13h 12m`.
+ *
+ * @throws {RangeError} if the config or options are invalid.
+ */
+export function toMarkdown(days: readonly Row[], config: RamadanCoreConfig, options: TimetableExportOptions = {}): string {
+    validateConfig(config);
+    const columns = resolveColumns(days, options.columns);
+    const cells = getCells(days, config, columns, options, formatDuration);
+
+    const line = (values: string[]) => `| ${values.map(v => v.replace(/\|/g, '\\|')).join(' | ')} |`;
+    return [
+        line(columns.map(c => COLUMN_LABELS[c])),
+        line(columns.map(() => '---')),
+        ...cells.map(row => line(row.map(v => v || '—'))),
+    ].join('\n') + '\n';
+}
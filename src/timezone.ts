@@ -0,0 +1,87 @@
+import type { RamadanCoreConfig } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTC offset resolution for fixed offsets and IANA time zones.
+//
+// IANA zones are resolved through the native Intl API, which applies the
+// correct daylight-saving rules for each exact instant.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calculates current timezone offset in minutes for a given IANA timezone string.
+ * Native Intl API handles daylight saving time correctly based on the exact date.
+ */
+export function getOffsetMinutesForTimezone(timezone: string, date: Date): number {
+    const dateString = date.toLocaleString('en-US', { timeZone: timezone, timeZoneName: 'shortOffset' });
+    const match = dateString.match(/GMT([+-])(\d{1,2})(?::(\d{2}))?/);
+
+    if (!match) return 0; // Fallback for UTC
+
+    const sign = match[1] === '-' ? -1 : 1;
+    const hours = parseInt(match[2], 10);
+    const minutes = match[3] ? parseInt(match[3], 10) : 0;
+
+    // Returning minutes (e.g., UTC+4 -> 240, UTC-5 -> -300)
+    return sign * ((hours * 60) + minutes);
+}
+
+/**
+ * Returns the UTC instant of a local wall-clock time in an IANA time zone.
+ * Wall-clock times skipped by a DST switch resolve to the offset after it.
+ */
+function zonedTimeToUTC(timeZone: string, year: number, month: number, day: number, hours: number): number {
+    const wall = Date.UTC(year, month, day, hours);
+    const first = getOffsetMinutesForTimezone(timeZone, new Date(wall));
+    const second = getOffsetMinutesForTimezone(timeZone, new Date(wall - first * 60000));
+    return wall - second * 60000;
+}
+
+/**
+ * Resolves the UTC offset (minutes) in effect at local noon on the calendar day
+ * of `date`, from either `timeZone` or the fixed `timezoneOffsetMinutes`.
+ */
+export function resolveTimezoneOffset(
+    date: Date, config: Pick<RamadanCoreConfig, 'timezoneOffsetMinutes' | 'timeZone'>,
+): number {
+    if (!config.timeZone) return config.timezoneOffsetMinutes ?? 0;
+    const noon = zonedTimeToUTC(config.timeZone, date.getFullYear(), date.getMonth(), date.getDate(), 12);
+    return getOffsetMinutesForTimezone(config.timeZone, new Date(noon));
+}
+
+/**
+ * Whether the local calendar day of `date` in `timeZone` contains a DST
+ * transition (i.e. it lasts 23 or 25 hours).
+ */
+export function hasTimezoneTransition(date: Date, timeZone: string): boolean {
+    const y = date.getFullYear();
+    const m = date.getMonth();
+    const d = date.getDate();
+    const start = zonedTimeToUTC(timeZone, y, m, d, 0);
+    const end = zonedTimeToUTC(timeZone, y, m, d + 1, 0);
+    return end - start !== 86400000
+        || getOffsetMinutesForTimezone(timeZone, new Date(start)) !== getOffsetMinutesForTimezone(timeZone, new Date(end - 1));
+}
+
+/**
+ * The calendar day that the instant `now` falls on in the configured time zone,
+ * as a local-midnight `Date` suitable for `getDayPrayerTimes`.
+ */
+export function getLocalDate(now: Date, config: Pick<RamadanCoreConfig, 'timezoneOffsetMinutes' | 'timeZone'>): Date {
+    const offset = config.timeZone
+        ? getOffsetMinutesForTimezone(config.timeZone, now)
+        : config.timezoneOffsetMinutes ?? 0;
+    const local = new Date(now.getTime() + offset * 60000);
+    return new Date(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone identifier known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -1,16 +1,96 @@
+import type { HijriCalendar, HijriDate } from './hijri';
+import type { MoonDayInfo } from './moon';
+import type { SolarEphemeris } from './astronomy';
+import type { VoluntaryPrayerSettings, ForbiddenWindow } from './voluntary';
+
 /**
  * High-latitude fallback strategies when true Fajr or Maghrib
  * cannot be computed because the sun never reaches the required angle.
  *
  * - `'none'`             — return `null` (default)
- * - `'middle-of-night'`  — Fajr = midpoint between sunset and sunrise of the closest
- *                          "normal" day; Maghrib = mirror. (A common scholarly opinion.)
+ * - `'middle-of-night'`  — Fajr no earlier than the middle of the night (sunset → sunrise);
+ *                          Isha no later than the middle. (A common scholarly opinion.)
  * - `'one-seventh'`      — divide the night into seven parts; Fajr begins at the last seventh.
  *                          (Based on a hadith-derived estimation method.)
  * - `'angle-based'`      — if the twilight angle fails, fall back to a shallower angle
  *                          (e.g. 15°) and then apply a proportional adjustment.
+ * - `'nearest-latitude'` — take the missing times from `highLatitudeReferenceLatitude`
+ *                          at the observer's own longitude and time zone (aqrab al-bilad).
+ *                          Also covers days without sunrise or sunset.
+ * - `'nearest-day'`      — reuse the clock times of the closest day on which all times
+ *                          occur at the observer's location (aqrab al-ayyam).
+ */
+export type HighLatitudeMode = 'none' | 'middle-of-night' | 'one-seventh' | 'angle-based' | 'nearest-latitude' | 'nearest-day';
+
+/**
+ * Strategies for days on which the sun does not rise or does not set.
+ *
+ * - `'none'`             — leave such days to `highLatitudeMode` (default)
+ * - `'mecca'`            — follow the timings of Mecca
+ * - `'reference'`        — follow the timings of `polarReferenceLocation`
+ * - `'nearest-latitude'` — follow the nearest latitude (same longitude) where the
+ *                          sun both rises and sets on that day
+ *
+ * The reference's durations are kept and centred on the observer's own solar noon.
+ */
+export type PolarStrategy = 'none' | 'mecca' | 'reference' | 'nearest-latitude';
+
+/**
+ * How a polar day was resolved, attached to results when `polarStrategy` applied.
  */
-export type HighLatitudeMode = 'none' | 'middle-of-night' | 'one-seventh' | 'angle-based';
+export interface PolarInfo {
+    /** Whether the sun stayed up (`'midnight-sun'`) or down (`'polar-night'`) all day. */
+    condition: 'midnight-sun' | 'polar-night';
+    strategy: Exclude<PolarStrategy, 'none'>;
+    /** Location whose timings were followed. */
+    referenceLatitude: number;
+    referenceLongitude: number;
+}
+
+/**
+ * Named calculation-method presets of well-known authorities.
+ * See `CALCULATION_METHODS` for the parameters each one resolves to.
+ */
+export type CalculationMethod =
+    | 'mwl'
+    | 'isna'
+    | 'egyptian'
+    | 'umm-al-qura'
+    | 'karachi'
+    | 'tehran'
+    | 'diyanet'
+    | 'jakim'
+    | 'muis'
+    | 'kemenag'
+    | 'kuwait'
+    | 'qatar'
+    | 'dubai'
+    | 'uoif';
+
+/**
+ * Fixed minutes added to individual prayer times (negative values move them earlier).
+ */
+export interface PrayerAdjustments {
+    fajr?: number;
+    sunrise?: number;
+    dhuhr?: number;
+    asr?: number;
+    maghrib?: number;
+    isha?: number;
+}
+
+/**
+ * How published times are rounded to the whole minute.
+ *
+ * - `'none'`     — keep exact times (default)
+ * - `'nearest'`  — round to the nearest minute
+ * - `'up'`       — round every time up
+ * - `'down'`     — round every time down
+ * - `'safe'`     — round towards caution: Fajr, Imsak, sunrise and midnight down;
+ *                  Maghrib and the start of every other prayer up; forbidden
+ *                  windows widened
+ */
+export type RoundingPolicy = 'none' | 'nearest' | 'up' | 'down' | 'safe';
 
 // ─── Configuration ────────────────────────────────────────────────────────────
 
@@ -19,8 +99,40 @@ export interface RamadanCoreConfig {
     latitude: number;
     /** Longitude in decimal degrees (-180 to 180). */
     longitude: number;
-    /** UTC offset in minutes for the location (e.g. +240 for UTC+4, -300 for UTC-5). */
-    timezoneOffsetMinutes: number;
+    /**
+     * Fixed UTC offset in minutes for the location (e.g. +240 for UTC+4, -300 for UTC-5).
+     * Required unless `timeZone` is given.
+     */
+    timezoneOffsetMinutes?: number;
+    /**
+     * IANA time zone (e.g. `'Europe/London'`), as an alternative to `timezoneOffsetMinutes`.
+     * The offset is resolved per calendar day, so daylight-saving switches are honoured.
+     */
+    timeZone?: string;
+
+    /**
+     * Observer elevation in metres above sea level. Sunrise and Maghrib are
+     * corrected for the resulting horizon dip. Default: 0.
+     */
+    elevationMeters?: number;
+    /**
+     * Elevation in metres of the surrounding visible horizon (e.g. a mountain
+     * ridge or an obstructed skyline). The dip uses the observer's height above
+     * this horizon. Default: 0 (sea-level horizon).
+     */
+    horizonElevationMeters?: number;
+    /**
+     * Distance in metres to a horizon higher than the observer. The raised
+     * horizon delays sunrise and brings Maghrib forward. Required when
+     * `horizonElevationMeters` is above `elevationMeters`, unless
+     * `horizonAltitudeDegrees` is set.
+     */
+    horizonDistanceMeters?: number;
+    /**
+     * Measured altitude of the visible horizon in degrees, positive above the
+     * astronomical horizon. Overrides the elevation-based horizon.
+     */
+    horizonAltitudeDegrees?: number;
 
     // ── Safety margins (minutes, default 0) ──────────────────────────────────
 
@@ -29,19 +141,85 @@ export interface RamadanCoreConfig {
     /** Break fast this many minutes AFTER sunset. Default: 0. */
     maghribDelayMinutes?: number;
 
+    // ── Timetable tuning ─────────────────────────────────────────────────────
+
+    /** Minutes added to individual prayers, e.g. `{ dhuhr: 2, maghrib: 3 }`. Default: none. */
+    adjustments?: PrayerAdjustments;
+    /** Rounding of the published times to whole minutes. Default: 'none'. */
+    rounding?: RoundingPolicy;
+
     // ── Calculation sensitivity ──────────────────────────────────────────────
 
-    /** Degrees below the horizon that defines true Fajr. Default: 18. */
+    /** Named preset supplying Fajr/Isha parameters. Explicit fields below override it. */
+    method?: CalculationMethod;
+    /** Degrees below the horizon that defines true Fajr. Default: 18 (or the method's value). */
     fajrTwilightAngle?: number;
-    /** Degrees below the horizon that defines Isha. Default: 18. */
+    /** Degrees below the horizon that defines Isha. Default: 18 (or the method's value). */
     ishaTwilightAngle?: number;
+    /**
+     * Isha as a fixed number of minutes after Maghrib instead of a twilight angle
+     * (e.g. 90 for Umm al-Qura). Cannot be combined with `ishaTwilightAngle`.
+     */
+    ishaIntervalMinutes?: number;
+    /** Isha interval used on Ramadan days instead of `ishaIntervalMinutes` (e.g. 120). */
+    ishaIntervalMinutesRamadan?: number;
+    /**
+     * Treat the requested day as a Ramadan day (selects `ishaIntervalMinutesRamadan`).
+     * Default: derived from `hijriCalendar` when set, otherwise false.
+     */
+    isRamadan?: boolean;
     /** Jurisprudential method for Asr shadow length. Default: 'standard'. */
     asrMethod?: 'standard' | 'hanafi';
+    /**
+     * Overrides for the forbidden-window altitudes/durations and Duha start.
+     * Default: the preset of the `asrMethod` school (see `VOLUNTARY_PRAYER_PRESETS`).
+     */
+    voluntaryPrayer?: Partial<VoluntaryPrayerSettings>;
+
+    // ── Hijri calendar ───────────────────────────────────────────────────────
+
+    /** When set, each result carries its Hijri date in this calendar. Default: unset. */
+    hijriCalendar?: HijriCalendar;
+
+    // ── Moon ─────────────────────────────────────────────────────────────────
+
+    /** When true, each result carries a `moon` block (rise/set, illumination, phase). Default: false. */
+    includeMoon?: boolean;
+
+    // ── Precision ────────────────────────────────────────────────────────────
+
+    /**
+     * `'standard'` evaluates the sun's position once at local noon (±1-2 min).
+     * `'high'` re-evaluates it at each event time until convergence and rounds
+     * results to the nearest second. Default: 'standard'.
+     */
+    precision?: 'standard' | 'high';
+    /**
+     * Solar model: `'noaa'` (fast, ±1 min), `'vsop87'` (truncated VSOP87 with
+     * ΔT, ±1 s in solar position) or a custom `SolarEphemeris`. Default: 'noaa'.
+     */
+    ephemeris?: 'noaa' | 'vsop87' | SolarEphemeris;
 
     // ── High-latitude handling ───────────────────────────────────────────────
 
     /** Strategy when the sun never dips to the required angle. Default: 'none'. */
     highLatitudeMode?: HighLatitudeMode;
+    /**
+     * Reference latitude (degrees, same hemisphere as the observer) used by the
+     * `'nearest-latitude'` mode, e.g. 45 or 48.5. Default: 45.
+     */
+    highLatitudeReferenceLatitude?: number;
+    /**
+     * When set, `highLatitudeMode` also acts as a bound on every day at or above this
+     * absolute latitude: a Fajr (or angle-based Isha) that falls outside the mode's
+     * night portion is moved to its edge. Requires a mode that defines a night portion
+     * (not `'none'` or `'nearest-day'`). Default: unset (fallback only when times are missing).
+     */
+    highLatitudeClampLatitude?: number;
+    /** Strategy for days without sunrise or sunset (midnight sun, polar night). Default: 'none'. */
+    polarStrategy?: PolarStrategy;
+    /** Location followed by the `'reference'` polar strategy, e.g. a nearby city. */
+    polarReferenceLocation?: { latitude: number; longitude: number };
 }
 
 // ─── Output ───────────────────────────────────────────────────────────────────
@@ -61,8 +239,20 @@ export interface FastingTimes {
     maghrib: Date;
     /** Total fasting duration in minutes (maghrib – fajr). */
     fastingDurationMinutes: number;
-    /** Whether a high-latitude fallback was applied for this day. */
+    /** UTC offset in minutes in effect at local noon of this day. */
+    timezoneOffsetMinutes: number;
+    /** Whether a daylight-saving transition occurs on this day (a 23- or 25-hour day). */
+    dstTransition: boolean;
+    /** Whether a high-latitude fallback or bound was applied for this day. */
     highLatitudeFallbackApplied: boolean;
+    /** The day whose clock times were reused, present when `'nearest-day'` supplied them. */
+    highLatitudeSourceDate?: Date;
+    /** Present on days without sunrise or sunset whose times came from `polarStrategy`. */
+    polar?: PolarInfo;
+    /** The Hijri date of this day, present when `hijriCalendar` is configured. */
+    hijriDate?: HijriDate;
+    /** Moonrise, moonset and illumination, present when `includeMoon` is set. */
+    moon?: MoonDayInfo;
 }
 
 export interface PrayerTimes {
@@ -80,6 +270,30 @@ export interface PrayerTimes {
     maghrib: Date;
     /** Nightfall / Isha. */
     isha: Date;
-    /** Whether a high-latitude fallback was applied for this day. */
+    /** Islamic midnight — halfway between Maghrib and the next day's Fajr. */
+    midnight: Date;
+    /** Midnight by the sunset-to-sunrise convention — halfway between Maghrib and the next day's sunrise. */
+    midnightSunrise: Date;
+    /** Start of the last third of the night (Maghrib to the next day's Fajr), for Qiyam/Tahajjud. */
+    lastThirdOfNight: Date;
+    /** Times when voluntary prayer is disliked: after sunrise, at zawal and before Maghrib. */
+    forbiddenWindows: ForbiddenWindow[];
+    /** Ishraq — the sun has risen a spear's length; the sunrise window ends. */
+    ishraq: Date;
+    /** Start of the preferred time for Duha (lasts until the zawal window). */
+    duha: Date;
+    /** UTC offset in minutes in effect at local noon of this day. */
+    timezoneOffsetMinutes: number;
+    /** Whether a daylight-saving transition occurs on this day (a 23- or 25-hour day). */
+    dstTransition: boolean;
+    /** Whether a high-latitude fallback or bound was applied for this day. */
     highLatitudeFallbackApplied: boolean;
+    /** The day whose clock times were reused, present when `'nearest-day'` supplied them. */
+    highLatitudeSourceDate?: Date;
+    /** Present on days without sunrise or sunset whose times came from `polarStrategy`. */
+    polar?: PolarInfo;
+    /** The Hijri date of this day, present when `hijriCalendar` is configured. */
+    hijriDate?: HijriDate;
+    /** Moonrise, moonset and illumination, present when `includeMoon` is set. */
+    moon?: MoonDayInfo;
 }
@@ -1,4 +1,6 @@
 import type { RamadanCoreConfig } from './types';
+import { CALCULATION_METHODS } from './methods';
+import { isValidTimeZone } from './timezone';
 
 /**
  * Validates a RamadanCoreConfig and throws descriptive errors for invalid values.
@@ -18,12 +20,53 @@ export function validateConfig(config: RamadanCoreConfig): void {
         throw new RangeError(`longitude must be between -180 and 180. Received: ${config.longitude}`);
     }
 
-    if (config.timezoneOffsetMinutes == null || typeof config.timezoneOffsetMinutes !== 'number' || Number.isNaN(config.timezoneOffsetMinutes)) {
-        throw new RangeError('timezoneOffsetMinutes is required and must be a number.');
+    if (config.timeZone != null) {
+        if (typeof config.timeZone !== 'string' || !isValidTimeZone(config.timeZone)) {
+            throw new RangeError(`timeZone must be a valid IANA time zone. Received: ${config.timeZone}`);
+        }
+        if (config.timezoneOffsetMinutes != null) {
+            throw new RangeError('timezoneOffsetMinutes and timeZone cannot both be specified.');
+        }
+    } else {
+        if (config.timezoneOffsetMinutes == null || typeof config.timezoneOffsetMinutes !== 'number' || Number.isNaN(config.timezoneOffsetMinutes)) {
+            throw new RangeError('timezoneOffsetMinutes is required and must be a number (or specify timeZone).');
+        }
+        // Reasonable range: UTC-12 to UTC+14
+        if (config.timezoneOffsetMinutes < -720 || config.timezoneOffsetMinutes > 840) {
+            throw new RangeError(`timezoneOffsetMinutes must be between -720 and 840. Received: ${config.timezoneOffsetMinutes}`);
+        }
+    }
+
+    if (config.elevationMeters != null) {
+        if (typeof config.elevationMeters !== 'number' || Number.isNaN(config.elevationMeters) || config.elevationMeters < -500 || config.elevationMeters > 15000) {
+            throw new RangeError(`elevationMeters must be a number between -500 and 15000. Received: ${config.elevationMeters}`);
+        }
+    }
+
+    if (config.horizonElevationMeters != null) {
+        if (typeof config.horizonElevationMeters !== 'number' || Number.isNaN(config.horizonElevationMeters) || config.horizonElevationMeters < -500 || config.horizonElevationMeters > 9000) {
+            throw new RangeError(`horizonElevationMeters must be a number between -500 and 9000. Received: ${config.horizonElevationMeters}`);
+        }
+    }
+
+    if (config.horizonDistanceMeters != null) {
+        if (typeof config.horizonDistanceMeters !== 'number' || Number.isNaN(config.horizonDistanceMeters) || config.horizonDistanceMeters < 1 || config.horizonDistanceMeters > 500000) {
+            throw new RangeError(`horizonDistanceMeters must be a number between 1 and 500000. Received: ${config.horizonDistanceMeters}`);
+        }
+    }
+
+    if (config.horizonAltitudeDegrees != null) {
+        if (typeof config.horizonAltitudeDegrees !== 'number' || Number.isNaN(config.horizonAltitudeDegrees) || config.horizonAltitudeDegrees < -5 || config.horizonAltitudeDegrees > 45) {
+            throw new RangeError(`horizonAltitudeDegrees must be a number between -5 and 45. Received: ${config.horizonAltitudeDegrees}`);
+        }
     }
-    // Reasonable range: UTC-12 to UTC+14
-    if (config.timezoneOffsetMinutes < -720 || config.timezoneOffsetMinutes > 840) {
-        throw new RangeError(`timezoneOffsetMinutes must be between -720 and 840. Received: ${config.timezoneOffsetMinutes}`);
+
+    // A horizon above the observer only has an angle once its distance is known.
+    if (config.horizonAltitudeDegrees == null && config.horizonDistanceMeters == null
+        && (config.horizonElevationMeters ?? 0) > (config.elevationMeters ?? 0)) {
+        throw new RangeError(
+            `horizonDistanceMeters (or horizonAltitudeDegrees) is required when horizonElevationMeters is above elevationMeters. Received: ${config.horizonElevationMeters} > ${config.elevationMeters ?? 0}`,
+        );
     }
 
     if (config.imsakMarginMinutes != null) {
@@ -44,7 +87,119 @@ export function validateConfig(config: RamadanCoreConfig): void {
         }
     }
 
-    const validModes = ['none', 'middle-of-night', 'one-seventh', 'angle-based'];
+    if (config.ishaTwilightAngle != null) {
+        if (typeof config.ishaTwilightAngle !== 'number' || config.ishaTwilightAngle < 10 || config.ishaTwilightAngle > 24) {
+            throw new RangeError(`ishaTwilightAngle must be a number between 10 and 24. Received: ${config.ishaTwilightAngle}`);
+        }
+    }
+
+    if (config.ishaIntervalMinutes != null) {
+        if (typeof config.ishaIntervalMinutes !== 'number' || config.ishaIntervalMinutes < 0 || config.ishaIntervalMinutes > 240) {
+            throw new RangeError(`ishaIntervalMinutes must be a number between 0 and 240. Received: ${config.ishaIntervalMinutes}`);
+        }
+    }
+
+    if (config.ishaIntervalMinutesRamadan != null) {
+        if (typeof config.ishaIntervalMinutesRamadan !== 'number' || config.ishaIntervalMinutesRamadan < 0 || config.ishaIntervalMinutesRamadan > 240) {
+            throw new RangeError(`ishaIntervalMinutesRamadan must be a number between 0 and 240. Received: ${config.ishaIntervalMinutesRamadan}`);
+        }
+    }
+
+    if (config.ishaTwilightAngle != null && (config.ishaIntervalMinutes != null || config.ishaIntervalMinutesRamadan != null)) {
+        throw new RangeError('ishaTwilightAngle and ishaIntervalMinutes cannot both be specified.');
+    }
+
+    if (config.adjustments != null) {
+        for (const [prayer, minutes] of Object.entries(config.adjustments)) {
+            if (!['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'].includes(prayer)) {
+                throw new RangeError(`adjustments may only contain fajr, sunrise, dhuhr, asr, maghrib, isha. Received: ${prayer}`);
+            }
+            if (minutes != null && (typeof minutes !== 'number' || Number.isNaN(minutes) || minutes < -60 || minutes > 60)) {
+                throw new RangeError(`adjustments.${prayer} must be a number between -60 and 60. Received: ${minutes}`);
+            }
+        }
+    }
+
+    if (config.voluntaryPrayer != null) {
+        const { sunriseAltitude, zawalMinutes, sunsetAltitude, duhaDayFraction } = config.voluntaryPrayer;
+        if (sunriseAltitude != null && (typeof sunriseAltitude !== 'number' || sunriseAltitude < 0 || sunriseAltitude > 20)) {
+            throw new RangeError(`voluntaryPrayer.sunriseAltitude must be a number between 0 and 20. Received: ${sunriseAltitude}`);
+        }
+        if (zawalMinutes != null && (typeof zawalMinutes !== 'number' || zawalMinutes < 0 || zawalMinutes > 60)) {
+            throw new RangeError(`voluntaryPrayer.zawalMinutes must be a number between 0 and 60. Received: ${zawalMinutes}`);
+        }
+        if (sunsetAltitude != null && (typeof sunsetAltitude !== 'number' || sunsetAltitude < 0 || sunsetAltitude > 20)) {
+            throw new RangeError(`voluntaryPrayer.sunsetAltitude must be a number between 0 and 20. Received: ${sunsetAltitude}`);
+        }
+        if (duhaDayFraction != null && (typeof duhaDayFraction !== 'number' || duhaDayFraction < 0 || duhaDayFraction > 0.5)) {
+            throw new RangeError(`voluntaryPrayer.duhaDayFraction must be a number between 0 and 0.5. Received: ${duhaDayFraction}`);
+        }
+    }
+
+    const validMethods = Object.keys(CALCULATION_METHODS);
+    if (config.method != null && !validMethods.includes(config.method)) {
+        throw new RangeError(`method must be one of: ${validMethods.join(', ')}. Received: ${config.method}`);
+    }
+
+    const validRoundings = ['none', 'nearest', 'up', 'down', 'safe'];
+    if (config.rounding != null && !validRoundings.includes(config.rounding)) {
+        throw new RangeError(`rounding must be one of: ${validRoundings.join(', ')}. Received: ${config.rounding}`);
+    }
+
+    const validPrecisions = ['standard', 'high'];
+    if (config.precision != null && !validPrecisions.includes(config.precision)) {
+        throw new RangeError(`precision must be one of: ${validPrecisions.join(', ')}. Received: ${config.precision}`);
+    }
+
+    const validEphemerides = ['noaa', 'vsop87'];
+    if (config.ephemeris != null) {
+        const isModel = typeof config.ephemeris === 'object' && typeof config.ephemeris.getSolarCoordinates === 'function';
+        if (!isModel && !validEphemerides.includes(config.ephemeris as string)) {
+            throw new RangeError(`ephemeris must be one of: ${validEphemerides.join(', ')}, or a SolarEphemeris. Received: ${String(config.ephemeris)}`);
+        }
+    }
+
+    const validCalendars = ['umm-al-qura', 'tabular'];
+    if (config.hijriCalendar != null && !validCalendars.includes(config.hijriCalendar)) {
+        throw new RangeError(`hijriCalendar must be one of: ${validCalendars.join(', ')}. Received: ${config.hijriCalendar}`);
+    }
+
+    if (config.highLatitudeReferenceLatitude != null) {
+        if (typeof config.highLatitudeReferenceLatitude !== 'number' || config.highLatitudeReferenceLatitude < 30 || config.highLatitudeReferenceLatitude > 60) {
+            throw new RangeError(`highLatitudeReferenceLatitude must be a number between 30 and 60. Received: ${config.highLatitudeReferenceLatitude}`);
+        }
+    }
+
+    if (config.highLatitudeClampLatitude != null) {
+        if (typeof config.highLatitudeClampLatitude !== 'number' || config.highLatitudeClampLatitude < 0 || config.highLatitudeClampLatitude > 90) {
+            throw new RangeError(`highLatitudeClampLatitude must be a number between 0 and 90. Received: ${config.highLatitudeClampLatitude}`);
+        }
+        const clampModes = ['middle-of-night', 'one-seventh', 'angle-based', 'nearest-latitude'];
+        if (!clampModes.includes(config.highLatitudeMode ?? 'none')) {
+            throw new RangeError(`highLatitudeClampLatitude requires highLatitudeMode to be one of: ${clampModes.join(', ')}. Received: ${config.highLatitudeMode ?? 'none'}`);
+        }
+    }
+
+    const validPolarStrategies = ['none', 'mecca', 'reference', 'nearest-latitude'];
+    if (config.polarStrategy != null && !validPolarStrategies.includes(config.polarStrategy)) {
+        throw new RangeError(`polarStrategy must be one of: ${validPolarStrategies.join(', ')}. Received: ${config.polarStrategy}`);
+    }
+
+    if (config.polarStrategy === 'reference' && config.polarReferenceLocation == null) {
+        throw new RangeError("polarReferenceLocation is required when polarStrategy is 'reference'.");
+    }
+
+    if (config.polarReferenceLocation != null) {
+        const { latitude, longitude } = config.polarReferenceLocation;
+        if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+            throw new RangeError(`polarReferenceLocation.latitude must be between -90 and 90. Received: ${latitude}`);
+        }
+        if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+            throw new RangeError(`polarReferenceLocation.longitude must be between -180 and 180. Received: ${longitude}`);
+        }
+    }
+
+    const validModes = ['none', 'middle-of-night', 'one-seventh', 'angle-based', 'nearest-latitude', 'nearest-day'];
     if (config.highLatitudeMode != null && !validModes.includes(config.highLatitudeMode)) {
         throw new RangeError(`highLatitudeMode must be one of: ${validModes.join(', ')}. Received: ${config.highLatitudeMode}`);
     }
@@ -0,0 +1,100 @@
+import { getTimeForAltitude } from './astronomy';
+import type { SolverOptions } from './astronomy';
+import type { RamadanCoreConfig } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Voluntary (nafl) prayer times: the three forbidden (makruh) windows and the
+// start of Ishraq and Duha.
+//
+// - Sunrise:  from sunrise until the sun has risen "a spear's length".
+// - Zawal:    the sun at its zenith, just before Dhuhr.
+// - Sunset:   from the yellowing of the sun until Maghrib.
+//
+// The spear's length and the yellowing are expressed as solar altitudes; the
+// defaults follow common practice and differ slightly between schools.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface VoluntaryPrayerSettings {
+    /** Solar altitude (degrees) that ends the sunrise window — "a spear's length". */
+    sunriseAltitude: number;
+    /** Length of the zawal window before Dhuhr, in minutes. */
+    zawalMinutes: number;
+    /** Solar altitude (degrees) at which the sun yellows and the sunset window begins. */
+    sunsetAltitude: number;
+    /** Duha begins once this fraction of the time from sunrise to Maghrib has passed. */
+    duhaDayFraction: number;
+}
+
+/**
+ * Default settings per school, selected by `RamadanCoreConfig.asrMethod`.
+ */
+export const VOLUNTARY_PRAYER_PRESETS: Readonly<Record<'standard' | 'hanafi', VoluntaryPrayerSettings>> = {
+    'standard': { sunriseAltitude: 4, zawalMinutes: 5, sunsetAltitude: 4, duhaDayFraction: 0.25 },
+    'hanafi': { sunriseAltitude: 5, zawalMinutes: 10, sunsetAltitude: 6, duhaDayFraction: 0.25 },
+};
+
+export type ForbiddenWindowKind = 'sunrise' | 'zawal' | 'sunset';
+
+/** An interval during which voluntary prayer is disliked (makruh). */
+export interface ForbiddenWindow {
+    kind: ForbiddenWindowKind;
+    start: Date;
+    end: Date;
+}
+
+export interface VoluntaryPrayerTimes {
+    /** The sunrise, zawal and sunset windows, in chronological order. */
+    forbiddenWindows: ForbiddenWindow[];
+    /** Ishraq — the end of the sunrise window. */
+    ishraq: Date;
+    /** Start of the preferred time for Duha. It lasts until the zawal window. */
+    duha: Date;
+}
+
+/**
+ * Resolves the voluntary-prayer settings for a config: the preset of its
+ * `asrMethod` school, then explicit `voluntaryPrayer` overrides.
+ */
+export function resolveVoluntaryPrayerSettings(config: RamadanCoreConfig): VoluntaryPrayerSettings {
+    return { ...VOLUNTARY_PRAYER_PRESETS[config.asrMethod ?? 'standard'], ...config.voluntaryPrayer };
+}
+
+/**
+ * Computes the forbidden windows and Ishraq/Duha for a day from its sunrise,
+ * Dhuhr and Maghrib.
+ *
+ * When the sun never climbs to the configured altitude (high latitudes in
+ * winter), the sunrise and sunset windows extend to the zawal window and Dhuhr
+ * respectively.
+ */
+export function getVoluntaryPrayerTimes(
+    localNoonUTC: Date,
+    latitude: number,
+    longitude: number,
+    tzOffset: number,
+    times: { sunrise: Date; dhuhr: Date; maghrib: Date },
+    settings: VoluntaryPrayerSettings,
+    options: SolverOptions = {},
+): VoluntaryPrayerTimes {
+    const { sunrise, dhuhr, maghrib } = times;
+    const zawalStart = new Date(dhuhr.getTime() - settings.zawalMinutes * 60000);
+
+    const risen = getTimeForAltitude(localNoonUTC, latitude, longitude, tzOffset, settings.sunriseAltitude, false, options);
+    const ishraq = new Date(Math.min(risen?.getTime() ?? zawalStart.getTime(), zawalStart.getTime()));
+
+    const yellowing = getTimeForAltitude(localNoonUTC, latitude, longitude, tzOffset, settings.sunsetAltitude, true, options);
+    const sunsetStart = new Date(Math.max(yellowing?.getTime() ?? dhuhr.getTime(), dhuhr.getTime()));
+
+    const quarter = sunrise.getTime() + settings.duhaDayFraction * (maghrib.getTime() - sunrise.getTime());
+    const duha = new Date(Math.min(Math.max(quarter, ishraq.getTime()), zawalStart.getTime()));
+
+    return {
+        forbiddenWindows: [
+            { kind: 'sunrise', start: sunrise, end: ishraq },
+            { kind: 'zawal', start: zawalStart, end: dhuhr },
+            { kind: 'sunset', start: sunsetStart, end: maghrib },
+        ],
+        ishraq,
+        duha,
+    };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { getDayPrayerTimes, getDeltaT, validateConfig, VSOP87_EPHEMERIS } from '../src/index';
+import type { RamadanCoreConfig, SolarEphemeris } from '../src/index';
+
+// ── Reference values ─────────────────────────────────────────────────────────
+//
+// UTC times at which the sun's centre reaches −18° (Fajr), −0.833° (sunrise),
+// −0.833° (sunset) and −18° (Isha), computed with a full-precision ephemeris
+// (astronomy-engine, VSOP87 + ΔT), the same convention used by the USNO tables.
+// `null` marks events that do not occur on that day.
+
+const LOCATIONS: Record<string, Pick<RamadanCoreConfig, 'latitude' | 'longitude' | 'timezoneOffsetMinutes'>> = {
+    SINGAPORE: { latitude: 1.3521, longitude: 103.8198, timezoneOffsetMinutes: 480 },
+    MECCA: { latitude: 21.4225, longitude: 39.8262, timezoneOffsetMinutes: 180 },
+    CAIRO: { latitude: 30.0444, longitude: 31.2357, timezoneOffsetMinutes: 120 },
+    NEW_YORK: { latitude: 40.7128, longitude: -74.006, timezoneOffsetMinutes: -300 },
+    LONDON: { latitude: 51.5085, longitude: -0.1257, timezoneOffsetMinutes: 0 },
+    OSLO: { latitude: 59.9139, longitude: 10.7522, timezoneOffsetMinutes: 60 },
+};
+
+type ReferenceRow = [string, [number, number, number], (string | null)[]];
+
+const REFERENCE: ReferenceRow[] = [
+    ['SINGAPORE', [2024, 2, 21], ['2024-03-20T21:59:51Z', '2024-03-20T23:08:32Z', '2024-03-21T11:15:06Z', '2024-03-21T12:23:47Z']],
+    ['SINGAPORE', [2024, 5, 21], ['2024-06-20T21:45:16Z', '2024-06-20T23:00:33Z', '2024-06-21T11:12:36Z', '2024-06-21T12:27:53Z']],
+    ['SINGAPORE', [2024, 11, 21], ['2024-12-20T21:46:27Z', '2024-12-20T23:01:28Z', '2024-12-21T11:04:16Z', '2024-12-21T12:19:16Z']],
+    ['MECCA', [2024, 2, 21], ['2024-03-21T02:09:39Z', '2024-03-21T03:23:36Z', '2024-03-21T15:32:10Z', '2024-03-21T16:46:13Z']],
+    ['MECCA', [2024, 5, 21], ['2024-06-21T01:13:59Z', '2024-06-21T02:39:24Z', '2024-06-21T16:05:46Z', '2024-06-21T17:31:10Z']],
+    ['MECCA', [2024, 11, 21], ['2024-12-21T02:34:35Z', '2024-12-21T03:54:03Z', '2024-12-21T14:43:48Z', '2024-12-21T16:03:16Z']],
+    ['CAIRO', [2024, 2, 21], ['2024-03-21T02:37:34Z', '2024-03-21T03:57:22Z', '2024-03-21T16:07:15Z', '2024-03-21T17:27:13Z']],
+    ['CAIRO', [2024, 5, 21], ['2024-06-21T01:17:46Z', '2024-06-21T02:54:28Z', '2024-06-21T16:59:26Z', '2024-06-21T18:36:07Z']],
+    ['CAIRO', [2024, 11, 21], ['2024-12-21T03:21:22Z', '2024-12-21T04:46:58Z', '2024-12-21T14:59:38Z', '2024-12-21T16:25:14Z']],
+    ['NEW_YORK', [2024, 2, 21], ['2024-03-21T09:24:57Z', '2024-03-21T10:56:51Z', '2024-03-21T23:09:46Z', '2024-03-22T00:41:56Z']],
+    ['NEW_YORK', [2024, 5, 21], ['2024-06-21T07:18:37Z', '2024-06-21T09:25:08Z', '2024-06-22T00:30:49Z', '2024-06-22T02:37:18Z']],
+    ['NEW_YORK', [2024, 11, 21], ['2024-12-21T10:37:57Z', '2024-12-21T12:16:48Z', '2024-12-21T21:32:01Z', '2024-12-21T23:10:53Z']],
+    ['LONDON', [2024, 2, 21], ['2024-03-21T04:06:09Z', '2024-03-21T06:00:01Z', '2024-03-21T18:16:01Z', '2024-03-21T20:10:24Z']],
+    ['LONDON', [2024, 5, 21], [null, '2024-06-21T03:43:11Z', '2024-06-21T20:21:38Z', null]],
+    ['LONDON', [2024, 11, 21], ['2024-12-21T05:59:36Z', '2024-12-21T08:03:59Z', '2024-12-21T15:53:35Z', '2024-12-21T17:57:58Z']],
+    ['OSLO', [2024, 2, 21], ['2024-03-21T02:48:28Z', '2024-03-21T05:14:29Z', '2024-03-21T17:34:56Z', '2024-03-21T20:02:04Z']],
+    ['OSLO', [2024, 5, 21], [null, '2024-06-21T01:53:50Z', '2024-06-21T20:43:55Z', null]],
+    ['OSLO', [2024, 11, 21], ['2024-12-21T05:32:42Z', '2024-12-21T08:18:22Z', '2024-12-21T14:12:10Z', '2024-12-21T16:57:50Z']],
+];
+
+// Dates a century either side of the present, where ΔT and the long-period
+// terms of the solar theory matter most.
+const FAR_REFERENCE: ReferenceRow[] = [
+    ['SINGAPORE', [1900, 5, 21], ['1900-06-20T21:44:45Z', '1900-06-20T23:00:03Z', '1900-06-21T11:12:06Z', '1900-06-21T12:27:23Z']],
+    ['SINGAPORE', [2100, 11, 21], ['2100-12-20T21:46:07Z', '2100-12-20T23:01:06Z', '2100-12-21T11:03:55Z', '2100-12-21T12:18:55Z']],
+    ['MECCA', [1900, 5, 21], ['1900-06-21T01:13:27Z', '1900-06-21T02:38:52Z', '1900-06-21T16:05:18Z', '1900-06-21T17:30:43Z']],
+    ['MECCA', [2100, 11, 21], ['2100-12-21T02:34:13Z', '2100-12-21T03:53:40Z', '2100-12-21T14:43:28Z', '2100-12-21T16:02:55Z']],
+    ['LONDON', [1900, 5, 21], [null, '1900-06-21T03:42:36Z', '1900-06-21T20:21:15Z', null]],
+    ['LONDON', [2100, 11, 21], ['2100-12-21T05:59:12Z', '2100-12-21T08:03:33Z', '2100-12-21T15:53:19Z', '2100-12-21T17:57:40Z']],
+];
+
+/** Absolute errors in seconds for every reference event. */
+function measureErrors(config: Partial<RamadanCoreConfig>, rows: ReferenceRow[] = REFERENCE): number[] {
+    const errors: number[] = [];
+    for (const [name, [y, m, d], expected] of rows) {
+        const times = getDayPrayerTimes(new Date(y, m, d), {
+            ...LOCATIONS[name],
+            fajrTwilightAngle: 18,
+            ishaTwilightAngle: 18,
+            ...config,
+        });
+        expect(times).not.toBeNull();
+        if (!times) continue;
+
+        const actual = [times.fajr, times.sunrise, times.maghrib, times.isha];
+        expected.forEach((iso, i) => {
+            if (iso) errors.push(Math.abs(actual[i].getTime() - Date.parse(iso)) / 1000);
+        });
+    }
+    return errors;
+}
+
+function summarize(errors: number[]): { max: number; mean: number } {
+    return {
+        max: Math.max(...errors),
+        mean: errors.reduce((a, b) => a + b, 0) / errors.length,
+    };
+}
+
+describe('accuracy against reference almanac values', () => {
+    it('stays within ±2 minutes in standard precision', () => {
+        const { max, mean } = summarize(measureErrors({ highLatitudeMode: 'one-seventh' }));
+        console.log(`standard precision — max error ${max.toFixed(1)} s, mean ${mean.toFixed(1)} s`);
+        expect(max).toBeLessThan(120);
+    });
+
+    it('stays within ±10 seconds in high precision', () => {
+        const { max, mean } = summarize(measureErrors({ highLatitudeMode: 'one-seventh', precision: 'high' }));
+        console.log(`high precision — max error ${max.toFixed(1)} s, mean ${mean.toFixed(1)} s`);
+        expect(max).toBeLessThan(10);
+    });
+
+    it('improves most at higher latitudes', () => {
+        const oslo = { ...LOCATIONS.OSLO, fajrTwilightAngle: 18 };
+        const standard = getDayPrayerTimes(new Date(2024, 2, 21), oslo)!;
+        const high = getDayPrayerTimes(new Date(2024, 2, 21), { ...oslo, precision: 'high' })!;
+        const reference = Date.parse(REFERENCE.find(([name, [, m]]) => name === 'OSLO' && m === 2)![2][0]!);
+
+        expect(Math.abs(standard.fajr.getTime() - reference)).toBeGreaterThan(60000);
+        expect(Math.abs(high.fajr.getTime() - reference)).toBeLessThan(10000);
+    });
+
+    it('rounds high-precision results to whole seconds', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 21), { ...LOCATIONS.MECCA, precision: 'high' })!;
+        for (const t of [times.fajr, times.sunrise, times.dhuhr, times.asr, times.maghrib, times.isha]) {
+            expect(t.getTime() % 1000).toBe(0);
+        }
+    });
+});
+
+describe('solar ephemeris models', () => {
+    it('stays within ±3 seconds with VSOP87 in high precision', () => {
+        const { max, mean } = summarize(measureErrors({ highLatitudeMode: 'one-seventh', precision: 'high', ephemeris: 'vsop87' }));
+        console.log(`VSOP87 high precision — max error ${max.toFixed(1)} s, mean ${mean.toFixed(1)} s`);
+        expect(max).toBeLessThan(3);
+    });
+
+    it('stays accurate a century from the present with VSOP87', () => {
+        const noaa = summarize(measureErrors({ highLatitudeMode: 'one-seventh', precision: 'high' }, FAR_REFERENCE));
+        const vsop = summarize(measureErrors({ highLatitudeMode: 'one-seventh', precision: 'high', ephemeris: 'vsop87' }, FAR_REFERENCE));
+        console.log(`1900/2100 — NOAA max ${noaa.max.toFixed(1)} s, VSOP87 max ${vsop.max.toFixed(1)} s`);
+        expect(vsop.max).toBeLessThan(3);
+        expect(vsop.mean).toBeLessThan(noaa.mean);
+    });
+
+    it('accepts a custom SolarEphemeris', () => {
+        let calls = 0;
+        const custom: SolarEphemeris = {
+            name: 'counting',
+            getSolarCoordinates(jd) {
+                calls++;
+                return VSOP87_EPHEMERIS.getSolarCoordinates(jd);
+            },
+        };
+        const config = { ...LOCATIONS.MECCA, precision: 'high' as const };
+        const viaCustom = getDayPrayerTimes(new Date(2024, 2, 21), { ...config, ephemeris: custom })!;
+        const viaName = getDayPrayerTimes(new Date(2024, 2, 21), { ...config, ephemeris: 'vsop87' })!;
+
+        expect(calls).toBeGreaterThan(0);
+        expect(viaCustom.fajr.getTime()).toBe(viaName.fajr.getTime());
+        expect(viaCustom.maghrib.getTime()).toBe(viaName.maghrib.getTime());
+    });
+
+    it('rejects unknown ephemeris names', () => {
+        expect(() => validateConfig({ ...LOCATIONS.MECCA, ephemeris: 'de440' as never })).toThrow(RangeError);
+    });
+});
+
+describe('getDeltaT', () => {
+    it('matches published values', () => {
+        expect(getDeltaT(1900)).toBeCloseTo(-2.8, 0);
+        expect(getDeltaT(1950)).toBeCloseTo(29.1, 0);
+        expect(getDeltaT(2000)).toBeCloseTo(63.9, 0);
+        expect(getDeltaT(2024)).toBeGreaterThan(69);
+        expect(getDeltaT(2024)).toBeLessThan(76);
+    });
+});
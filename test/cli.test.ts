@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { runCli } from '../src/cli';
+import { getDayPrayerTimes, getNextPrayer, formatLocalTime } from '../src/index';
+
+const MECCA_ARGS = ['--lat', '21.4225', '--lon', '39.8262', '--tz', '+03:00'];
+const NOW = new Date(Date.UTC(2024, 2, 15, 7)); // 10:00 in Mecca
+
+async function run(...argv: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(argv, {
+        stdout: text => { stdout += text; },
+        stderr: text => { stderr += text; },
+        now: () => NOW,
+    });
+    return { code, stdout, stderr };
+}
+
+describe('runCli', () => {
+    it('prints today\'s prayer times as an aligned table', async () => {
+        const { code, stdout } = await run('today', ...MECCA_ARGS);
+        const times = getDayPrayerTimes(new Date(2024, 2, 15), { latitude: 21.4225, longitude: 39.8262, timezoneOffsetMinutes: 180 })!;
+        const [header, row] = stdout.trimEnd().split('\n');
+
+        expect(code).toBe(0);
+        expect(header).toMatch(/^Date\s+Fajr\s+Sunrise\s+Dhuhr\s+Asr\s+Maghrib\s+Isha\s+Status$/);
+        expect(row.split(/\s{2,}/)).toEqual([
+            '2024-03-15', ...(['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'] as const).map(p => formatLocalTime(times[p], 180)), 'normal',
+        ]);
+    });
+
+    it('prints a month in any format', async () => {
+        const csv = await run('month', ...MECCA_ARGS, '--month', '2024-02', '--format', 'csv');
+        expect(csv.stdout.split('\r\n').filter(Boolean)).toHaveLength(30);
+
+        const json = JSON.parse((await run('month', ...MECCA_ARGS, '--from', '2024-03-01', '--to', '2024-03-03', '--format', 'json')).stdout);
+        expect(json.days.map((d: { date: string }) => d.date)).toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+
+        const ics = await run('today', ...MECCA_ARGS, '--format', 'ics');
+        expect(ics.stdout).toContain('BEGIN:VCALENDAR');
+    });
+
+    it('prints the Ramadan timetable of a Hijri year, defaulting to the current one', async () => {
+        const explicit = await run('ramadan', ...MECCA_ARGS, '--year', '1445', '--format', 'csv');
+        const lines = explicit.stdout.split('\r\n').filter(Boolean);
+        expect(lines).toHaveLength(31);
+        expect(lines[1]).toMatch(/^2024-03-11,1 Ramadan 1445,/);
+
+        expect((await run('ramadan', ...MECCA_ARGS, '--format', 'csv')).stdout).toBe(explicit.stdout);
+    });
+
+    it('prints the next prayer', async () => {
+        const { code, stdout } = await run('next', ...MECCA_ARGS);
+        const next = getNextPrayer(NOW, { latitude: 21.4225, longitude: 39.8262, timezoneOffsetMinutes: 180 })!;
+
+        expect(code).toBe(0);
+        expect(stdout).toMatch(new RegExp(`^dhuhr at ${formatLocalTime(next.time, 180)} \\(in \\d+h \\d+m\\) — fast [\\d.]+% complete\\n$`));
+        expect(JSON.parse((await run('next', ...MECCA_ARGS, '--format', 'json')).stdout).name).toBe('dhuhr');
+    });
+
+    it('accepts negative coordinates and offsets', async () => {
+        const { code, stdout } = await run('today', '--lat', '40.7128', '--lon', '-74.006', '--tz', '-300', '--format', 'json');
+        expect(code).toBe(0);
+        expect(JSON.parse(stdout).days[0].times.dhuhr).toMatch(/-05:00$/);
+    });
+
+    it('rejects bare --tz hours as ambiguous', async () => {
+        const { code, stderr } = await run('today', '--lat', '21.4225', '--lon', '39.8262', '--tz', '3');
+        expect(code).toBe(2);
+        expect(stderr).toContain('+03:00');
+
+        expect((await run('today', '--lat', '51.5', '--lon', '0', '--tz', '0')).code).toBe(0);
+    });
+
+    it('looks up --city in the bundled list with --offline', async () => {
+        const offline = await run('today', '--city', 'Makkah', '--offline', '--format', 'json');
+        const coords = await run('today', ...MECCA_ARGS, '--format', 'json');
+        expect(offline.code).toBe(0);
+        expect(JSON.parse(offline.stdout).location).toMatchObject({ latitude: 21.42664, timeZone: 'Asia/Riyadh' });
+        expect(JSON.parse(offline.stdout).days[0].times.maghrib.slice(0, 16)).toBe(JSON.parse(coords.stdout).days[0].times.maghrib.slice(0, 16));
+    });
+
+    it('passes config options as flags', async () => {
+        const base = await run('today', ...MECCA_ARGS, '--format', 'json');
+        const tuned = await run(
+            'today', ...MECCA_ARGS, '--format', 'json',
+            '--method', 'isna', '--asr-method', 'hanafi', '--adjustments', '{"dhuhr":2}', '--hijri-calendar', 'umm-al-qura',
+        );
+        const [a, b] = [JSON.parse(base.stdout).days[0], JSON.parse(tuned.stdout).days[0]];
+
+        expect(b.times.fajr).not.toBe(a.times.fajr);
+        expect(b.times.asr > a.times.asr).toBe(true);
+        expect(b.hijriDate).toBe('1445-09-05');
+    });
+
+    it('exits 1 with the validateConfig message on an invalid config', async () => {
+        const { code, stderr } = await run('today', '--lat', '95', '--lon', '39.8262', '--tz', '+03:00');
+        expect(code).toBe(1);
+        expect(stderr).toMatch(/^ramadan-timings: latitude must be between -90 and 90/);
+
+        expect((await run('today', ...MECCA_ARGS, '--method', 'nope')).code).toBe(1);
+    });
+
+    it('exits 2 on usage errors', async () => {
+        for (const argv of [
+            [],
+            ['tomorrow', ...MECCA_ARGS],
+            ['today'],
+            ['today', ...MECCA_ARGS, '--format', 'xml'],
+            ['today', ...MECCA_ARGS, '--unknown'],
+            ['today', ...MECCA_ARGS, '--date', '2024-13-01'],
+            ['today', ...MECCA_ARGS, '--adjustments', '{dhuhr:2}'],
+            ['next', ...MECCA_ARGS, '--format', 'ics'],
+        ]) {
+            const { code, stderr } = await run(...argv);
+            expect(code, argv.join(' ')).toBe(2);
+            expect(stderr).toContain('--help');
+        }
+    });
+
+    it('prints usage with --help', async () => {
+        const { code, stdout } = await run('--help');
+        expect(code).toBe(0);
+        expect(stdout).toMatch(/^Usage: ramadan-timings <command>/);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { getNextPrayer, getCurrentPrayer, getDayPrayerTimes, getDayFastingTimes } from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+};
+
+/** A UTC instant from a Mecca wall-clock time (UTC+3). */
+function meccaTime(month: number, day: number, hours: number, minutes = 0): Date {
+    return new Date(Date.UTC(2024, month, day, hours - 3, minutes));
+}
+
+describe('getNextPrayer', () => {
+    it('returns the next event of the day with the remaining time', () => {
+        const now = meccaTime(2, 15, 10);
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const next = getNextPrayer(now, MECCA)!;
+
+        expect(next.name).toBe('dhuhr');
+        expect(next.time.getTime()).toBe(today.dhuhr.getTime());
+        expect(next.remainingMs).toBe(today.dhuhr.getTime() - now.getTime());
+        expect(next.date.getDate()).toBe(15);
+    });
+
+    it('crosses midnight to tomorrow\'s Fajr after Isha', () => {
+        const next = getNextPrayer(meccaTime(2, 15, 23, 30), MECCA)!;
+        const tomorrow = getDayPrayerTimes(new Date(2024, 2, 16), MECCA)!;
+
+        expect(next.name).toBe('fajr');
+        expect(next.time.getTime()).toBe(tomorrow.fajr.getTime());
+        expect(next.date.getDate()).toBe(16);
+        expect(next.fastingProgress).toBeNull();
+    });
+
+    it('reports fasting progress between Fajr and Maghrib', () => {
+        const fast = getDayFastingTimes(new Date(2024, 2, 15), MECCA)!;
+        const midpoint = new Date((fast.fajr.getTime() + fast.maghrib.getTime()) / 2);
+        const next = getNextPrayer(midpoint, MECCA)!;
+
+        expect(next.fastingProgress).toBeCloseTo(50, 5);
+        expect(getNextPrayer(new Date(fast.maghrib.getTime() - 60000), MECCA)!.name).toBe('maghrib');
+        expect(getNextPrayer(fast.maghrib, MECCA)!.fastingProgress).toBeNull();
+    });
+
+    it('counts down to Maghrib including maghribDelayMinutes, as the fast does', () => {
+        const config: RamadanCoreConfig = { ...MECCA, maghribDelayMinutes: 10 };
+        const sunset = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!.maghrib;
+        const fast = getDayFastingTimes(new Date(2024, 2, 15), config)!;
+        const during = getNextPrayer(new Date(sunset.getTime() + 5 * 60000), config)!;
+
+        expect(fast.maghrib.getTime()).toBe(sunset.getTime() + 10 * 60000);
+        expect(during.name).toBe('maghrib');
+        expect(during.time.getTime()).toBe(fast.maghrib.getTime());
+        expect(during.fastingProgress).toBeGreaterThan(99);
+
+        const after = getCurrentPrayer(fast.maghrib, config)!;
+        expect(after.name).toBe('maghrib');
+        expect(after.fastingProgress).toBeNull();
+    });
+
+    it('resolves the local day from an IANA time zone', () => {
+        const london: RamadanCoreConfig = { latitude: 51.5085, longitude: -0.1257, timeZone: 'Europe/London' };
+        // 23:30 UTC on 20 June is 00:30 BST on 21 June
+        const next = getNextPrayer(new Date(Date.UTC(2024, 5, 20, 23, 30)), { ...london, highLatitudeMode: 'one-seventh' })!;
+
+        expect(next.name).toBe('fajr');
+        expect(next.date.getDate()).toBe(21);
+    });
+
+    it('works on high-latitude fallback days', () => {
+        const oslo: RamadanCoreConfig = { latitude: 59.9139, longitude: 10.7522, timezoneOffsetMinutes: 120, highLatitudeMode: 'one-seventh' };
+        const next = getNextPrayer(new Date(Date.UTC(2024, 5, 21, 21, 0)), oslo)!;
+        expect(next).not.toBeNull();
+        expect(next.remainingMs).toBeGreaterThan(0);
+    });
+
+    it('returns null when no times can be computed', () => {
+        const tromso: RamadanCoreConfig = { latitude: 69.6492, longitude: 18.9553, timezoneOffsetMinutes: 120 };
+        expect(getNextPrayer(new Date(Date.UTC(2024, 5, 21, 12)), tromso)).toBeNull();
+    });
+});
+
+describe('getCurrentPrayer', () => {
+    it('returns the period now falls in and when it ends', () => {
+        const now = meccaTime(2, 15, 16, 30);
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const current = getCurrentPrayer(now, MECCA)!;
+
+        expect(current.name).toBe('asr');
+        expect(current.time.getTime()).toBe(today.asr.getTime());
+        expect(current.endsAt.getTime()).toBe(today.maghrib.getTime());
+        expect(current.remainingMs).toBe(today.maghrib.getTime() - now.getTime());
+    });
+
+    it('keeps yesterday\'s Isha current until Fajr', () => {
+        const current = getCurrentPrayer(meccaTime(2, 15, 2), MECCA)!;
+        const yesterday = getDayPrayerTimes(new Date(2024, 2, 14), MECCA)!;
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+
+        expect(current.name).toBe('isha');
+        expect(current.time.getTime()).toBe(yesterday.isha.getTime());
+        expect(current.date.getDate()).toBe(14);
+        expect(current.endsAt.getTime()).toBe(today.fajr.getTime());
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createFormatter, PRAYER_NAME_DICTIONARY, formatLocalTime, formatDuration, SCHEDULE_EVENT_NAMES } from '../src/index';
+
+const AFTERNOON = new Date(Date.UTC(2024, 2, 15, 12, 5, 9)); // 15:05:09 in Mecca
+const MORNING = new Date(Date.UTC(2024, 2, 15, 2, 24, 7));   // 05:24:07 in Mecca
+
+describe('createFormatter', () => {
+    it('matches formatLocalTime and formatDuration by default', () => {
+        const fmt = createFormatter({ timezone: 180 });
+        expect(fmt.time(AFTERNOON)).toBe(formatLocalTime(AFTERNOON, 180));
+        expect(fmt.duration(792.4)).toBe(formatDuration(792.4));
+        expect(fmt.prayerName('fajr')).toBe('Fajr');
+    });
+
+    it('formats a 12-hour clock with seconds', () => {
+        const fmt = createFormatter({ timezone: 180, hour12: true, withSeconds: true });
+        expect(fmt.time(AFTERNOON)).toBe('3:05:09 PM');
+        expect(fmt.time(MORNING)).toBe('5:24:07 AM');
+        expect(fmt.time(new Date(Date.UTC(2024, 2, 15, 21, 0)))).toBe('12:00:00 AM');
+        expect(fmt.time(new Date(Date.UTC(2024, 2, 15, 9, 30)))).toBe('12:30:00 PM');
+    });
+
+    it('uses each locale\'s markers, separators and units', () => {
+        const cases: [Parameters<typeof createFormatter>[0], string, string][] = [
+            [{ locale: 'tr', hour12: true }, 'ÖS 3:05', '13 sa 12 dk'],
+            [{ locale: 'ms', hour12: true }, '3:05 PTG', '13 jam 12 minit'],
+            [{ locale: 'id' }, '15.05', '13 jam 12 menit'],
+            [{ locale: 'fr' }, '15:05', '13 h 12 min'],
+            [{ locale: 'ar', hour12: true }, '3:05 م', '13 س 12 د'],
+        ];
+        for (const [options, time, duration] of cases) {
+            const fmt = createFormatter({ timezone: 180, ...options });
+            expect(fmt.time(AFTERNOON)).toBe(time);
+            expect(fmt.duration(792)).toBe(duration);
+        }
+    });
+
+    it('writes native digits for Arabic and Urdu', () => {
+        const ar = createFormatter({ locale: 'ar', hour12: true, digits: 'native', timezone: 'Asia/Riyadh' });
+        expect(ar.time(AFTERNOON)).toBe('٣:٠٥ م');
+        expect(ar.duration(792)).toBe('١٣ س ١٢ د');
+        expect(ar.digits('1445')).toBe('١٤٤٥');
+
+        const ur = createFormatter({ locale: 'ur', digits: 'native', timezone: 300 });
+        expect(ur.time(MORNING)).toBe('۰۷:۲۴');
+        expect(ur.duration(61)).toBe('۱ گھنٹے ۱ منٹ');
+
+        expect(createFormatter({ locale: 'tr', digits: 'native' }).digits('12')).toBe('12');
+    });
+
+    it('names prayers per locale, with overrides', () => {
+        expect(createFormatter({ locale: 'ms' }).prayerName('fajr')).toBe('Subuh');
+        expect(createFormatter({ locale: 'tr' }).prayerName('asr')).toBe('İkindi');
+        expect(createFormatter({ locale: 'fr', prayerNames: { fajr: 'Sobh' } }).prayerName('fajr')).toBe('Sobh');
+
+        for (const names of Object.values(PRAYER_NAME_DICTIONARY)) {
+            expect(Object.keys(names).sort()).toEqual([...SCHEDULE_EVENT_NAMES].sort());
+        }
+    });
+
+    it('accepts a time zone per call', () => {
+        const fmt = createFormatter();
+        expect(fmt.time(AFTERNOON, 'Europe/London')).toBe('12:05');
+        expect(() => fmt.time(AFTERNOON)).toThrow(RangeError);
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => createFormatter({ locale: 'de' as never })).toThrow(RangeError);
+        expect(() => createFormatter({ locale: 'toString' as never })).toThrow(RangeError);
+        expect(() => createFormatter({ digits: 'roman' as never })).toThrow(RangeError);
+    });
+
+    it('rejects unknown prayer names', () => {
+        expect(() => createFormatter().prayerName('tahajjud' as never)).toThrow('name must be one of: imsak, fajr, sunrise, dhuhr, asr, maghrib, iftar, isha. Received: tahajjud');
+        expect(() => createFormatter().prayerName('toString' as never)).toThrow(RangeError);
+    });
+
+    it('rejects durations that are not finite numbers', () => {
+        const fmt = createFormatter();
+        expect(fmt.duration(-5)).toBe(formatDuration(-5));
+        expect(() => fmt.duration(NaN)).toThrow('totalMinutes must be a finite number. Received: NaN');
+        expect(() => fmt.duration(Infinity)).toThrow(RangeError);
+        expect(() => fmt.duration('90' as never)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    searchCities, CITY_GAZETTEER, getCityCoordinates, getFastingTimesByCity, getPrayerTimesByCity, getDayFastingTimes,
+} from '../src/index';
+
+const NAMES = (query: string, limit = 3) => searchCities(query, { limit }).map(m => `${m.city.name}, ${m.city.countryCode}`);
+
+describe('CITY_GAZETTEER', () => {
+    it('has valid coordinates and time zones', () => {
+        for (const city of CITY_GAZETTEER) {
+            expect(Math.abs(city.latitude), city.name).toBeLessThanOrEqual(90);
+            expect(Math.abs(city.longitude), city.name).toBeLessThanOrEqual(180);
+            expect(city.countryCode).toMatch(/^[A-Z]{2}$/);
+            expect(() => new Intl.DateTimeFormat('en', { timeZone: city.timeZone }), city.name).not.toThrow();
+        }
+    });
+});
+
+describe('searchCities', () => {
+    it('matches names, alternate names and Arabic names regardless of case and diacritics', () => {
+        expect(NAMES('mecca', 1)).toEqual(['Mecca, SA']);
+        expect(NAMES('Bombay', 1)).toEqual(['Mumbai, IN']);
+        expect(NAMES('FES', 1)).toEqual(['Fez, MA']);
+        expect(NAMES('Tromso', 1)).toEqual(['Tromsø, NO']);
+        expect(NAMES('القاهرة', 1)).toEqual(['Cairo, EG']);
+        expect(NAMES('مكه', 1)).toEqual(['Mecca, SA']);
+    });
+
+    it('ranks exact over prefix over fuzzy matches, then by population', () => {
+        const score = (query: string) => searchCities(query, { limit: 1 })[0].score;
+        expect(score('Lahore')).toBe(1);
+        expect(score('Laho')).toBeLessThan(1);
+        expect(score('Lahroe')).toBeLessThan(score('Laho'));
+
+        expect(NAMES('Hyderabad')).toEqual(['Hyderabad, IN', 'Hyderabad, PK']);
+        expect(NAMES('Kual Lumpur', 1)).toEqual(['Kuala Lumpur, MY']);
+        expect(NAMES('Istambul', 1)).toEqual(['Istanbul, TR']);
+        expect(NAMES('Xyzzy')).toEqual([]);
+    });
+
+    it('narrows by a qualifier after a comma or by country code', () => {
+        expect(NAMES('Hyderabad, PK')).toEqual(['Hyderabad, PK']);
+        expect(NAMES('hyderabad, sindh')).toEqual(['Hyderabad, PK']);
+        expect(searchCities('Hyderabad', { countryCode: 'pk' }).map(m => m.city.admin1)).toEqual(['Sindh']);
+    });
+
+    it('searches a custom list and validates the limit', () => {
+        const cities = [{ ...CITY_GAZETTEER[0], name: 'Kiosk Town', alternateNames: [], arabicName: '' }];
+        expect(searchCities('kiosk', { cities }).map(m => m.city.name)).toEqual(['Kiosk Town']);
+        expect(() => searchCities('London', { limit: 0 })).toThrow(RangeError);
+    });
+});
+
+describe('getCityCoordinates with a gazetteer', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const DATE = new Date(2024, 2, 15);
+
+    it('resolves cities offline without calling fetch', async () => {
+        const fetch = vi.fn();
+        vi.stubGlobal('fetch', fetch);
+
+        const coords = await getCityCoordinates('London', new Date(Date.UTC(2024, 6, 1)), { gazetteer: CITY_GAZETTEER, gazetteerMode: 'exclusive' });
+        expect(coords).toMatchObject({ name: 'London, England, United Kingdom', timezoneString: 'Europe/London', timezoneOffsetMinutes: 60 });
+        await expect(getCityCoordinates('Atlantis', DATE, { gazetteer: CITY_GAZETTEER, gazetteerMode: 'exclusive' })).rejects.toThrow('City not found: Atlantis');
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('only resolves exact and alternate names', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+        const exclusive = { gazetteer: CITY_GAZETTEER, gazetteerMode: 'exclusive' as const };
+
+        expect(NAMES('York', 1)).toEqual(['New York, US']);
+        await expect(getCityCoordinates('York', DATE, exclusive)).rejects.toThrow('City not found: York');
+        await expect(getCityCoordinates('Istambul', DATE, exclusive)).rejects.toThrow('City not found: Istambul');
+        await expect(getCityCoordinates('York', DATE, { gazetteer: CITY_GAZETTEER })).rejects.toThrow('fetch failed');
+        expect(await getCityCoordinates('Bombay', DATE, exclusive)).toMatchObject({ name: 'Mumbai, Maharashtra, India' });
+    });
+
+    it('falls back to the gazetteer when the network lookup fails', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+        const { locationName, times } = await getFastingTimesByCity('Makkah', DATE, { method: 'umm-al-qura' }, { gazetteer: CITY_GAZETTEER });
+        const mecca = CITY_GAZETTEER.find(c => c.name === 'Mecca')!;
+        expect(locationName).toBe('Mecca, Makkah Region, Saudi Arabia');
+        expect(times).toEqual(getDayFastingTimes(DATE, {
+            latitude: mecca.latitude, longitude: mecca.longitude, timeZone: mecca.timeZone, method: 'umm-al-qura',
+        }));
+
+        await expect(getPrayerTimesByCity('Atlantis', DATE, {}, { gazetteer: CITY_GAZETTEER })).rejects.toThrow('fetch failed');
+        await expect(getCityCoordinates('Cairo', DATE)).rejects.toThrow('fetch failed');
+    });
+
+    it('does not fall back when the network lookup finds nothing', async () => {
+        const fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ results: [] }) });
+        vi.stubGlobal('fetch', fetch);
+
+        await expect(getCityCoordinates('Cairo', DATE, { gazetteer: CITY_GAZETTEER })).rejects.toThrow('City not found: Cairo');
+        expect(fetch).toHaveBeenCalledOnce();
+
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, statusText: 'Service Unavailable' }));
+        expect(await getCityCoordinates('Cairo', DATE, { gazetteer: CITY_GAZETTEER })).toMatchObject({ timezoneString: 'Africa/Cairo' });
+    });
+
+    it('prefers the network result when it succeeds', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ results: [{ name: 'Cairo', latitude: 30.04, longitude: 31.24, timezone: 'Africa/Cairo', country: 'Egypt' }] }),
+        }));
+
+        const coords = await getCityCoordinates('Cairo', DATE, { gazetteer: CITY_GAZETTEER });
+        expect(coords).toMatchObject({ name: 'Cairo, Egypt', latitude: 30.04 });
+    });
+
+    it('rejects invalid lookup options', async () => {
+        await expect(getCityCoordinates('Cairo', DATE, { gazetteerMode: 'exclusive' })).rejects.toThrow(RangeError);
+        await expect(getCityCoordinates('Cairo', DATE, { gazetteer: CITY_GAZETTEER, gazetteerMode: 'offline' as never })).rejects.toThrow(RangeError);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    gregorianToHijri,
+    hijriToGregorian,
+    getHijriMonthLength,
+    formatHijriDate,
+    getRamadanFastingTimesForHijriYear,
+    getDayPrayerTimes,
+} from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+};
+
+describe('gregorianToHijri', () => {
+    it('converts with the Umm al-Qura calendar', () => {
+        expect(gregorianToHijri(new Date(2024, 2, 11))).toEqual({ year: 1445, month: 9, day: 1 });
+        expect(gregorianToHijri(new Date(2025, 2, 30))).toEqual({ year: 1446, month: 10, day: 1 });
+    });
+
+    it('converts with the tabular calendar', () => {
+        expect(gregorianToHijri(new Date(2024, 2, 11), 'tabular')).toEqual({ year: 1445, month: 9, day: 1 });
+        expect(gregorianToHijri(new Date(622, 6, 19), 'tabular')).toEqual({ year: 1, month: 1, day: 1 });
+    });
+
+    it('falls back to the tabular calendar outside the Umm al-Qura table', () => {
+        const date = new Date(1800, 0, 1);
+        expect(gregorianToHijri(date, 'umm-al-qura')).toEqual(gregorianToHijri(date, 'tabular'));
+    });
+});
+
+describe('hijriToGregorian', () => {
+    it('round-trips across several years', () => {
+        for (const calendar of ['umm-al-qura', 'tabular'] as const) {
+            for (let year = 1440; year <= 1460; year++) {
+                const date = hijriToGregorian(year, 9, 1, calendar);
+                expect(gregorianToHijri(date, calendar)).toEqual({ year, month: 9, day: 1 });
+            }
+        }
+    });
+
+    it('returns 1 Ramadan 1448', () => {
+        const date = hijriToGregorian(1448, 9, 1);
+        expect([date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2027, 1, 8]);
+    });
+
+    it('throws on an out-of-range day', () => {
+        expect(() => hijriToGregorian(1445, 9, 31)).toThrow('day must be an integer between 1 and');
+        expect(() => hijriToGregorian(1445, 13, 1)).toThrow('Hijri month must be an integer between 1 and 12');
+    });
+});
+
+describe('getHijriMonthLength', () => {
+    it('returns 29 or 30 days', () => {
+        expect(getHijriMonthLength(1445, 9)).toBe(30);
+        expect(getHijriMonthLength(1446, 9)).toBe(29);
+        expect(getHijriMonthLength(1445, 1, 'tabular')).toBe(30);
+        expect(getHijriMonthLength(1445, 2, 'tabular')).toBe(29);
+    });
+});
+
+describe('formatHijriDate', () => {
+    it('formats day, month name and year', () => {
+        expect(formatHijriDate({ year: 1448, month: 9, day: 1 })).toBe('1 Ramadan 1448');
+    });
+});
+
+describe('getRamadanFastingTimesForHijriYear', () => {
+    it('returns every day of Ramadan with its Hijri date', () => {
+        const times = getRamadanFastingTimesForHijriYear(1445, MECCA);
+        expect(times.length).toBe(30);
+        expect(times[0]?.hijriDate).toEqual({ year: 1445, month: 9, day: 1 });
+        expect(times[29]?.hijriDate).toEqual({ year: 1445, month: 9, day: 30 });
+        expect(times[0]?.date.getDate()).toBe(11);
+    });
+
+    it('derives isRamadan from the Hijri calendar', () => {
+        const config: RamadanCoreConfig = { ...MECCA, method: 'umm-al-qura', hijriCalendar: 'umm-al-qura' };
+        const ramadan = getDayPrayerTimes(new Date(2024, 2, 15), config);
+        const shawwal = getDayPrayerTimes(new Date(2024, 3, 15), config);
+        expect(ramadan && shawwal).toBeTruthy();
+        if (!ramadan || !shawwal) return;
+
+        expect(ramadan.isha.getTime() - ramadan.maghrib.getTime()).toBe(120 * 60000);
+        expect(shawwal.isha.getTime() - shawwal.maghrib.getTime()).toBe(90 * 60000);
+    });
+});
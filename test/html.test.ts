@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+    renderHtmlCalendar, getRamadanFastingTimesForHijriYear, getRamadanFastingTimes, getDayPrayerTimes, formatLocalTime,
+} from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+    method: 'umm-al-qura',
+};
+
+/** The `<tr>` rows of the table body. */
+function bodyRows(html: string): string[] {
+    const body = html.slice(html.indexOf('<tbody>'), html.indexOf('</tbody>'));
+    return body.match(/<tr[^>]*>.*?<\/tr>/g) ?? [];
+}
+
+describe('renderHtmlCalendar', () => {
+    const days = getRamadanFastingTimesForHijriYear(1445, MECCA);
+    const html = renderHtmlCalendar(days, MECCA, { locationName: 'Mecca' });
+
+    it('produces a self-contained document with a header', () => {
+        expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+        expect(html).toContain('<html lang="en" dir="ltr">');
+        expect(html).toContain('<title>Ramadan 1445</title>');
+        expect(html).toContain('@page { size: A4 portrait;');
+        expect(html).toContain('Mecca · 21.4225°N, 39.8262°E');
+        expect(html).toContain('Method: Umm al-Qura: Fajr 18.5°, Isha 90 min · Asr: Standard');
+        expect(html).not.toMatch(/<script|<link|src=/);
+    });
+
+    it('renders one row per day with all times and the fasting duration', () => {
+        const rows = bodyRows(html);
+        expect(rows).toHaveLength(days.length);
+
+        const first = days[0]!;
+        const prayers = getDayPrayerTimes(first.date, MECCA)!;
+        for (const t of [first.imsak, first.fajr, first.sunrise, prayers.dhuhr, prayers.asr, first.maghrib, prayers.isha]) {
+            expect(rows[0]).toContain(`<td class="time">${formatLocalTime(t, 180)}</td>`);
+        }
+        expect(rows[0]).toContain('1 Ramadan 1445');
+        expect(rows[0]).toMatch(/<td>\d+h \d+m<\/td><\/tr>$/);
+    });
+
+    it('highlights the last ten nights and Fridays', () => {
+        const rows = bodyRows(html);
+        const lastTen = rows.filter(r => /class="[^"]*last-ten/.test(r));
+        expect(lastTen).toHaveLength(days.length - 20);
+        expect(lastTen[0]).toContain('21 Ramadan 1445');
+
+        days.forEach((day, i) => {
+            expect(/class="[^"]*friday/.test(rows[i])).toBe(day!.date.getDay() === 5);
+        });
+    });
+
+    it('supports RTL, Letter paper, labels and escaping', () => {
+        const rtl = renderHtmlCalendar(days.slice(0, 2), MECCA, {
+            direction: 'rtl',
+            lang: 'ar',
+            paperSize: 'letter',
+            title: 'إمساكية <رمضان>',
+            labels: { imsak: 'الإمساك', maghrib: 'المغرب' },
+        });
+        expect(rtl).toContain('<html lang="ar" dir="rtl">');
+        expect(rtl).toContain('@page { size: letter portrait;');
+        expect(rtl).toContain('<title>إمساكية &lt;رمضان&gt;</title>');
+        expect(rtl).toContain('<th scope="col">الإمساك</th>');
+    });
+
+    it('marks unavailable and fallback days', () => {
+        const tromso: RamadanCoreConfig = { latitude: 69.6492, longitude: 18.9553, timeZone: 'Europe/Oslo' };
+        const unavailable = renderHtmlCalendar(
+            getRamadanFastingTimes(new Date(2024, 5, 20), new Date(2024, 5, 21), tromso),
+            tromso,
+            { startDate: new Date(2024, 5, 20) },
+        );
+        const rows = bodyRows(unavailable);
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toContain('class="unavailable"');
+        expect(rows[0]).toContain('<td colspan="8"');
+
+        const fallbackConfig = { ...tromso, highLatitudeMode: 'angle-based' as const };
+        const fallback = renderHtmlCalendar(
+            getRamadanFastingTimes(new Date(2024, 3, 25), new Date(2024, 3, 25), fallbackConfig),
+            fallbackConfig,
+        );
+        expect(bodyRows(fallback)[0]).toMatch(/ \*<\/td><\/tr>$/);
+        expect(fallback).toContain('<p>* Times estimated with the high-latitude rule.</p>');
+        expect(fallback).toContain('<title>Fasting Timetable</title>');
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => renderHtmlCalendar([], MECCA, { paperSize: 'a3' as never })).toThrow(RangeError);
+        expect(() => renderHtmlCalendar([], MECCA, { direction: 'ttb' as never })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+    toICalendar, getRamadanFastingTimes, getPrayerTimesRange, getDayFastingTimes, formatLocalTime,
+} from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+};
+
+const LONDON: RamadanCoreConfig = {
+    latitude: 51.5074,
+    longitude: -0.1278,
+    timeZone: 'Europe/London',
+    hijriCalendar: 'umm-al-qura',
+};
+
+const TIMESTAMP = new Date(Date.UTC(2024, 0, 1));
+
+/** Unfolds continuation lines and splits the document into content lines. */
+function parseLines(ics: string): string[] {
+    return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+function values(lines: string[], property: string): string[] {
+    return lines.filter(l => l.split(/[;:]/)[0] === property).map(l => l.slice(l.indexOf(':') + 1));
+}
+
+describe('toICalendar', () => {
+    it('exports Imsak and Iftar for each fasting day in UTC', () => {
+        const days = getRamadanFastingTimes(new Date(2024, 2, 11), new Date(2024, 2, 13), MECCA);
+        const ics = toICalendar(days, MECCA, { timestamp: TIMESTAMP });
+        const lines = parseLines(ics);
+
+        expect(ics.endsWith('\r\n')).toBe(true);
+        expect(lines[0]).toBe('BEGIN:VCALENDAR');
+        expect(lines.at(-1)).toBe('END:VCALENDAR');
+        expect(values(lines, 'SUMMARY')).toEqual(Array(3).fill(['Imsak (Suhoor ends)', 'Iftar (Maghrib)']).flat());
+
+        const iftar = days[0]!.maghrib;
+        const expected = iftar.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        expect(values(lines, 'DTSTART')[1]).toBe(expected);
+        expect(values(lines, 'DTSTAMP')[0]).toBe('20240101T000000Z');
+        expect(lines).not.toContain('BEGIN:VTIMEZONE');
+    });
+
+    it('keeps UIDs stable when the times change', () => {
+        const range = [new Date(2024, 2, 11), new Date(2024, 2, 12)] as const;
+        const a = parseLines(toICalendar(getRamadanFastingTimes(...range, MECCA), MECCA));
+        const shifted = { ...MECCA, imsakMarginMinutes: 10, maghribDelayMinutes: 3 };
+        const b = parseLines(toICalendar(getRamadanFastingTimes(...range, shifted), shifted));
+
+        expect(values(a, 'UID')).toEqual(values(b, 'UID'));
+        expect(new Set(values(a, 'UID')).size).toBe(4);
+        expect(values(a, 'UID')[0]).toBe('20240311-imsak-21.4225_39.8262@ramadan-timings');
+        expect(values(a, 'DTSTART')).not.toEqual(values(b, 'DTSTART'));
+    });
+
+    it('writes TZID local times and a VTIMEZONE across a DST switch', () => {
+        const days = getRamadanFastingTimes(new Date(2024, 2, 29), new Date(2024, 3, 2), LONDON);
+        const lines = parseLines(toICalendar(days, LONDON, { events: ['maghrib'] }));
+
+        const starts = lines.filter(l => l.startsWith('DTSTART;TZID=Europe/London:'));
+        expect(starts).toHaveLength(5);
+        days.forEach((day, i) => {
+            const hhmm = formatLocalTime(day!.maghrib, 'Europe/London').replace(':', '');
+            expect(starts[i]).toContain(`T${hhmm}`);
+        });
+
+        const tz = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+        expect(tz).toContain('TZID:Europe/London');
+        const daylight = tz.slice(tz.indexOf('BEGIN:DAYLIGHT'));
+        expect(daylight.slice(1, 4)).toEqual(['DTSTART:20240331T010000', 'TZOFFSETFROM:+0000', 'TZOFFSETTO:+0100']);
+    });
+
+    it('adds alarms, Hijri dates and a location', () => {
+        const days = [getDayFastingTimes(new Date(2024, 2, 11), LONDON)];
+        const lines = parseLines(toICalendar(days, LONDON, {
+            events: ['imsak'],
+            alarmMinutes: [30, 10],
+            location: 'East London Mosque, Whitechapel',
+        }));
+
+        expect(values(lines, 'TRIGGER')).toEqual(['-PT30M', '-PT10M']);
+        expect(lines.filter(l => l === 'BEGIN:VALARM')).toHaveLength(2);
+        expect(values(lines, 'DESCRIPTION')[0]).toBe('1 Ramadan 1445');
+        expect(values(lines, 'LOCATION')).toEqual(['East London Mosque\\, Whitechapel']);
+        expect(values(lines, 'GEO')).toEqual(['51.5074;-0.1278']);
+    });
+
+    it('exports the five prayers of prayer-time rows and skips null days', () => {
+        const days = [...getPrayerTimesRange(new Date(2024, 5, 1), new Date(2024, 5, 2), MECCA), null];
+        const lines = parseLines(toICalendar(days, MECCA));
+
+        expect(values(lines, 'SUMMARY')).toEqual(Array(2).fill(['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha']).flat());
+    });
+
+    it('folds long lines at 75 octets', () => {
+        const ics = toICalendar([], MECCA, { calendarName: 'رمضان كريم '.repeat(10) });
+        for (const line of ics.split('\r\n')) {
+            expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+        }
+        expect(values(parseLines(ics), 'X-WR-CALNAME')[0]).toBe('رمضان كريم '.repeat(10));
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => toICalendar([], MECCA, { alarmMinutes: [-5] })).toThrow(RangeError);
+        expect(() => toICalendar([], MECCA, { durationMinutes: 1000 })).toThrow(RangeError);
+        expect(() => toICalendar([], MECCA, { events: ['tahajjud' as never] })).toThrow(RangeError);
+    });
+});
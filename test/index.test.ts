@@ -4,6 +4,9 @@ import {
     getDayPrayerTimes,
     getRamadanFastingTimes,
     formatLocalTime,
+    CALCULATION_METHODS,
+    resolveCalculationParameters,
+    describeCalculationMethod,
 } from '../src/index';
 import type { RamadanCoreConfig } from '../src/types';
 
@@ -176,6 +179,162 @@ describe('getDayPrayerTimes', () => {
     });
 });
 
+describe('night times', () => {
+    it('places midnight and the last third between Maghrib and the next Fajr', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), LONDON)!;
+        const tomorrow = getDayPrayerTimes(new Date(2024, 2, 16), LONDON)!;
+        const night = tomorrow.fajr.getTime() - today.maghrib.getTime();
+
+        expect(today.midnight.getTime()).toBeCloseTo(today.maghrib.getTime() + night / 2, -1);
+        expect(today.lastThirdOfNight.getTime()).toBeCloseTo(today.maghrib.getTime() + (night * 2) / 3, -1);
+        expect(today.lastThirdOfNight.getTime()).toBeLessThan(tomorrow.fajr.getTime());
+        console.log(`London Mar 15 — Midnight: ${fmt(today.midnight, 0)}, Last third: ${fmt(today.lastThirdOfNight, 0)}`);
+    });
+
+    it('puts sunset-to-sunrise midnight after sunset-to-Fajr midnight', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const tomorrow = getDayPrayerTimes(new Date(2024, 2, 16), MECCA)!;
+        const expected = times.maghrib.getTime() + (tomorrow.sunrise.getTime() - times.maghrib.getTime()) / 2;
+
+        expect(times.midnightSunrise.getTime()).toBeCloseTo(expected, -1);
+        expect(times.midnightSunrise.getTime()).toBeGreaterThan(times.midnight.getTime());
+    });
+
+    it('uses the next day\'s Fajr across a DST switch', () => {
+        const config: RamadanCoreConfig = { ...NEW_YORK, timezoneOffsetMinutes: undefined, timeZone: 'America/New_York' };
+        const saturday = getDayPrayerTimes(new Date(2025, 2, 8), config)!;
+        const sunday = getDayPrayerTimes(new Date(2025, 2, 9), config)!;
+
+        expect(saturday.midnight.getTime()).toBeCloseTo((saturday.maghrib.getTime() + sunday.fajr.getTime()) / 2, -1);
+    });
+
+    it('stays between Maghrib and the next Fajr on high-latitude fallback days', () => {
+        const config: RamadanCoreConfig = { ...LONDON, latitude: 59.9139, highLatitudeMode: 'one-seventh' };
+        const times = getDayPrayerTimes(new Date(2024, 5, 21), config)!;
+        const tomorrow = getDayPrayerTimes(new Date(2024, 5, 22), config)!;
+
+        expect(times.highLatitudeFallbackApplied).toBe(true);
+        expect(times.midnight.getTime()).toBeGreaterThan(times.maghrib.getTime());
+        expect(times.lastThirdOfNight.getTime()).toBeLessThan(tomorrow.fajr.getTime());
+    });
+});
+
+describe('forbidden windows and Ishraq/Duha', () => {
+    it('returns the three windows in order around sunrise, Dhuhr and Maghrib', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const [sunrise, zawal, sunset] = times.forbiddenWindows;
+
+        expect(times.forbiddenWindows.map(w => w.kind)).toEqual(['sunrise', 'zawal', 'sunset']);
+        expect(sunrise.start.getTime()).toBe(times.sunrise.getTime());
+        expect(sunrise.end.getTime()).toBe(times.ishraq.getTime());
+        expect(zawal.end.getTime()).toBe(times.dhuhr.getTime());
+        expect(times.dhuhr.getTime() - zawal.start.getTime()).toBe(5 * 60000);
+        expect(sunset.end.getTime()).toBe(times.maghrib.getTime());
+
+        // A spear's length (4°) takes roughly a quarter of an hour near the tropics
+        const ishraqMinutes = (times.ishraq.getTime() - times.sunrise.getTime()) / 60000;
+        expect(ishraqMinutes).toBeGreaterThan(12);
+        expect(ishraqMinutes).toBeLessThan(25);
+        console.log(`Mecca Mar 15 — Ishraq: ${fmt(times.ishraq, 180)}, Duha: ${fmt(times.duha, 180)}, Yellowing: ${fmt(sunset.start, 180)}`);
+    });
+
+    it('places Duha between Ishraq and the zawal window', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 15), LONDON)!;
+        expect(times.duha.getTime()).toBeGreaterThan(times.ishraq.getTime());
+        expect(times.duha.getTime()).toBeLessThan(times.forbiddenWindows[1].start.getTime());
+    });
+
+    it('uses the Hanafi preset with asrMethod=hanafi and honours overrides', () => {
+        const standard = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const hanafi = getDayPrayerTimes(new Date(2024, 2, 15), { ...MECCA, asrMethod: 'hanafi' })!;
+        const custom = getDayPrayerTimes(new Date(2024, 2, 15), { ...MECCA, voluntaryPrayer: { zawalMinutes: 15 } })!;
+
+        expect(hanafi.ishraq.getTime()).toBeGreaterThan(standard.ishraq.getTime());
+        expect(hanafi.forbiddenWindows[2].start.getTime()).toBeLessThan(standard.forbiddenWindows[2].start.getTime());
+        expect(custom.dhuhr.getTime() - custom.forbiddenWindows[1].start.getTime()).toBe(15 * 60000);
+    });
+
+    it('keeps windows from overlapping when the sun stays low', () => {
+        const times = getDayPrayerTimes(new Date(2024, 11, 21), { ...LONDON, latitude: 66, voluntaryPrayer: { sunriseAltitude: 10, sunsetAltitude: 10 } })!;
+        const [sunrise, zawal, sunset] = times.forbiddenWindows;
+        expect(sunrise.end.getTime()).toBeLessThanOrEqual(zawal.start.getTime());
+        expect(sunset.start.getTime()).toBeGreaterThanOrEqual(zawal.end.getTime());
+    });
+});
+
+describe('adjustments and rounding', () => {
+    const date = new Date(2024, 2, 15);
+
+    it('shifts individual prayers by the configured minutes', () => {
+        const base = getDayPrayerTimes(date, MECCA)!;
+        const tuned = getDayPrayerTimes(date, { ...MECCA, adjustments: { dhuhr: 2, maghrib: 3, fajr: -1 } })!;
+
+        expect(tuned.dhuhr.getTime() - base.dhuhr.getTime()).toBe(2 * 60000);
+        expect(tuned.maghrib.getTime() - base.maghrib.getTime()).toBe(3 * 60000);
+        expect(tuned.fajr.getTime() - base.fajr.getTime()).toBe(-60000);
+        expect(tuned.asr.getTime()).toBe(base.asr.getTime());
+        // Derived night times still follow the astronomical Maghrib
+        expect(tuned.midnight.getTime()).toBe(base.midnight.getTime());
+    });
+
+    it('keeps interval Isha a fixed time after the adjusted Maghrib', () => {
+        const config = { ...MECCA, method: 'umm-al-qura' as const, adjustments: { maghrib: 3 } };
+        const tuned = getDayPrayerTimes(date, config)!;
+        expect(tuned.isha.getTime() - tuned.maghrib.getTime()).toBe(90 * 60000);
+
+        const both = getDayPrayerTimes(date, { ...config, adjustments: { maghrib: 3, isha: 5 } })!;
+        expect(both.isha.getTime() - both.maghrib.getTime()).toBe(95 * 60000);
+
+        // Angle-based Isha does not move with Maghrib
+        const mwl = getDayPrayerTimes(date, { ...MECCA, method: 'mwl' })!;
+        expect(getDayPrayerTimes(date, { ...MECCA, method: 'mwl', adjustments: { maghrib: 3 } })!.isha).toEqual(mwl.isha);
+    });
+
+    it('applies the same adjustments in getDayFastingTimes', () => {
+        const config = { ...MECCA, imsakMarginMinutes: 10, maghribDelayMinutes: 2, adjustments: { fajr: -2, maghrib: 3, dhuhr: 2 } };
+        const base = getDayFastingTimes(date, MECCA)!;
+        const tuned = getDayFastingTimes(date, config)!;
+
+        expect(tuned.fajr.getTime() - base.fajr.getTime()).toBe(-2 * 60000);
+        expect(tuned.fajr.getTime() - tuned.imsak.getTime()).toBe(10 * 60000);
+        expect(tuned.maghrib.getTime() - base.maghrib.getTime()).toBe(5 * 60000);
+        expect(tuned.solarNoon.getTime() - base.solarNoon.getTime()).toBe(2 * 60000);
+        expect(tuned.fastingDurationMinutes).toBe(base.fastingDurationMinutes + 7);
+    });
+
+    it('rounds to whole minutes in the configured direction', () => {
+        const exact = getDayPrayerTimes(date, MECCA)!;
+        const up = getDayPrayerTimes(date, { ...MECCA, rounding: 'up' })!;
+        const down = getDayPrayerTimes(date, { ...MECCA, rounding: 'down' })!;
+        const nearest = getDayPrayerTimes(date, { ...MECCA, rounding: 'nearest' })!;
+
+        for (const key of ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha', 'midnight', 'ishraq'] as const) {
+            expect(up[key].getTime() % 60000).toBe(0);
+            expect(up[key].getTime()).toBeGreaterThanOrEqual(exact[key].getTime());
+            expect(down[key].getTime()).toBeLessThanOrEqual(exact[key].getTime());
+            expect(Math.abs(nearest[key].getTime() - exact[key].getTime())).toBeLessThanOrEqual(30000);
+        }
+    });
+
+    it('rounds Fajr down and Maghrib up with safe rounding', () => {
+        const exact = getDayFastingTimes(date, MECCA)!;
+        const safe = getDayFastingTimes(date, { ...MECCA, rounding: 'safe' })!;
+
+        expect(safe.fajr.getTime()).toBe(Math.floor(exact.fajr.getTime() / 60000) * 60000);
+        expect(safe.imsak.getTime()).toBe(Math.floor(exact.imsak.getTime() / 60000) * 60000);
+        expect(safe.maghrib.getTime()).toBe(Math.ceil(exact.maghrib.getTime() / 60000) * 60000);
+    });
+
+    it('widens forbidden windows with safe rounding', () => {
+        const exact = getDayPrayerTimes(date, MECCA)!;
+        const safe = getDayPrayerTimes(date, { ...MECCA, rounding: 'safe' })!;
+        safe.forbiddenWindows.forEach((w, i) => {
+            expect(w.start.getTime()).toBeLessThanOrEqual(exact.forbiddenWindows[i].start.getTime());
+            expect(w.end.getTime()).toBeGreaterThanOrEqual(exact.forbiddenWindows[i].end.getTime());
+        });
+    });
+});
+
 describe('getRamadanFastingTimes', () => {
     it('returns correct number of days for a 30-day range', () => {
         const start = new Date(2024, 2, 11); // March 11
@@ -193,6 +352,198 @@ describe('formatLocalTime', () => {
         expect(formatLocalTime(utcDate, 0)).toBe('02:24');   // UTC
         expect(formatLocalTime(utcDate, -300)).toBe('21:24'); // UTC-5 (previous day)
     });
+
+    it('optionally includes seconds', () => {
+        const utcDate = new Date(Date.UTC(2024, 2, 1, 2, 24, 7));
+        expect(formatLocalTime(utcDate, 180, true)).toBe('05:24:07');
+    });
+});
+
+describe('IANA time zones', () => {
+    const NEW_YORK_TZ: RamadanCoreConfig = {
+        latitude: 40.7128,
+        longitude: -74.006,
+        timeZone: 'America/New_York',
+    };
+
+    it('resolves the offset per day across a DST switch', () => {
+        const times = getRamadanFastingTimes(new Date(2025, 2, 8), new Date(2025, 2, 10), NEW_YORK_TZ);
+        expect(times.map(t => t?.timezoneOffsetMinutes)).toEqual([-300, -240, -240]);
+        expect(times.map(t => t?.dstTransition)).toEqual([false, true, false]);
+
+        // Local Maghrib jumps by about an hour, the instant by about a minute
+        expect(formatLocalTime(times[0]!.maghrib, times[0]!.timezoneOffsetMinutes)).toMatch(/^17:/);
+        expect(formatLocalTime(times[2]!.maghrib, times[2]!.timezoneOffsetMinutes)).toMatch(/^18:/);
+    });
+
+    it('matches the fixed-offset result on a non-DST day', () => {
+        const zoned = getDayFastingTimes(new Date(2025, 0, 15), NEW_YORK_TZ);
+        const fixed = getDayFastingTimes(new Date(2025, 0, 15), NEW_YORK);
+        expect(zoned?.fajr.getTime()).toBe(fixed?.fajr.getTime());
+        expect(zoned?.maghrib.getTime()).toBe(fixed?.maghrib.getTime());
+    });
+
+    it('flags the 25-hour day in London', () => {
+        const times = getDayPrayerTimes(new Date(2025, 9, 26), { ...LONDON, timezoneOffsetMinutes: undefined, timeZone: 'Europe/London' });
+        expect(times?.dstTransition).toBe(true);
+        expect(times?.timezoneOffsetMinutes).toBe(0);
+    });
+
+    it('formats with an IANA time zone', () => {
+        const utcDate = new Date(Date.UTC(2025, 6, 1, 2, 24, 0));
+        expect(formatLocalTime(utcDate, 'Europe/London')).toBe('03:24');
+    });
+
+    it('throws on an unknown time zone', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...NEW_YORK_TZ, timeZone: 'Mars/Olympus' }))
+            .toThrow('timeZone must be a valid IANA time zone');
+    });
+
+    it('rejects both timeZone and timezoneOffsetMinutes', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...NEW_YORK_TZ, timezoneOffsetMinutes: -300 }))
+            .toThrow('timezoneOffsetMinutes and timeZone cannot both be specified');
+    });
+});
+
+describe('observer elevation', () => {
+    const ABHA: RamadanCoreConfig = {
+        latitude: 18.2164,
+        longitude: 42.5053,
+        timezoneOffsetMinutes: 180,
+    };
+
+    it('delays Maghrib and advances sunrise for an elevated observer', () => {
+        const sea = getDayFastingTimes(new Date(2024, 2, 15), ABHA);
+        const high = getDayFastingTimes(new Date(2024, 2, 15), { ...ABHA, elevationMeters: 2270 });
+        expect(sea && high).toBeTruthy();
+        if (!sea || !high) return;
+
+        const maghribShift = (high.maghrib.getTime() - sea.maghrib.getTime()) / 60000;
+        expect(maghribShift).toBeGreaterThan(5);
+        expect(maghribShift).toBeLessThan(10);
+        expect(high.sunrise.getTime()).toBeLessThan(sea.sunrise.getTime());
+        expect(high.fajr.getTime()).toBe(sea.fajr.getTime());
+        expect(high.fastingDurationMinutes).toBeGreaterThan(sea.fastingDurationMinutes);
+    });
+
+    it('applies no dip when the horizon is at the observer\'s elevation', () => {
+        const sea = getDayPrayerTimes(new Date(2024, 2, 15), ABHA);
+        const mountain = getDayPrayerTimes(new Date(2024, 2, 15), { ...ABHA, elevationMeters: 2270, horizonElevationMeters: 2270 });
+        expect(mountain?.maghrib.getTime()).toBe(sea?.maghrib.getTime());
+    });
+
+    it('brings Maghrib forward and delays sunrise behind a higher horizon', () => {
+        const date = new Date(2024, 2, 15);
+        const open = getDayPrayerTimes(date, ABHA)!;
+        const valley = getDayPrayerTimes(date, { ...ABHA, elevationMeters: 800, horizonElevationMeters: 2000, horizonDistanceMeters: 10000 })!;
+        const measured = getDayPrayerTimes(date, { ...ABHA, horizonAltitudeDegrees: 6.8 })!;
+
+        // atan(1200 / 10000) ≈ 6.84°, about half an hour of sun near the equinox at 18° N
+        const maghribShift = (open.maghrib.getTime() - valley.maghrib.getTime()) / 60000;
+        expect(maghribShift).toBeGreaterThan(25);
+        expect(maghribShift).toBeLessThan(35);
+        expect(valley.sunrise.getTime()).toBeGreaterThan(open.sunrise.getTime());
+        expect(valley.fajr.getTime()).toBe(open.fajr.getTime());
+        expect(Math.abs(measured.maghrib.getTime() - valley.maghrib.getTime())).toBeLessThan(60000);
+
+    });
+
+    it('requires a distance for a horizon above the observer', () => {
+        const date = new Date(2024, 2, 15);
+        expect(() => getDayPrayerTimes(date, { ...ABHA, elevationMeters: 800, horizonElevationMeters: 2000 }))
+            .toThrow('horizonDistanceMeters (or horizonAltitudeDegrees) is required when horizonElevationMeters is above elevationMeters');
+        expect(() => getDayFastingTimes(date, { ...ABHA, horizonElevationMeters: 50 })).toThrow(RangeError);
+        expect(() => getDayPrayerTimes(date, { ...ABHA, horizonElevationMeters: 2000, horizonAltitudeDegrees: 5 })).not.toThrow();
+    });
+
+    it('throws on invalid elevationMeters', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...ABHA, elevationMeters: 20000 }))
+            .toThrow('elevationMeters must be a number between -500 and 15000');
+    });
+});
+
+describe('polar days', () => {
+    const TROMSO: RamadanCoreConfig = { latitude: 69.6492, longitude: 18.9553, timezoneOffsetMinutes: 120, fajrTwilightAngle: 18 };
+
+    it('follows Mecca\'s durations during the midnight sun', () => {
+        const date = new Date(2024, 5, 21);
+        const times = getDayFastingTimes(date, { ...TROMSO, polarStrategy: 'mecca' })!;
+        const mecca = getDayFastingTimes(date, { ...MECCA, fajrTwilightAngle: 18 })!;
+
+        expect(times).not.toBeNull();
+        expect(times.polar).toEqual({ condition: 'midnight-sun', strategy: 'mecca', referenceLatitude: 21.4225, referenceLongitude: 39.8262 });
+        expect(times.highLatitudeFallbackApplied).toBe(true);
+        expect(Math.abs(times.fastingDurationMinutes - mecca.fastingDurationMinutes)).toBeLessThanOrEqual(1);
+        // Centred on Tromsø's own solar noon
+        const noon = times.solarNoon.getTime();
+        expect(Math.abs((times.maghrib.getTime() - noon) - (mecca.maghrib.getTime() - mecca.solarNoon.getTime()))).toBeLessThan(60000);
+        console.log(`Tromsø Jun 21 (mecca) — Fajr: ${fmt(times.fajr, 120)}, Maghrib: ${fmt(times.maghrib, 120)}`);
+    });
+
+    it('follows a reference location during the polar night', () => {
+        const date = new Date(2024, 11, 21);
+        const config: RamadanCoreConfig = {
+            ...TROMSO, timezoneOffsetMinutes: 60, polarStrategy: 'reference', polarReferenceLocation: { latitude: 59.9139, longitude: 10.7522 },
+        };
+        const times = getDayPrayerTimes(date, config)!;
+
+        expect(times.polar?.condition).toBe('polar-night');
+        expect(times.polar?.strategy).toBe('reference');
+        expect(times.fajr.getTime()).toBeLessThan(times.sunrise.getTime());
+        expect(times.sunrise.getTime()).toBeLessThan(times.dhuhr.getTime());
+        expect(times.dhuhr.getTime()).toBeLessThan(times.maghrib.getTime());
+        expect(times.maghrib.getTime()).toBeLessThan(times.isha.getTime());
+    });
+
+    it('follows the nearest latitude where the sun rises and sets', () => {
+        const times = getDayFastingTimes(new Date(2024, 5, 21), {
+            ...TROMSO, polarStrategy: 'nearest-latitude', highLatitudeMode: 'one-seventh',
+        })!;
+
+        expect(times.polar?.strategy).toBe('nearest-latitude');
+        expect(times.polar!.referenceLatitude).toBeLessThan(TROMSO.latitude);
+        expect(times.polar!.referenceLatitude).toBeGreaterThan(65);
+        expect(times.polar!.referenceLongitude).toBe(TROMSO.longitude);
+        // Near the polar circle the night is short
+        expect(times.fastingDurationMinutes).toBeGreaterThan(20 * 60);
+    });
+
+    it('applies the high-latitude mode at a reference without Fajr or Isha', () => {
+        const date = new Date(2024, 5, 21);
+        // 18° twilight never ends in Oslo at midsummer either
+        const config: RamadanCoreConfig = {
+            ...TROMSO, polarStrategy: 'reference', polarReferenceLocation: { latitude: 59.9139, longitude: 10.7522 }, highLatitudeMode: 'one-seventh',
+        };
+        const times = getDayPrayerTimes(date, config)!;
+        const seventhMs = (times.sunrise.getTime() + 86400000 - times.maghrib.getTime()) / 7;
+
+        expect(times.polar?.condition).toBe('midnight-sun');
+        expect(Math.abs(times.sunrise.getTime() - seventhMs - times.fajr.getTime())).toBeLessThan(60000);
+        expect(Math.abs(times.maghrib.getTime() + seventhMs - times.isha.getTime())).toBeLessThan(60000);
+        expect(getDayFastingTimes(date, { ...config, highLatitudeMode: 'none' })).toBeNull();
+    });
+
+    it('uses the configured horizon at the reference', () => {
+        const date = new Date(2024, 5, 21);
+        const sea = getDayFastingTimes(date, { ...TROMSO, polarStrategy: 'mecca' })!;
+        const high = getDayFastingTimes(date, { ...TROMSO, polarStrategy: 'mecca', elevationMeters: 1000 })!;
+
+        // The dip of a 1000 m horizon makes the day longer at both ends
+        expect(high.sunrise.getTime()).toBeLessThan(sea.sunrise.getTime());
+        expect(high.maghrib.getTime()).toBeGreaterThan(sea.maghrib.getTime());
+        expect(high.fajr.getTime()).toBe(sea.fajr.getTime());
+    });
+
+    it('does not affect days with a sunrise and sunset', () => {
+        const times = getDayFastingTimes(new Date(2024, 2, 21), { ...TROMSO, polarStrategy: 'mecca' })!;
+        expect(times.polar).toBeUndefined();
+        expect(times.highLatitudeFallbackApplied).toBe(false);
+    });
+
+    it('requires polarReferenceLocation for the reference strategy', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...TROMSO, polarStrategy: 'reference' }))
+            .toThrow("polarReferenceLocation is required when polarStrategy is 'reference'.");
+    });
 });
 
 describe('input validation', () => {
@@ -211,10 +562,112 @@ describe('input validation', () => {
             .toThrow('fajrTwilightAngle must be a number between 10 and 24');
     });
 
+    it('throws on invalid ishaTwilightAngle', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, ishaTwilightAngle: 30 }))
+            .toThrow('ishaTwilightAngle must be a number between 10 and 24');
+    });
+
     it('throws on invalid highLatitudeMode', () => {
         expect(() => getDayFastingTimes(new Date(), { ...LONDON, highLatitudeMode: 'invalid' as any }))
             .toThrow('highLatitudeMode must be one of');
     });
+
+    it('throws on invalid highLatitudeReferenceLatitude', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, highLatitudeReferenceLatitude: 70 }))
+            .toThrow('highLatitudeReferenceLatitude must be a number between 30 and 60');
+    });
+
+    it('throws on invalid highLatitudeClampLatitude', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, highLatitudeClampLatitude: -5 }))
+            .toThrow('highLatitudeClampLatitude must be a number between 0 and 90');
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, highLatitudeClampLatitude: 48.5 }))
+            .toThrow('highLatitudeClampLatitude requires highLatitudeMode to be one of: middle-of-night, one-seventh, angle-based, nearest-latitude. Received: none');
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, highLatitudeMode: 'nearest-day', highLatitudeClampLatitude: 48.5 }))
+            .toThrow(RangeError);
+    });
+
+    it('throws on invalid adjustments and rounding', () => {
+        expect(() => getDayPrayerTimes(new Date(), { ...LONDON, adjustments: { dhuhr: 90 } }))
+            .toThrow('adjustments.dhuhr must be a number between -60 and 60');
+        expect(() => getDayPrayerTimes(new Date(), { ...LONDON, adjustments: { tahajjud: 5 } as any }))
+            .toThrow('adjustments may only contain');
+        expect(() => getDayPrayerTimes(new Date(), { ...LONDON, rounding: 'ceil' as any }))
+            .toThrow('rounding must be one of');
+    });
+
+    it('throws on invalid voluntaryPrayer settings', () => {
+        expect(() => getDayPrayerTimes(new Date(), { ...LONDON, voluntaryPrayer: { sunriseAltitude: 30 } }))
+            .toThrow('voluntaryPrayer.sunriseAltitude must be a number between 0 and 20');
+    });
+});
+
+describe('calculation methods', () => {
+    it('resolves preset parameters', () => {
+        const params = resolveCalculationParameters({ ...LONDON, fajrTwilightAngle: undefined, method: 'isna' });
+        expect(params.method).toBe('isna');
+        expect(params.fajrTwilightAngle).toBe(15);
+        expect(params.ishaTwilightAngle).toBe(15);
+    });
+
+    it('lets explicit fields override the preset', () => {
+        const params = resolveCalculationParameters({ ...LONDON, method: 'egyptian', fajrTwilightAngle: 18 });
+        expect(params.fajrTwilightAngle).toBe(18);
+        expect(params.ishaTwilightAngle).toBe(17.5);
+    });
+
+    it('uses interval-based Isha for Umm al-Qura', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 1), { ...MECCA, method: 'umm-al-qura' });
+        expect(times).not.toBeNull();
+        if (!times) return;
+
+        expect(times.isha.getTime() - times.maghrib.getTime()).toBe(90 * 60000);
+    });
+
+    it('applies the preset angle to fasting times', () => {
+        const base = { latitude: 51.5085, longitude: -0.1257, timezoneOffsetMinutes: 0 };
+        const isna = getDayFastingTimes(new Date(2024, 2, 1), { ...base, method: 'isna' });
+        const mwl = getDayFastingTimes(new Date(2024, 2, 1), { ...base, method: 'mwl' });
+        expect(isna && mwl).toBeTruthy();
+        if (!isna || !mwl) return;
+
+        // 15° dawn is later than 18° dawn
+        expect(isna.fajr.getTime()).toBeGreaterThan(mwl.fajr.getTime());
+    });
+
+    it('describes a method', () => {
+        expect(describeCalculationMethod('umm-al-qura')).toBe('Umm al-Qura: Fajr 18.5°, Isha 90 min');
+        expect(describeCalculationMethod('mwl')).toBe('Muslim World League: Fajr 18°, Isha 17°');
+        expect(describeCalculationMethod('tehran')).toBe('Institute of Geophysics, University of Tehran: Fajr 17.7°, Isha 14° (Maghrib 4.5° not applied)');
+        expect(Object.keys(CALCULATION_METHODS)).toContain('diyanet');
+    });
+
+    it('uses the Ramadan interval when isRamadan is set', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 15), { ...MECCA, method: 'umm-al-qura', isRamadan: true });
+        expect(times).not.toBeNull();
+        if (!times) return;
+
+        expect(times.isha.getTime() - times.maghrib.getTime()).toBe(120 * 60000);
+    });
+
+    it('computes interval Isha on days where the angle never occurs', () => {
+        const config: RamadanCoreConfig = { ...LONDON, fajrTwilightAngle: 12, ishaIntervalMinutes: 90 };
+        const times = getDayPrayerTimes(new Date(2024, 5, 21), config);
+        expect(times).not.toBeNull();
+        if (!times) return;
+
+        expect(times.isha.getTime() - times.maghrib.getTime()).toBe(90 * 60000);
+        expect(times.highLatitudeFallbackApplied).toBe(false);
+    });
+
+    it('rejects both ishaTwilightAngle and ishaIntervalMinutes', () => {
+        expect(() => getDayPrayerTimes(new Date(), { ...LONDON, ishaTwilightAngle: 17, ishaIntervalMinutes: 90 }))
+            .toThrow('ishaTwilightAngle and ishaIntervalMinutes cannot both be specified');
+    });
+
+    it('throws on unknown method', () => {
+        expect(() => getDayFastingTimes(new Date(), { ...LONDON, method: 'foo' as any }))
+            .toThrow('method must be one of');
+    });
 });
 
 describe('high-latitude handling', () => {
@@ -247,6 +700,19 @@ describe('high-latitude handling', () => {
         }
     });
 
+    it('places middle-of-night Fajr in the night before sunrise, a day earlier than before', () => {
+        const times = getDayFastingTimes(new Date(2024, 4, 1), {
+            ...TROMSO,
+            highLatitudeMode: 'middle-of-night',
+        })!;
+        const nightMs = times.sunrise.getTime() + 86400000 - times.maghrib.getTime();
+        const previousFajrMs = times.maghrib.getTime() + nightMs / 2; // sunset + night / 2
+
+        expect(times.fajr.getTime()).toBeLessThan(times.sunrise.getTime());
+        expect(previousFajrMs).toBeGreaterThan(times.maghrib.getTime());
+        expect(Math.abs(times.fajr.getTime() + 86400000 - previousFajrMs)).toBeLessThanOrEqual(1);
+    });
+
     it('returns fallback with mode=one-seventh', () => {
         const timesMay = getDayFastingTimes(new Date(2024, 4, 1), {
             ...TROMSO,
@@ -266,4 +732,147 @@ describe('high-latitude handling', () => {
             expect(timesMay.highLatitudeFallbackApplied).toBe(true);
         }
     });
+
+    it('keeps events in order with mode=nearest-latitude', () => {
+        const times = getDayPrayerTimes(new Date(2024, 4, 1), { ...TROMSO, highLatitudeMode: 'nearest-latitude' })!;
+        const plain = getDayPrayerTimes(new Date(2024, 4, 1), { ...TROMSO, highLatitudeMode: 'one-seventh' })!;
+
+        expect(times.highLatitudeFallbackApplied).toBe(true);
+        // The observer's own sunrise and sunset are kept
+        expect(times.sunrise.getTime()).toBe(plain.sunrise.getTime());
+        expect(times.maghrib.getTime()).toBe(plain.maghrib.getTime());
+        expect(times.fajr.getTime()).toBeLessThan(times.sunrise.getTime());
+        expect(times.isha.getTime()).toBeGreaterThan(times.maghrib.getTime());
+        console.log(`Tromsø May 1 (nearest-latitude) — Fajr: ${fmt(times.fajr, 120)}, Isha: ${fmt(times.isha, 120)}`);
+    });
+
+    it('uses one-seventh of the night where the reference latitude has no twilight either', () => {
+        // At 48.5° in June the sun sinks only ~18° below the horizon: no 19.5° Fajr there, but a 17.5° Isha
+        const date = new Date(2024, 5, 21);
+        const config: RamadanCoreConfig = { ...LONDON, timezoneOffsetMinutes: 60, fajrTwilightAngle: 19.5, ishaTwilightAngle: 17.5, highLatitudeMode: 'nearest-latitude', highLatitudeReferenceLatitude: 48.5 };
+        const times = getDayPrayerTimes(date, config);
+        const reference = getDayPrayerTimes(date, { ...config, latitude: 48.5, highLatitudeMode: 'none' });
+
+        expect(times).not.toBeNull();
+        expect(reference).toBeNull();
+        const nightMs = times!.sunrise.getTime() + 86400000 - times!.maghrib.getTime();
+        expect(Math.abs(times!.sunrise.getTime() - times!.fajr.getTime() - nightMs / 7)).toBeLessThan(60000);
+        expect(times!.isha.getTime()).toBeGreaterThan(times!.maghrib.getTime());
+    });
+
+    it('covers the midnight sun with mode=nearest-latitude', () => {
+        const date = new Date(2024, 5, 21);
+        const times = getDayFastingTimes(date, { ...TROMSO, highLatitudeMode: 'nearest-latitude' });
+        const reference = getDayFastingTimes(date, { ...TROMSO, latitude: 45 })!;
+
+        expect(times).not.toBeNull();
+        expect(times!.highLatitudeFallbackApplied).toBe(true);
+        expect(times!.maghrib.getTime()).toBe(reference.maghrib.getTime());
+        expect(times!.fajr.getTime()).toBe(reference.fajr.getTime());
+    });
+
+    it('covers the polar night with mode=nearest-latitude', () => {
+        const date = new Date(2024, 11, 21);
+        const times = getDayPrayerTimes(date, { ...TROMSO, timezoneOffsetMinutes: 60, highLatitudeMode: 'nearest-latitude' });
+        const reference = getDayPrayerTimes(date, { ...TROMSO, timezoneOffsetMinutes: 60, latitude: 45 })!;
+
+        expect(times).not.toBeNull();
+        expect(times!.sunrise.getTime()).toBe(reference.sunrise.getTime());
+        expect(times!.maghrib.getTime()).toBe(reference.maghrib.getTime());
+        expect(times!.sunrise.getTime()).toBeLessThan(times!.dhuhr.getTime());
+        expect(times!.maghrib.getTime()).toBeGreaterThan(times!.dhuhr.getTime());
+    });
+
+    it('reuses the clock times of the closest normal day with mode=nearest-day', () => {
+        const OSLO: RamadanCoreConfig = { latitude: 59.9139, longitude: 10.7522, timezoneOffsetMinutes: 120, fajrTwilightAngle: 18 };
+        const times = getDayPrayerTimes(new Date(2024, 5, 21), { ...OSLO, highLatitudeMode: 'nearest-day' })!;
+
+        expect(times.highLatitudeFallbackApplied).toBe(true);
+        const source = times.highLatitudeSourceDate!;
+        expect(source).toBeInstanceOf(Date);
+
+        const sourceTimes = getDayPrayerTimes(source, OSLO)!;
+        expect(sourceTimes.highLatitudeFallbackApplied).toBe(false);
+        expect(fmt(times.fajr, 120)).toBe(fmt(sourceTimes.fajr, 120));
+        expect(fmt(times.isha, 120)).toBe(fmt(sourceTimes.isha, 120));
+        // Sunrise and sunset still exist on the requested day and are kept
+        expect(fmt(times.maghrib, 120)).not.toBe(fmt(sourceTimes.maghrib, 120));
+
+        // The next day towards the requested date has no true Fajr
+        const step = source.getTime() < new Date(2024, 5, 21).getTime() ? 1 : -1;
+        const closer = new Date(source.getFullYear(), source.getMonth(), source.getDate() + step);
+        expect(getDayPrayerTimes(closer, OSLO)).toBeNull();
+        console.log(`Oslo Jun 21 (nearest-day) — source ${source.toDateString()}, Fajr: ${fmt(times.fajr, 120)}`);
+    });
+
+    it('keeps interval Isha with mode=nearest-day', () => {
+        const OSLO: RamadanCoreConfig = { latitude: 59.9139, longitude: 10.7522, timezoneOffsetMinutes: 120, highLatitudeMode: 'nearest-day' };
+        const date = new Date(2024, 5, 21);
+        const interval = getDayPrayerTimes(date, { ...OSLO, fajrTwilightAngle: 12, ishaIntervalMinutes: 90 })!;
+        const angle = getDayPrayerTimes(date, { ...OSLO, fajrTwilightAngle: 12, ishaTwilightAngle: 18 })!;
+
+        expect(interval.isha.getTime() - interval.maghrib.getTime()).toBe(90 * 60000);
+        // Only a 12° Fajr is needed on the source day, so it is closer than one that also needs an 18° Isha
+        const gap = (d: Date) => Math.abs(d.getTime() - date.getTime());
+        expect(gap(interval.highLatitudeSourceDate!)).toBeLessThan(gap(angle.highLatitudeSourceDate!));
+    });
+
+    it('covers the midnight sun with mode=nearest-day', () => {
+        const times = getDayFastingTimes(new Date(2024, 5, 21), { ...TROMSO, highLatitudeMode: 'nearest-day' })!;
+        expect(times).not.toBeNull();
+        expect(times.highLatitudeSourceDate).toBeDefined();
+        expect(times.fajr.getTime()).toBeLessThan(times.sunrise.getTime());
+        expect(times.sunrise.getTime()).toBeLessThan(times.maghrib.getTime());
+    });
+
+    it('omits highLatitudeSourceDate for other modes', () => {
+        const times = getDayFastingTimes(new Date(2024, 4, 1), { ...TROMSO, highLatitudeMode: 'one-seventh' })!;
+        expect(times.highLatitudeSourceDate).toBeUndefined();
+    });
+
+    it('places middle-of-night Fajr before sunrise and Isha after Maghrib', () => {
+        const times = getDayPrayerTimes(new Date(2024, 4, 1), { ...TROMSO, highLatitudeMode: 'middle-of-night' })!;
+        expect(times.fajr.getTime()).toBeLessThan(times.sunrise.getTime());
+        expect(times.isha.getTime()).toBeGreaterThan(times.maghrib.getTime());
+        expect(times.fajr.getTime()).toBeLessThan(times.maghrib.getTime());
+    });
+
+    it('clamps Fajr and Isha to the night portion above highLatitudeClampLatitude', () => {
+        const london: RamadanCoreConfig = { ...LONDON, timezoneOffsetMinutes: 60 };
+        const date = new Date(2024, 4, 15);
+        const raw = getDayPrayerTimes(date, { ...london, highLatitudeMode: 'one-seventh' })!;
+        const clamped = getDayPrayerTimes(date, { ...london, highLatitudeMode: 'one-seventh', highLatitudeClampLatitude: 48.5 })!;
+
+        // True 18° Fajr exists but falls outside the last seventh of the night
+        expect(raw.highLatitudeFallbackApplied).toBe(false);
+        expect(clamped.highLatitudeFallbackApplied).toBe(true);
+        expect(clamped.fajr.getTime()).toBeGreaterThan(raw.fajr.getTime());
+        expect(clamped.isha.getTime()).toBeLessThan(raw.isha.getTime());
+
+        const night = clamped.sunrise.getTime() + 86400000 - clamped.maghrib.getTime();
+        expect(clamped.sunrise.getTime() - clamped.fajr.getTime()).toBeCloseTo(night / 7, -3);
+        console.log(`London May 15 — Fajr ${fmt(raw.fajr, 60)} → ${fmt(clamped.fajr, 60)}, Isha ${fmt(raw.isha, 60)} → ${fmt(clamped.isha, 60)}`);
+
+        const fast = getDayFastingTimes(date, { ...london, highLatitudeMode: 'one-seventh', highLatitudeClampLatitude: 48.5 })!;
+        expect(fast.fajr.getTime()).toBe(clamped.fajr.getTime());
+        expect(fast.highLatitudeFallbackApplied).toBe(true);
+    });
+
+    it('leaves times alone below highLatitudeClampLatitude or inside the portion', () => {
+        const below = getDayPrayerTimes(new Date(2024, 4, 15), { ...LONDON, highLatitudeMode: 'one-seventh', highLatitudeClampLatitude: 55 })!;
+        expect(below.highLatitudeFallbackApplied).toBe(false);
+
+        const winter = getDayPrayerTimes(new Date(2024, 11, 15), { ...LONDON, highLatitudeMode: 'one-seventh', highLatitudeClampLatitude: 48.5 })!;
+        const plain = getDayPrayerTimes(new Date(2024, 11, 15), LONDON)!;
+        expect(winter.highLatitudeFallbackApplied).toBe(false);
+        expect(winter.fajr.getTime()).toBe(plain.fajr.getTime());
+    });
+
+    it('uses highLatitudeReferenceLatitude', () => {
+        const date = new Date(2024, 5, 21);
+        const at45 = getDayFastingTimes(date, { ...TROMSO, highLatitudeMode: 'nearest-latitude' })!;
+        const at48 = getDayFastingTimes(date, { ...TROMSO, highLatitudeMode: 'nearest-latitude', highLatitudeReferenceLatitude: 48.5 })!;
+        expect(at48.maghrib.getTime()).toBeGreaterThan(at45.maghrib.getTime());
+        expect(at48.fajr.getTime()).toBeLessThan(at45.fajr.getTime());
+    });
 });
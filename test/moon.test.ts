@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getNewMoon,
+    getMoonPosition,
+    getCrescentVisibility,
+    predictHijriMonthStart,
+    predictRamadan,
+    getRamadanFastingTimes,
+    getDayPrayerTimes,
+    getDayFastingTimes,
+    getMoonIllumination,
+} from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+};
+
+const LONDON: RamadanCoreConfig = {
+    latitude: 51.5085,
+    longitude: -0.1257,
+    timezoneOffsetMinutes: 0,
+};
+
+function ymd(date: Date): string {
+    return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+describe('getNewMoon', () => {
+    it('matches published conjunction times within two minutes', () => {
+        const cases: [Date, number][] = [
+            [new Date(Date.UTC(2024, 2, 8)), Date.UTC(2024, 2, 10, 9, 0)],
+            [new Date(Date.UTC(2024, 3, 10)), Date.UTC(2024, 3, 8, 18, 21)],
+            [new Date(Date.UTC(2025, 2, 25)), Date.UTC(2025, 2, 29, 10, 58)],
+        ];
+        for (const [near, expected] of cases) {
+            expect(Math.abs(getNewMoon(near).getTime() - expected)).toBeLessThan(2 * 60000);
+        }
+    });
+});
+
+describe('getMoonPosition', () => {
+    it('reproduces the Meeus example 47.a', () => {
+        const pos = getMoonPosition(new Date(Date.UTC(1992, 3, 12) - 65000));
+        expect(pos.eclipticLongitude).toBeCloseTo(133.163, 1);
+        expect(pos.eclipticLatitude).toBeCloseTo(-3.229, 2);
+        expect(pos.distanceKm).toBeGreaterThan(368300);
+        expect(pos.distanceKm).toBeLessThan(368500);
+    });
+});
+
+describe('getCrescentVisibility', () => {
+    it('reports an invisible crescent a few hours after conjunction', () => {
+        const vis = getCrescentVisibility(new Date(2025, 2, 29), LONDON, 'yallop');
+        expect(vis).not.toBeNull();
+        if (!vis) return;
+
+        expect(vis.moonAgeHours).toBeLessThan(10);
+        expect(vis.visible).toBe(false);
+        expect(vis.zone).toBe('F');
+    });
+
+    it('reports an easily visible crescent the next evening', () => {
+        const vis = getCrescentVisibility(new Date(2025, 2, 30), LONDON, 'odeh');
+        expect(vis).not.toBeNull();
+        if (!vis) return;
+
+        expect(vis.lagMinutes).toBeGreaterThan(60);
+        expect(vis.zone).toBe('A');
+        expect(vis.visible).toBe(true);
+    });
+});
+
+describe('predictHijriMonthStart', () => {
+    it('matches the Umm al-Qura announcements for 1445 and 1446', () => {
+        expect(ymd(predictHijriMonthStart(1445, 9, MECCA, 'umm-al-qura'))).toBe('2024-3-11');
+        expect(ymd(predictHijriMonthStart(1445, 10, MECCA, 'umm-al-qura'))).toBe('2024-4-10');
+        expect(ymd(predictHijriMonthStart(1446, 10, MECCA, 'umm-al-qura'))).toBe('2025-3-30');
+    });
+
+    it('predicts Shawwal 1446 from Yallop in London', () => {
+        expect(ymd(predictHijriMonthStart(1446, 10, LONDON, 'yallop'))).toBe('2025-3-31');
+    });
+});
+
+describe('predictRamadan', () => {
+    it('feeds into getRamadanFastingTimes', () => {
+        const { start, end } = predictRamadan(1445, MECCA, 'umm-al-qura');
+        const times = getRamadanFastingTimes(start, end, MECCA);
+        expect(times.length).toBe(30);
+        expect(times.every(t => t !== null)).toBe(true);
+    });
+});
+
+describe('getMoonIllumination', () => {
+    it('is near zero at new moon and near one at full moon', () => {
+        const atNew = getMoonIllumination(new Date(Date.UTC(2024, 2, 10, 9, 0)));
+        const atFull = getMoonIllumination(new Date(Date.UTC(2024, 2, 25, 7, 0)));
+        expect(atNew.fraction).toBeLessThan(0.01);
+        expect(atNew.phase).toBe('new-moon');
+        expect(atFull.fraction).toBeGreaterThan(0.99);
+        expect(atFull.phase).toBe('full-moon');
+    });
+
+    it('distinguishes waxing from waning', () => {
+        expect(getMoonIllumination(new Date(Date.UTC(2024, 2, 17))).waxing).toBe(true);
+        expect(getMoonIllumination(new Date(Date.UTC(2024, 2, 31))).waxing).toBe(false);
+    });
+});
+
+describe('moon block', () => {
+    it('is omitted unless includeMoon is set', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 24), LONDON);
+        expect(times?.moon).toBeUndefined();
+    });
+
+    it('includes moonrise, moonset and illumination', () => {
+        const times = getDayFastingTimes(new Date(2024, 2, 24), { ...LONDON, includeMoon: true });
+        expect(times?.moon).toBeDefined();
+        const moon = times!.moon!;
+
+        // Near full moon: rises around sunset, sets around sunrise
+        expect(moon.moonrise).not.toBeNull();
+        expect(moon.moonset).not.toBeNull();
+        expect(Math.abs(moon.moonrise!.getTime() - times!.maghrib.getTime())).toBeLessThan(2 * 3600000);
+        expect(moon.illumination).toBeGreaterThan(0.95);
+        expect(moon.phase).toBe('full-moon');
+    });
+
+    it('returns null moonrise on a day without one', () => {
+        const times = getDayPrayerTimes(new Date(2024, 2, 1), { ...LONDON, includeMoon: true });
+        expect(times?.moon?.moonrise).toBeNull();
+        expect(times?.moon?.moonset).not.toBeNull();
+        expect(times?.moon?.alwaysUp).toBe(false);
+    });
+});
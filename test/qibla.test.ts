@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getQibla, getQiblaSunAlignments, formatLocalTime } from '../src/index';
+
+describe('getQibla', () => {
+    it('matches published Qibla bearings', () => {
+        expect(getQibla(51.5085, -0.1257).bearing).toBeCloseTo(118.99, 1);  // London
+        expect(getQibla(40.7128, -74.006).bearing).toBeCloseTo(58.48, 1);   // New York
+        expect(getQibla(-6.2088, 106.8456).bearing).toBeCloseTo(295.15, 1); // Jakarta
+        expect(getQibla(-33.8688, 151.2093).bearing).toBeCloseTo(277.50, 1); // Sydney
+    });
+
+    it('computes the great-circle distance to the Kaaba', () => {
+        expect(getQibla(51.5085, -0.1257).distanceKm).toBeCloseTo(4794, -1);
+        expect(getQibla(21.4225, 39.8262).distanceKm).toBeCloseTo(0, 6);
+    });
+
+    it('rejects invalid coordinates', () => {
+        expect(() => getQibla(95, 0)).toThrow(RangeError);
+        expect(() => getQibla(0, 200)).toThrow(RangeError);
+    });
+});
+
+describe('getQiblaSunAlignments', () => {
+    it('finds the daily moments the sun stands in the Qibla direction', () => {
+        const { bearing } = getQibla(51.5085, -0.1257);
+        const alignments = getQiblaSunAlignments(2025, 51.5085, -0.1257, 'Europe/London');
+        const inQibla = alignments.filter(a => a.kind === 'sun-in-qibla');
+        const opposite = alignments.filter(a => a.kind === 'sun-opposite-qibla');
+
+        // From February to November the morning sun passes the 119° bearing every day
+        expect(inQibla.length).toBeGreaterThan(250);
+        expect(opposite.length).toBeGreaterThan(50);
+        for (const a of inQibla) expect(a.azimuth).toBeCloseTo(bearing, 1);
+        for (const a of opposite) expect(a.azimuth).toBeCloseTo(bearing + 180, 1);
+        expect(alignments.every(a => a.altitude > 0)).toBe(true);
+        expect(alignments.every(a => a.localTime === formatLocalTime(a.time, 'Europe/London'))).toBe(true);
+
+        const may27 = inQibla.find(a => a.time.getUTCMonth() === 4 && a.time.getUTCDate() === 27)!;
+        expect(may27.localTime).toBe('10:17');
+    });
+
+    it('finds the sun over the Kaaba on 27 May and 15 July', () => {
+        const alignments = getQiblaSunAlignments(2025, 51.5085, -0.1257, 'Europe/London');
+        const overKaaba = alignments.filter(a => a.kind === 'sun-over-kaaba');
+
+        expect(overKaaba).toHaveLength(2);
+        // Known Rasd al-Qibla times: 12:18 and 12:27 Mecca time
+        expect(Math.abs(overKaaba[0].time.getTime() - Date.UTC(2025, 4, 27, 9, 18))).toBeLessThan(60000);
+        expect(Math.abs(overKaaba[1].time.getTime() - Date.UTC(2025, 6, 15, 9, 27))).toBeLessThan(60000);
+        // The zenith passage is that day's sun-in-qibla moment
+        const sameDay = alignments.find(a => a.kind === 'sun-in-qibla' && a.time.toDateString() === overKaaba[0].time.toDateString())!;
+        expect(Math.abs(sameDay.time.getTime() - overKaaba[0].time.getTime())).toBeLessThan(60000);
+    });
+
+    it('finds the sun over the antipode in January and November', () => {
+        const opposite = getQiblaSunAlignments(2025, -33.8688, 151.2093, 660).filter(a => a.kind === 'sun-opposite-kaaba');
+
+        expect(opposite.map(a => a.time.getUTCMonth())).toEqual([0, 10]);
+        // Morning in Sydney (around 08:00 AEDT), with the sun in the east opposite the 277.5° Qibla,
+        // so the shadow points towards the Qibla
+        const { bearing } = getQibla(-33.8688, 151.2093);
+        for (const a of opposite) {
+            expect(a.localTime >= '07:00' && a.localTime < '10:00', a.localTime).toBe(true);
+            expect(a.azimuth).toBeCloseTo(bearing - 180, 0);
+        }
+    });
+
+    it('returns only alignments with the sun up, in chronological order', () => {
+        const alignments = getQiblaSunAlignments(2025, 40.7128, -74.006, 'America/New_York');
+        const times = alignments.map(a => a.time.getTime());
+
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+        // 9:18 UTC is before sunrise in New York, but the afternoon sun crosses the opposite bearing
+        expect(alignments.some(a => a.kind === 'sun-over-kaaba')).toBe(false);
+        expect(alignments.filter(a => a.kind === 'sun-opposite-qibla').length).toBeGreaterThan(300);
+    });
+
+    it('rejects invalid time zones', () => {
+        expect(() => getQiblaSunAlignments(2025, 51.5085, -0.1257, 'Mars/Olympus')).toThrow(RangeError);
+        expect(() => getQiblaSunAlignments(2025, 51.5085, -0.1257, 900)).toThrow(RangeError);
+    });
+});
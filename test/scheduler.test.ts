@@ -0,0 +1,255 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPrayerScheduler, getDayPrayerTimes, getDayFastingTimes } from '../src/index';
+import type { PrayerSchedulerEvent } from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+};
+
+const HOUR = 3600000;
+
+/**
+ * A fake wall clock and timer queue. `advance` runs timers in order as time
+ * passes; `sleep` moves the wall clock without letting timers run, the way a
+ * suspended machine (or an NTP step) would.
+ */
+function createFakeTime(start: Date) {
+    let now = start.getTime();
+    let queue: { id: number; at: number; callback: () => void }[] = [];
+    let nextId = 1;
+
+    return {
+        clock: { now: () => now },
+        timers: {
+            setTimeout(callback: () => void, ms: number) {
+                const id = nextId++;
+                queue.push({ id, at: now + ms, callback });
+                return id;
+            },
+            clearTimeout(id: unknown) {
+                queue = queue.filter(t => t.id !== id);
+            },
+        },
+        advance(ms: number) {
+            const end = now + ms;
+            for (;;) {
+                queue.sort((a, b) => a.at - b.at);
+                const timer = queue[0];
+                if (!timer || timer.at > end) break;
+                queue.shift();
+                now = Math.max(now, timer.at);
+                timer.callback();
+            }
+            now = end;
+        },
+        sleep(ms: number) {
+            now += ms;
+            for (const timer of queue) timer.at += ms;
+        },
+        pending: () => queue.length,
+    };
+}
+
+function record(config: RamadanCoreConfig, start: Date, options: Parameters<typeof createPrayerScheduler>[1] = {}) {
+    const time = createFakeTime(start);
+    const events: PrayerSchedulerEvent[] = [];
+    const scheduler = createPrayerScheduler(config, {
+        ...options,
+        clock: time.clock,
+        timers: time.timers,
+        onEvent: e => events.push(e),
+    });
+    return { time, events, scheduler };
+}
+
+describe('createPrayerScheduler', () => {
+    it('fires each prayer, Imsak and Iftar at its time, in order', () => {
+        const config = { ...MECCA, maghribDelayMinutes: 2 };
+        const { time, events } = record(config, new Date(Date.UTC(2024, 2, 14, 20)));
+        time.advance(24 * HOUR);
+
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), config)!;
+        const fast = getDayFastingTimes(new Date(2024, 2, 15), config)!;
+        expect(events.map(e => e.name)).toEqual(['imsak', 'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'iftar', 'isha']);
+        expect(events.find(e => e.name === 'dhuhr')!.time.getTime()).toBe(today.dhuhr.getTime());
+        expect(events.find(e => e.name === 'iftar')!.time.getTime()).toBe(fast.maghrib.getTime());
+        expect(events.every(e => e.lateMs === 0 && e.minutesBefore === 0)).toBe(true);
+    });
+
+    it('does not fire events already past at start', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { time, events } = record(MECCA, new Date(today.asr.getTime() + 1000));
+        time.advance(HOUR);
+        expect(events).toEqual([]);
+    });
+
+    it('fires reminders before each selected event', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { time, events } = record(MECCA, new Date(today.dhuhr.getTime() - 2 * HOUR), {
+            events: ['dhuhr'],
+            reminderMinutes: [15, 5],
+        });
+        time.advance(3 * HOUR);
+
+        expect(events.map(e => e.minutesBefore)).toEqual([15, 5, 0]);
+        expect(events[0].firesAt.getTime()).toBe(today.dhuhr.getTime() - 15 * 60000);
+        expect(events.every(e => e.time.getTime() === today.dhuhr.getTime())).toBe(true);
+    });
+
+    it('re-plans across days', () => {
+        const { time, events } = record(MECCA, new Date(Date.UTC(2024, 2, 14, 20)), { events: ['fajr'] });
+        time.advance(5 * 24 * HOUR);
+        expect(events.map(e => e.date.getDate())).toEqual([15, 16, 17, 18, 19]);
+    });
+
+    it('fires events missed during sleep late, and drops those beyond maxLateMs', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { time, events } = record(MECCA, new Date(today.dhuhr.getTime() - 10 * 60000), {
+            events: ['dhuhr', 'asr'],
+            maxLateMs: 10 * 60000,
+        });
+
+        // Wake 3 minutes after Dhuhr: noticed at the next (≤ 1 minute) wake-up.
+        time.sleep(13 * 60000);
+        time.advance(60000);
+        expect(events).toHaveLength(1);
+        expect(events[0].name).toBe('dhuhr');
+        expect(events[0].lateMs).toBeGreaterThan(0);
+        expect(events[0].lateMs).toBeLessThanOrEqual(4 * 60000);
+
+        // Sleep through Asr by an hour: dropped, and the scheduler carries on.
+        time.sleep(today.asr.getTime() - time.clock.now() + HOUR);
+        time.advance(24 * HOUR);
+        expect(events.map(e => e.name)).toEqual(['dhuhr', 'dhuhr', 'asr']);
+    });
+
+    it('does not fire an event twice when the clock jumps back', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { time, events } = record(MECCA, new Date(today.dhuhr.getTime() - 60000), { events: ['dhuhr'] });
+        time.advance(2 * 60000);
+        time.sleep(-5 * 60000);
+        time.advance(10 * 60000);
+        expect(events).toHaveLength(1);
+    });
+
+    it('follows the offset change on a DST day', () => {
+        const london: RamadanCoreConfig = { latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London' };
+        const { time, events } = record(london, new Date(Date.UTC(2024, 2, 30, 12)), { events: ['fajr', 'maghrib'] });
+        time.advance(2 * 24 * HOUR + 8 * HOUR);
+
+        const sunday = getDayPrayerTimes(new Date(2024, 2, 31), london)!;
+        const monday = getDayPrayerTimes(new Date(2024, 3, 1), london)!;
+        expect(events.map(e => e.time.getTime())).toEqual([
+            getDayPrayerTimes(new Date(2024, 2, 30), london)!.maghrib.getTime(),
+            sunday.fajr.getTime(), sunday.maghrib.getTime(),
+            monday.fajr.getTime(), monday.maghrib.getTime(),
+        ]);
+    });
+
+    it('lists upcoming events', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { scheduler } = record(MECCA, new Date(today.dhuhr.getTime() - 60000));
+        const upcoming = scheduler.upcoming(2);
+        expect(upcoming.map(e => e.name)).toEqual(['dhuhr', 'asr']);
+    });
+
+    it('stops, and removes listeners', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const { time, events, scheduler } = record(MECCA, new Date(today.dhuhr.getTime() - 60000));
+        const extra: PrayerSchedulerEvent[] = [];
+        const off = scheduler.on(e => extra.push(e));
+
+        time.advance(2 * 60000);
+        off();
+        time.advance(5 * HOUR);
+        expect(extra.map(e => e.name)).toEqual(['dhuhr']);
+
+        scheduler.stop();
+        expect(scheduler.isRunning()).toBe(false);
+        expect(time.pending()).toBe(0);
+        const count = events.length;
+        time.advance(24 * HOUR);
+        expect(events).toHaveLength(count);
+    });
+
+    it('keeps running when a listener throws', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const time = createFakeTime(new Date(today.dhuhr.getTime() - 60000));
+        const names: string[] = [];
+        const errors: unknown[] = [];
+        createPrayerScheduler(MECCA, {
+            events: ['dhuhr', 'asr'],
+            clock: time.clock,
+            timers: time.timers,
+            onEvent: e => {
+                names.push(e.name);
+                if (e.name === 'dhuhr') throw new Error('boom');
+            },
+            onError: (error, event) => errors.push([(error as Error).message, event.name]),
+        });
+
+        expect(() => time.advance(2 * 60000)).not.toThrow();
+        time.advance(6 * HOUR);
+        expect(names).toEqual(['dhuhr', 'asr']);
+        expect(errors).toEqual([['boom', 'dhuhr']]);
+    });
+
+    it('notifies the other listeners and events when one throws', () => {
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const time = createFakeTime(new Date(today.dhuhr.getTime() - 6 * 60000));
+        const seen: string[] = [];
+        let errors = 0;
+        const scheduler = createPrayerScheduler(MECCA, {
+            events: ['dhuhr'],
+            reminderMinutes: [5],
+            clock: time.clock,
+            timers: time.timers,
+            onEvent: () => { throw new Error('first'); },
+            onError: () => { errors++; },
+        });
+        scheduler.on(e => { seen.push(`${e.name}-${e.minutesBefore}`); });
+
+        // The reminder and the event both fall due while asleep
+        time.sleep(5 * 60000);
+        time.advance(60000);
+        expect(seen).toEqual(['dhuhr-5', 'dhuhr-0']);
+        expect(errors).toBe(2);
+    });
+
+    it('survives a throwing listener on real timers', async () => {
+        // Real setTimeout callbacks, with time running 1000× fast: one real ms is one second
+        const today = getDayPrayerTimes(new Date(2024, 2, 15), MECCA)!;
+        const [realStart, start] = [Date.now(), today.dhuhr.getTime() - 90000];
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const seen: string[] = [];
+        const scheduler = createPrayerScheduler(MECCA, {
+            events: ['dhuhr'],
+            reminderMinutes: [1],
+            clock: { now: () => start + (Date.now() - realStart) * 1000 },
+            timers: {
+                setTimeout: (callback, ms) => setTimeout(callback, ms / 1000),
+                clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+            },
+            onEvent: e => {
+                seen.push(`${e.name}-${e.minutesBefore}`);
+                throw new Error('listener failed');
+            },
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        scheduler.stop();
+        const errorCalls = consoleError.mock.calls.length;
+        consoleError.mockRestore();
+
+        expect(seen).toEqual(['dhuhr-1', 'dhuhr-0']);
+        expect(errorCalls).toBe(2);
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => createPrayerScheduler(MECCA, { reminderMinutes: [0] })).toThrow(RangeError);
+        expect(() => createPrayerScheduler(MECCA, { events: ['tahajjud' as never] })).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+    toCsv, toJson, toMarkdown, getRamadanFastingTimes, getPrayerTimesRange, formatLocalTime,
+} from '../src/index';
+import type { TimetableJson } from '../src/index';
+import type { RamadanCoreConfig } from '../src/types';
+
+const MECCA: RamadanCoreConfig = {
+    latitude: 21.4225,
+    longitude: 39.8262,
+    timezoneOffsetMinutes: 180,
+    hijriCalendar: 'umm-al-qura',
+};
+
+const TROMSO: RamadanCoreConfig = {
+    latitude: 69.6492,
+    longitude: 18.9553,
+    timeZone: 'Europe/Oslo',
+};
+
+const ramadan = () => getRamadanFastingTimes(new Date(2024, 2, 11), new Date(2024, 2, 13), MECCA);
+
+describe('toCsv', () => {
+    it('writes a header and one row per day', () => {
+        const days = ramadan();
+        const lines = toCsv(days, MECCA).split('\r\n');
+
+        expect(lines[0]).toBe('date,hijriDate,imsak,fajr,sunrise,dhuhr,maghrib,fastingDuration,status');
+        expect(lines[1]).toBe([
+            '2024-03-11', '1 Ramadan 1445',
+            formatLocalTime(days[0]!.imsak, 180), formatLocalTime(days[0]!.fajr, 180),
+            formatLocalTime(days[0]!.sunrise, 180), formatLocalTime(days[0]!.solarNoon, 180),
+            formatLocalTime(days[0]!.maghrib, 180), Math.round(days[0]!.fastingDurationMinutes).toString(), 'normal',
+        ].join(','));
+        expect(lines).toHaveLength(5);
+        expect(lines[4]).toBe('');
+    });
+
+    it('supports columns, headers, delimiter and BOM', () => {
+        const csv = toCsv(ramadan(), MECCA, {
+            columns: ['date', 'fajr', 'maghrib'],
+            headers: { fajr: 'Suhoor ends; Fajr' },
+            delimiter: ';',
+            bom: true,
+            withSeconds: true,
+        });
+
+        expect(csv.charCodeAt(0)).toBe(0xfeff);
+        const [header, first] = csv.slice(1).split('\r\n');
+        expect(header).toBe('date;"Suhoor ends; Fajr";maghrib');
+        expect(first).toMatch(/^2024-03-11;\d{2}:\d{2}:\d{2};\d{2}:\d{2}:\d{2}$/);
+    });
+
+    it('keeps unavailable days as explicit rows with their date', () => {
+        const days = getRamadanFastingTimes(new Date(2024, 5, 20), new Date(2024, 5, 22), TROMSO);
+        expect(days.every(d => d === null)).toBe(true);
+
+        const lines = toCsv([ramadan()[0], null], MECCA, { columns: ['date', 'fajr', 'status'] }).split('\r\n');
+        expect(lines[2]).toBe('2024-03-12,,unavailable');
+
+        const unanchored = toCsv(days, TROMSO, { columns: ['date', 'status'], startDate: new Date(2024, 5, 20) });
+        expect(unanchored.split('\r\n').slice(1, 4)).toEqual([
+            '2024-06-20,unavailable', '2024-06-21,unavailable', '2024-06-22,unavailable',
+        ]);
+    });
+
+    it('marks fallback days', () => {
+        const config: RamadanCoreConfig = { ...TROMSO, highLatitudeMode: 'angle-based' };
+        const days = getRamadanFastingTimes(new Date(2024, 3, 25), new Date(2024, 3, 25), config);
+        expect(toCsv(days, config, { columns: ['status'] }).split('\r\n')[1]).toBe('fallback');
+    });
+
+    it('uses prayer columns for prayer-time rows', () => {
+        const days = getPrayerTimesRange(new Date(2024, 5, 1), new Date(2024, 5, 1), { ...MECCA, hijriCalendar: undefined });
+        expect(toCsv(days, MECCA).split('\r\n')[0]).toBe('date,fajr,sunrise,dhuhr,asr,maghrib,isha,status');
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => toCsv([], MECCA, { delimiter: '"' })).toThrow(RangeError);
+        expect(() => toCsv([], MECCA, { columns: ['tahajjud' as never] })).toThrow(RangeError);
+    });
+});
+
+describe('toJson', () => {
+    it('follows the documented schema with ISO 8601 local times', () => {
+        const days = ramadan();
+        const doc = JSON.parse(toJson([...days, null], MECCA)) as TimetableJson;
+
+        expect(doc.version).toBe(1);
+        expect(doc.location).toEqual({ latitude: 21.4225, longitude: 39.8262, timeZone: null });
+        expect(doc.days).toHaveLength(4);
+
+        const first = doc.days[0];
+        expect(first.date).toBe('2024-03-11');
+        expect(first.hijriDate).toBe('1445-09-01');
+        expect(first.status).toBe('normal');
+        expect(Object.keys(first.times!)).toEqual(['imsak', 'fajr', 'sunrise', 'dhuhr', 'maghrib']);
+        expect(first.times!.maghrib).toMatch(/^2024-03-11T18:\d{2}:\d{2}\+03:00$/);
+        expect(new Date(first.times!.maghrib!).getTime()).toBe(Math.floor(days[0]!.maghrib.getTime() / 1000) * 1000);
+        expect(first.fastingDurationMinutes).toBe(days[0]!.fastingDurationMinutes);
+
+        expect(doc.days[3]).toEqual({
+            date: '2024-03-14', hijriDate: null, status: 'unavailable', times: null, fastingDurationMinutes: null,
+        });
+    });
+
+    it('writes the offset in effect at each time in an IANA zone', () => {
+        const config: RamadanCoreConfig = { latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London' };
+        const days = getPrayerTimesRange(new Date(2024, 2, 30), new Date(2024, 2, 31), config);
+        const doc = JSON.parse(toJson(days, config)) as TimetableJson;
+
+        expect(doc.days[0].times!.dhuhr).toMatch(/\+00:00$/);
+        expect(doc.days[1].times!.dhuhr).toMatch(/\+01:00$/);
+        expect(Object.keys(doc.days[0].times!)).toEqual([
+            'fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha', 'midnight', 'lastThirdOfNight',
+        ]);
+    });
+});
+
+describe('toMarkdown', () => {
+    it('renders a table with readable headers, durations and placeholders', () => {
+        const days = [...ramadan().slice(0, 1), null];
+        const lines = toMarkdown(days, MECCA).trimEnd().split('\n');
+
+        expect(lines[0]).toBe('| Date | Hijri | Imsak | Fajr | Sunrise | Dhuhr | Maghrib | Fasting | Status |');
+        expect(lines[1]).toBe('| --- | --- | --- | --- | --- | --- | --- | --- | --- |');
+        expect(lines[2]).toMatch(/^\| 2024-03-11 \| 1 Ramadan 1445 \| \d{2}:\d{2} .* \| \d+h \d+m \| normal \|$/);
+        expect(lines[3]).toBe('| 2024-03-12 | — | — | — | — | — | — | — | unavailable |');
+    });
+});